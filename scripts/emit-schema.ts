@@ -0,0 +1,20 @@
+import { mkdir, writeFile } from "node:fs/promises";
+
+import {
+  elementContextJsonSchema,
+  grabrSessionJsonSchema,
+} from "../src/internal/json-schema";
+
+// Publish the session contract as standalone JSON Schema documents so
+// non-TypeScript consumers (Python agents, shell tooling) can validate too.
+const outDir = new URL("../dist/", import.meta.url);
+await mkdir(outDir, { recursive: true });
+
+const documents = [
+  { file: "grabr-session.schema.json", schema: grabrSessionJsonSchema },
+  { file: "element-context.schema.json", schema: elementContextJsonSchema },
+];
+
+for (const { file, schema } of documents) {
+  await writeFile(new URL(file, outDir), `${JSON.stringify(schema, null, 2)}\n`);
+}
@@ -6,17 +6,29 @@ export {
   ClipboardAgentProvider,
   defaultRuntimeConfig,
   mergeRuntimeConfig,
+  dataUrlToBlob,
+  clearSourceMapCache,
 } from "./grabr";
 
 export type {
   AgentProvider,
+  AgentSendOptions,
   ElementContextV2,
+  ElementScreenshot,
   GrabrApi,
   GrabrClient,
   GrabrInitOptions,
   GrabrRuntimeConfig,
   GrabrSession,
+  HookKind,
+  PromptBudget,
+  PromptFormat,
+  PromptRenderer,
+  PropsCaptureOptions,
   ReactInspectorMode,
+  ScreenshotOptions,
+  SelectionMode,
+  SourceMapOptions,
 } from "./grabr";
 
 export const setupGrabr = initGrabr;
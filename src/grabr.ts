@@ -21,24 +21,70 @@ export type {
   SerializableValue,
   BoundingBox,
   SelectionIdentity,
+  SelectionFingerprintParts,
+  SelectionFingerprint,
   SelectionInfo,
+  ComponentSelectionInfo,
   DomNodeSummary,
   SiblingSummary,
   ChildSummary,
+  SelectorStrategy,
+  SelectorSyntax,
+  RankedSelector,
+  FrameSummary,
   DomNeighborhood,
+  AccessibleNameSource,
+  AriaTristate,
+  AriaStates,
+  AccessibilityLabel,
+  FocusInfo,
+  AccessibilityNode,
+  AccessibilityInfo,
   SourceConfidence,
   SourceOrigin,
   SourceLocation,
   ComponentFlags,
   PropHighlight,
   PropsSnapshot,
+  HookKind,
   StateSnapshotEntry,
   StateSnapshot,
+  ContextProviderInfo,
   ContextEntry,
   ContextSnapshot,
+  ComponentSnapshot,
   ReactComponentFrame,
+  PropLineageStep,
+  PropLineage,
   ReactTreeSlice,
   MatchedRuleSummary,
+  ComputedStyleCategory,
+  ComputedStyleDiff,
+  DesignTokenTable,
+  VariableReference,
+  CustomPropertyValue,
+  TokenMatch,
+  DesignTokenInfo,
+  UtilityConcern,
+  UtilityClass,
+  UtilityClassInfo,
+  LayoutParentInfo,
+  ContainingBlockInfo,
+  ScrollContainerInfo,
+  ClippingAncestor,
+  StackingContextInfo,
+  LayoutAncestry,
+  ViewportPlacement,
+  OcclusionInfo,
+  VisibilityReport,
+  FormInfo,
+  FormFieldInfo,
+  FormLibrary,
+  FormLibraryState,
+  FormContext,
+  ElementScreenshot,
+  ScreenshotOptions,
+  SourceMapOptions,
   StyleFrame,
   EventKind,
   BehaviorInferenceLevel,
@@ -65,24 +111,180 @@ export type {
   DataSourceDetectionInput,
   DataSourceDetectionStrategy,
   ReactInspectorMode,
+  SelectionMode,
+  ComponentTarget,
+  StyleCaptureMode,
   GrabrHeuristics,
   GrabrRuntimeConfig,
   InspectorEngine,
+  SchemaValidationIssue,
+  SchemaValidationResult,
+  SerializationLimits,
+  PropsCaptureMode,
+  PropNamePattern,
+  PropsCaptureOptions,
+  RedactionSummary,
+  RedactionDetector,
+  RedactionInput,
+  CustomRedactor,
+  RedactionConfig,
+  PromptFormat,
+  PromptEntry,
+  PromptPriority,
+  PromptSection,
+  ElementPromptDocument,
+  SessionPromptDocument,
+  PromptRenderer,
+  PromptRendererRegistry,
+  PromptBudget,
+  TokenEstimator,
+  PromptIntegrity,
+  PromptParseIssue,
+  ParsedPromptSection,
+  ParsedPromptElement,
+  ParsedSessionPrompt,
+  AgentSendOptions,
 } from "./internal/schema";
 
 export { defaultRuntimeConfig, mergeRuntimeConfig } from "./internal/heuristics";
 
-export { truncateText, toSerializableValue } from "./internal/serializable";
+export {
+  defaultSerializationLimits,
+  truncateText,
+  toSerializableValue,
+  hasTruncationMarker,
+  summarizeReactChildren,
+} from "./internal/serializable";
+
+export type { JsonSchema, JsonSchemaType } from "./internal/json-schema";
+
+export {
+  elementContextJsonSchema,
+  grabrSessionJsonSchema,
+  validateElementContext,
+  validateSession,
+} from "./internal/json-schema";
+
+export {
+  defaultRedactionConfig,
+  formatRedactionMarker,
+  mergeRedactionSummaries,
+  redactElementContext,
+} from "./internal/redaction";
+
+export { buildPreferredSelector, buildSelectionInfo } from "./internal/dom";
+
+export { buildAccessibilityInfo } from "./internal/accessibility";
 
-export { buildPreferredSelector } from "./internal/dom";
+export { categorizeStyleProperty } from "./internal/computed-style";
+
+export {
+  buildDesignTokenInfo,
+  extractVariableNames,
+  normalizeTokenValue,
+} from "./internal/tokens";
+
+export { parseUtilityClass } from "./internal/utility-classes";
+
+export { buildLayoutAncestry } from "./internal/layout";
+
+export { buildSamplePoints, buildVisibilityReport } from "./internal/visibility";
+
+export { buildFormContext } from "./internal/form";
+
+export {
+  clearSourceMapCache,
+  normalizeSourcePath,
+  resolveSourceLocation,
+} from "./internal/source-maps";
+
+export {
+  buildBehaviorContext,
+  buildPropLineage,
+  countComponentAncestors,
+  isSameComponent,
+  readFormLibraryState,
+  resolveComponentAt,
+  snapshotContexts,
+  snapshotProps,
+  unionBoundingBox,
+} from "./internal/react";
+export type { ResolvedComponent } from "./internal/react";
+
+export {
+  HOOK_KINDS,
+  classifyHookNode,
+  inspectFiberHooks,
+  parseCustomHookPath,
+} from "./internal/hooks";
+export type { InspectedHook } from "./internal/hooks";
+
+export type { ScreenshotPlan } from "./internal/screenshot";
+export {
+  captureElementScreenshot,
+  dataUrlToBlob,
+  defaultScreenshotOptions,
+  planScreenshot,
+} from "./internal/screenshot";
+
+export type { Specificity } from "./internal/css-rules";
+
+export {
+  collectMatchedRules,
+  computeSpecificity,
+  formatSpecificity,
+} from "./internal/css-rules";
 
 export { createInspectorEngine, getElementContext } from "./internal/inspector";
 
 export {
+  buildElementPromptDocument,
+  buildSessionPromptDocument,
   renderElementContextPrompt,
+  renderElementContextPromptAs,
   renderSessionPrompt,
+  renderSessionPromptAs,
 } from "./internal/prompt";
 
+export {
+  builtinPromptRenderers,
+  createPromptRendererRegistry,
+  grabrV2PromptRenderer,
+  jsonPromptRenderer,
+  markdownPromptRenderer,
+  xmlPromptRenderer,
+} from "./internal/prompt-renderers";
+
+export {
+  applyPromptBudgetToElement,
+  applyPromptBudgetToSession,
+  approximateTokenEstimator,
+  shrinkPromptValue,
+} from "./internal/prompt-budget";
+
+export { parseSessionPrompt } from "./internal/prompt-parser";
+
+export { computeSelectionFingerprint } from "./internal/fingerprint";
+
+export {
+  buildRankedSelectors,
+  isGeneratedId,
+  isHashedClassName,
+  isStateClassName,
+  isUtilityClassName,
+  rankSelectors,
+} from "./internal/selectors";
+
+export {
+  getComposedEventTarget,
+  getComposedParent,
+  getShadowHostChain,
+} from "./internal/shadow";
+
+export { getFrameChain, getFrameOffset } from "./internal/frames";
+
+export type { ClipboardAgentProviderOptions } from "./internal/client";
+
 export {
   ClipboardAgentProvider,
   createGrabrClient,
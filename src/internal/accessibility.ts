@@ -0,0 +1,480 @@
+import { truncateText } from "./serializable";
+import { getComposedParent } from "./shadow";
+import type {
+  AccessibilityInfo,
+  AccessibilityLabel,
+  AccessibilityNode,
+  AccessibleNameSource,
+  AriaStates,
+  AriaTristate,
+  FocusInfo,
+} from "./schema";
+
+const MAX_ACCESSIBLE_NAME = 80;
+const MAX_DESCRIPTION = 160;
+const MAX_LABELS = 6;
+const MAX_TREE_ANCESTORS = 4;
+const MAX_TREE_CHILDREN = 8;
+// Upper bounds on elements visited while building the tree slice.
+const MAX_ANCESTOR_WALK = 16;
+const MAX_DESCENDANT_WALK = 200;
+// Upper bound on nodes visited while collecting name or label text.
+const MAX_TEXT_WALK = 500;
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+// Elements whose contents are never rendered as text.
+const NON_TEXT_TAGS = new Set(["script", "style", "template", "noscript"]);
+
+// `<input>` buttons named by their value; a missing value falls back to the
+// browser's default label (none for `type=button`).
+const INPUT_BUTTON_LABELS: { readonly [type: string]: string | null } = {
+  submit: "Submit",
+  reset: "Reset",
+  button: null,
+};
+
+// Elements whose accessible name comes from their text content.
+const NAME_FROM_CONTENT_TAGS = new Set([
+  "a",
+  "button",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "label",
+  "legend",
+  "option",
+  "summary",
+  "th",
+]);
+const NAME_FROM_CONTENT_ROLES = new Set([
+  "button",
+  "link",
+  "heading",
+  "tab",
+  "menuitem",
+  "option",
+  "checkbox",
+  "radio",
+  "switch",
+  "cell",
+  "columnheader",
+  "rowheader",
+  "treeitem",
+]);
+
+const INPUT_TYPE_ROLES: { readonly [type: string]: string } = {
+  button: "button",
+  submit: "button",
+  reset: "button",
+  image: "button",
+  checkbox: "checkbox",
+  radio: "radio",
+  range: "slider",
+  number: "spinbutton",
+  search: "searchbox",
+  email: "textbox",
+  tel: "textbox",
+  text: "textbox",
+  url: "textbox",
+};
+
+const TAG_ROLES: { readonly [tag: string]: string } = {
+  article: "article",
+  aside: "complementary",
+  button: "button",
+  dialog: "dialog",
+  footer: "contentinfo",
+  form: "form",
+  h1: "heading",
+  h2: "heading",
+  h3: "heading",
+  h4: "heading",
+  h5: "heading",
+  h6: "heading",
+  header: "banner",
+  hr: "separator",
+  li: "listitem",
+  main: "main",
+  nav: "navigation",
+  ol: "list",
+  option: "option",
+  progress: "progressbar",
+  section: "region",
+  select: "combobox",
+  table: "table",
+  tbody: "rowgroup",
+  td: "cell",
+  textarea: "textbox",
+  th: "columnheader",
+  thead: "rowgroup",
+  tr: "row",
+  ul: "list",
+};
+
+/**
+ * Explicit `role` (first token) or the implicit role of common HTML elements.
+ */
+export function getElementRole(el: Element): string | null {
+  const explicit = el.getAttribute("role")?.trim().split(/\s+/)[0];
+  if (explicit) {
+    return explicit;
+  }
+  const tag = el.tagName.toLowerCase();
+  if (tag === "a" || tag === "area") {
+    return el.hasAttribute("href") ? "link" : null;
+  }
+  if (tag === "img") {
+    return el.getAttribute("alt") === "" ? "presentation" : "img";
+  }
+  if (tag === "input") {
+    const type = (el.getAttribute("type") ?? "text").toLowerCase();
+    return INPUT_TYPE_ROLES[type] ?? null;
+  }
+  return TAG_ROLES[tag] ?? null;
+}
+
+/**
+ * CSS selector for every element that may have `role`: explicit roles plus
+ * the tags that carry it implicitly. getElementRole still has to confirm
+ * each match.
+ */
+export function getRoleQuerySelector(role: string): string {
+  const selectors = ["[role]"];
+  for (const [tag, implicit] of Object.entries(TAG_ROLES)) {
+    if (implicit === role) selectors.push(tag);
+  }
+  if (role === "link") selectors.push("a[href]", "area[href]");
+  if (role === "img" || role === "presentation") selectors.push("img");
+  if (Object.values(INPUT_TYPE_ROLES).includes(role)) selectors.push("input");
+  return selectors.join(", ");
+}
+
+function nonEmpty(value: string | null | undefined, limit: number): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const text = truncateText(value, limit);
+  return text.length === 0 ? null : text;
+}
+
+type AccessibleName = {
+  readonly name: string | null;
+  readonly source: AccessibleNameSource | null;
+};
+
+function isExcludedFromText(el: Element): boolean {
+  return (
+    el.getAttribute("aria-hidden") === "true" ||
+    el.hasAttribute("hidden") ||
+    NON_TEXT_TAGS.has(el.tagName.toLowerCase())
+  );
+}
+
+// Text of `root`'s descendants in document order, skipping `aria-hidden`
+// and `hidden` subtrees and script/style contents (unlike `textContent`).
+function collectText(root: Element): string {
+  const parts: string[] = [];
+  const stack = Array.from(root.childNodes).reverse();
+  let walked = 0;
+  while (stack.length > 0 && walked < MAX_TEXT_WALK) {
+    const node = stack.pop()!;
+    walked += 1;
+    if (node.nodeType === TEXT_NODE) {
+      parts.push(node.nodeValue ?? "");
+    } else if (node.nodeType === ELEMENT_NODE && !isExcludedFromText(node as Element)) {
+      stack.push(...Array.from(node.childNodes).reverse());
+    }
+  }
+  return parts.join("");
+}
+
+function getInputButtonLabel(el: Element): string | null {
+  if (el.tagName.toLowerCase() !== "input") return null;
+  const type = (el.getAttribute("type") ?? "").toLowerCase();
+  if (!(type in INPUT_BUTTON_LABELS)) return null;
+  return (
+    nonEmpty(el.getAttribute("value"), MAX_ACCESSIBLE_NAME) ?? INPUT_BUTTON_LABELS[type] ?? null
+  );
+}
+
+function getIdRefs(el: Element, attr: string): string[] {
+  const value = el.getAttribute(attr);
+  return value ? value.split(/\s+/).filter((id) => id.length > 0) : [];
+}
+
+// IDREFs resolve within the element's own tree (document or shadow root).
+function getElementByIdRef(el: Element, id: string): Element | null {
+  const root = el.getRootNode() as Partial<Document>;
+  if (typeof root.getElementById === "function") {
+    return root.getElementById(id);
+  }
+  return el.ownerDocument.getElementById(id);
+}
+
+function textOfIdRefs(el: Element, attr: string, limit: number): string | null {
+  const ids = getIdRefs(el, attr);
+  if (ids.length === 0) {
+    return null;
+  }
+  const text = ids
+    .map((id) => {
+      const target = getElementByIdRef(el, id);
+      return target ? collectText(target) : "";
+    })
+    .join(" ");
+  return nonEmpty(text, limit);
+}
+
+function getLabelElements(el: Element): Element[] {
+  const labels = (el as Partial<HTMLInputElement>).labels;
+  return labels ? Array.from(labels) : [];
+}
+
+function isNamedFromContent(el: Element): boolean {
+  if (NAME_FROM_CONTENT_TAGS.has(el.tagName.toLowerCase())) {
+    return true;
+  }
+  const role = getElementRole(el);
+  return role !== null && NAME_FROM_CONTENT_ROLES.has(role);
+}
+
+/**
+ * Accessible name and where it came from, following accname precedence:
+ * aria-labelledby, aria-label, the value of `<input>` buttons, native
+ * labels, alt, placeholder, contents (for roles named by their content),
+ * then title. Text skips hidden subtrees.
+ */
+export function resolveAccessibleName(el: Element): AccessibleName {
+  const labelledBy = textOfIdRefs(el, "aria-labelledby", MAX_ACCESSIBLE_NAME);
+  if (labelledBy !== null) return { name: labelledBy, source: "aria-labelledby" };
+
+  const ariaLabel = nonEmpty(el.getAttribute("aria-label"), MAX_ACCESSIBLE_NAME);
+  if (ariaLabel !== null) return { name: ariaLabel, source: "aria-label" };
+
+  const buttonLabel = getInputButtonLabel(el);
+  if (buttonLabel !== null) return { name: buttonLabel, source: "value" };
+
+  const labels = getLabelElements(el);
+  if (labels.length > 0) {
+    const text = labels.map(collectText).join(" ");
+    const name = nonEmpty(text, MAX_ACCESSIBLE_NAME);
+    if (name !== null) return { name, source: "label" };
+  }
+
+  for (const attr of ["alt", "placeholder"] as const) {
+    const value = nonEmpty(el.getAttribute(attr), MAX_ACCESSIBLE_NAME);
+    if (value !== null) return { name: value, source: attr };
+  }
+
+  if (isNamedFromContent(el)) {
+    const text = nonEmpty(collectText(el), MAX_ACCESSIBLE_NAME);
+    if (text !== null) return { name: text, source: "contents" };
+  }
+
+  const title = nonEmpty(el.getAttribute("title"), MAX_ACCESSIBLE_NAME);
+  if (title !== null) return { name: title, source: "title" };
+  return { name: null, source: null };
+}
+
+export function computeAccessibleName(el: Element): string | null {
+  return resolveAccessibleName(el).name;
+}
+
+function computeAccessibleDescription(
+  el: Element,
+  nameSource: AccessibleNameSource | null
+): string | null {
+  const describedBy = textOfIdRefs(el, "aria-describedby", MAX_DESCRIPTION);
+  if (describedBy !== null) return describedBy;
+  const description = nonEmpty(el.getAttribute("aria-description"), MAX_DESCRIPTION);
+  if (description !== null) return description;
+  // A title not used as the name becomes the description.
+  return nameSource === "title" ? null : nonEmpty(el.getAttribute("title"), MAX_DESCRIPTION);
+}
+
+function parseAriaBoolean(value: string | null): boolean | null {
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return null;
+}
+
+function parseAriaTristate(value: string | null): AriaTristate | null {
+  return value === "mixed" ? "mixed" : parseAriaBoolean(value);
+}
+
+function isCheckableInput(el: Element): boolean {
+  if (el.tagName.toLowerCase() !== "input") return false;
+  const type = (el.getAttribute("type") ?? "").toLowerCase();
+  return type === "checkbox" || type === "radio";
+}
+
+function matchesSafe(el: Element, selector: string): boolean {
+  try {
+    return typeof el.matches === "function" && el.matches(selector);
+  } catch {
+    return false;
+  }
+}
+
+function getAriaStates(el: Element): AriaStates {
+  let checked = parseAriaTristate(el.getAttribute("aria-checked"));
+  if (checked === null && isCheckableInput(el)) {
+    const input = el as Partial<HTMLInputElement>;
+    checked = input.indeterminate ? "mixed" : input.checked === true;
+  }
+  const invalid = el.getAttribute("aria-invalid");
+  return {
+    expanded: parseAriaBoolean(el.getAttribute("aria-expanded")),
+    pressed: parseAriaTristate(el.getAttribute("aria-pressed")),
+    checked,
+    // `:disabled` also covers controls inside a disabled fieldset.
+    disabled: el.getAttribute("aria-disabled") === "true" || matchesSafe(el, ":disabled"),
+    invalid:
+      invalid === "grammar" || invalid === "spelling"
+        ? invalid
+        : invalid !== null && invalid !== "false" && invalid !== "",
+  };
+}
+
+function getAccessibilityLabels(el: Element): AccessibilityLabel[] {
+  const labels: AccessibilityLabel[] = getLabelElements(el).map((label) => ({
+    kind: "label",
+    id: label.id.length > 0 ? label.id : null,
+    text: nonEmpty(collectText(label), MAX_ACCESSIBLE_NAME),
+  }));
+  for (const kind of ["aria-labelledby", "aria-describedby"] as const) {
+    for (const id of getIdRefs(el, kind)) {
+      const target = getElementByIdRef(el, id);
+      labels.push({
+        kind,
+        id,
+        text: target ? nonEmpty(collectText(target), MAX_ACCESSIBLE_NAME) : null,
+      });
+    }
+  }
+  return labels.slice(0, MAX_LABELS);
+}
+
+function isNativelyFocusable(el: Element): boolean {
+  const tag = el.tagName.toLowerCase();
+  switch (tag) {
+    case "a":
+    case "area":
+      return el.hasAttribute("href");
+    case "button":
+    case "select":
+    case "textarea":
+    case "iframe":
+    case "summary":
+      return true;
+    case "input":
+      return (el.getAttribute("type") ?? "").toLowerCase() !== "hidden";
+    case "audio":
+    case "video":
+      return el.hasAttribute("controls");
+    default: {
+      const editable = el.getAttribute("contenteditable");
+      return editable !== null && editable !== "false";
+    }
+  }
+}
+
+function getFocusInfo(el: Element): FocusInfo {
+  const raw = el.getAttribute("tabindex");
+  const parsed = raw === null ? NaN : Number.parseInt(raw, 10);
+  const tabIndex = Number.isFinite(parsed) ? parsed : null;
+  const native = isNativelyFocusable(el);
+  const focusable = !matchesSafe(el, ":disabled") && (native || tabIndex !== null);
+  return {
+    focusable,
+    tabIndex,
+    inTabOrder: focusable && (tabIndex === null ? native : tabIndex >= 0),
+  };
+}
+
+function isHiddenFromAccessibility(el: Element): boolean {
+  let current: Element | null = el;
+  while (current) {
+    if (current.getAttribute("aria-hidden") === "true" || current.hasAttribute("hidden")) {
+      return true;
+    }
+    current = getComposedParent(current);
+  }
+  return false;
+}
+
+// Roles that do not produce a node of their own in the accessibility tree.
+function isTreeRole(role: string | null): role is string {
+  return role !== null && role !== "generic" && role !== "presentation" && role !== "none";
+}
+
+function summarizeAccessibilityNode(el: Element, role: string): AccessibilityNode {
+  return { role, name: computeAccessibleName(el) };
+}
+
+function collectTreeAncestors(el: Element): AccessibilityNode[] {
+  const ancestors: AccessibilityNode[] = [];
+  let current = getComposedParent(el);
+  let walked = 0;
+  while (current && walked < MAX_ANCESTOR_WALK && ancestors.length < MAX_TREE_ANCESTORS) {
+    const role = getElementRole(current);
+    if (isTreeRole(role)) {
+      ancestors.push(summarizeAccessibilityNode(current, role));
+    }
+    current = getComposedParent(current);
+    walked += 1;
+  }
+  return ancestors;
+}
+
+// Depth-first through generic wrappers; a descendant with a role is listed
+// and not entered further.
+function collectTreeChildren(el: Element): AccessibilityNode[] {
+  const children: AccessibilityNode[] = [];
+  const stack = Array.from(el.children).reverse();
+  let walked = 0;
+  while (stack.length > 0 && walked < MAX_DESCENDANT_WALK && children.length < MAX_TREE_CHILDREN) {
+    const current = stack.pop()!;
+    walked += 1;
+    if (current.getAttribute("aria-hidden") === "true") {
+      continue;
+    }
+    const role = getElementRole(current);
+    if (isTreeRole(role)) {
+      children.push(summarizeAccessibilityNode(current, role));
+      continue;
+    }
+    stack.push(...Array.from(current.children).reverse());
+  }
+  return children;
+}
+
+export function buildAccessibilityInfo(el: Element): AccessibilityInfo {
+  const role = getElementRole(el);
+  const { name, source } = resolveAccessibleName(el);
+  return {
+    role,
+    roleSource:
+      role === null
+        ? null
+        : (el.getAttribute("role") ?? "").trim().length > 0
+          ? "explicit"
+          : "implicit",
+    name,
+    nameSource: source,
+    description: computeAccessibleDescription(el, source),
+    states: getAriaStates(el),
+    labels: getAccessibilityLabels(el),
+    focus: getFocusInfo(el),
+    hidden: isHiddenFromAccessibility(el),
+    tree: {
+      ancestors: collectTreeAncestors(el),
+      children: collectTreeChildren(el),
+    },
+  };
+}
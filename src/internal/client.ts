@@ -2,37 +2,73 @@ import { hasRDTHook } from "bippy";
 
 import type {
   AgentProvider,
+  AgentSendOptions,
+  BoundingBox,
   ElementContextV2,
+  ElementScreenshot,
   GrabrApi,
   GrabrClient,
   GrabrInitOptions,
   GrabrRuntimeConfig,
   GrabrSession,
   InspectorEngine,
+  PromptFormat,
+  PromptRendererRegistry,
+  SelectionMode,
 } from "./schema";
 
 import { createInspectorEngine } from "./inspector";
-import { renderSessionPrompt } from "./prompt";
-import {
-  dedupeElementsPreserveOrder,
-  formatElementLabel,
-  isElementConnectedToDocument,
-} from "./dom";
+import { renderSessionPromptAs } from "./prompt";
+import { createPromptRendererRegistry } from "./prompt-renderers";
+import { formatElementLabel, isElementConnectedToDocument } from "./dom";
 import {
   mergeRuntimeConfig,
   validateRuntimeConfigOrThrow,
 } from "./heuristics";
+import { RedactionPass, mergeRedactionSummaries } from "./redaction";
+import { captureElementScreenshot, dataUrlToBlob } from "./screenshot";
+import {
+  countComponentAncestors,
+  isSameComponent,
+  resolveComponentAt,
+  unionBoundingBox,
+  type ResolvedComponent,
+} from "./react";
+import { getComposedEventTarget, getComposedParent } from "./shadow";
+import {
+  collectSameOriginFrameDocuments,
+  getFrameOffset,
+  getSameOriginFrameDocument,
+  isFrameElement,
+} from "./frames";
 // Default AgentProvider: clipboard + console
 
+export interface ClipboardAgentProviderOptions {
+  // Overrides the client's configured `promptFormat` for this provider.
+  readonly promptFormat?: PromptFormat;
+}
+
 export class ClipboardAgentProvider implements AgentProvider {
   readonly id: string = "clipboard";
   readonly label: string = "Clipboard (default)";
 
-  async sendContext(session: GrabrSession): Promise<void> {
-    const text = renderSessionPrompt(session);
+  private readonly promptFormat: PromptFormat | null;
+
+  constructor(options: ClipboardAgentProviderOptions = {}) {
+    this.promptFormat = options.promptFormat ?? null;
+  }
+
+  async sendContext(session: GrabrSession, options?: AgentSendOptions): Promise<void> {
+    const format = this.promptFormat ?? options?.promptFormat ?? "grabr-v2";
+    const text = options
+      ? options.renderPrompt(format)
+      : renderSessionPromptAs(session, format);
 
     const copyFailureReasons: string[] = [];
-    const copied = await tryCopyTextToClipboard(text, copyFailureReasons);
+    const image = options?.screenshots.find((shot) => shot.mimeType === "image/png") ?? null;
+    const copied =
+      (image !== null && (await tryCopyTextAndImageToClipboard(text, image, copyFailureReasons))) ||
+      (await tryCopyTextToClipboard(text, copyFailureReasons));
 
     console.log("[grabr] Session context:\n", text);
 
@@ -46,6 +82,35 @@ export class ClipboardAgentProvider implements AgentProvider {
   }
 }
 
+// One clipboard item holds at most one image per type, so only the first
+// PNG screenshot goes along with the text.
+async function tryCopyTextAndImageToClipboard(
+  text: string,
+  image: ElementScreenshot,
+  reasonsOut: string[]
+): Promise<boolean> {
+  if (typeof ClipboardItem === "undefined" || !navigator?.clipboard?.write) {
+    reasonsOut.push("navigator.clipboard.write not available; copying text only.");
+    return false;
+  }
+  try {
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        "text/plain": new Blob([text], { type: "text/plain" }),
+        "image/png": dataUrlToBlob(image.dataUrl),
+      }),
+    ]);
+    return true;
+  } catch (error) {
+    reasonsOut.push(
+      error instanceof Error
+        ? `navigator.clipboard.write failed: ${error.message}`
+        : "navigator.clipboard.write failed"
+    );
+    return false;
+  }
+}
+
 async function tryCopyTextToClipboard(
   text: string,
   reasonsOut: string[]
@@ -297,8 +362,53 @@ function injectGrabrStyles(): void {
   document.head.appendChild(style);
 }
 
+// What a click picked: the element itself, or the `componentDepth`-th
+// component above it (component selection mode). `component` is what that
+// resolved to at click time.
+type SelectionTarget = {
+  readonly element: Element;
+  readonly componentDepth: number | null;
+  readonly component: ResolvedComponent | null;
+};
+
+// Components are the same target whichever of their elements was clicked.
+function isSameTarget(a: SelectionTarget, b: SelectionTarget): boolean {
+  if (a.component || b.component) {
+    return (
+      a.component !== null && b.component !== null && isSameComponent(a.component, b.component)
+    );
+  }
+  return a.element === b.element;
+}
+
+function dedupeTargetsPreserveOrder(targets: readonly SelectionTarget[]): SelectionTarget[] {
+  const out: SelectionTarget[] = [];
+  for (const target of targets) {
+    if (!out.some((seen) => isSameTarget(seen, target))) out.push(target);
+  }
+  return out;
+}
+
+function resolveTargetComponent(target: SelectionTarget): ResolvedComponent | null {
+  return target.componentDepth === null
+    ? null
+    : resolveComponentAt(target.element, target.componentDepth);
+}
+
+function formatTargetLabel(target: SelectionTarget): string {
+  const component = resolveTargetComponent(target);
+  return component ? formatComponentLabel(component) : formatElementLabel(target.element);
+}
+
+function formatComponentLabel(component: ResolvedComponent): string {
+  const name = `<${component.displayName ?? "Anonymous"}>`;
+  const count = component.hosts.length;
+  return count > 1 ? `${name} · ${count} elements` : name;
+}
+
 type SelectionFinalizeProgress =
   | { readonly phase: "building-context"; readonly completed: number; readonly total: number }
+  | { readonly phase: "capturing-screenshots"; readonly completed: number; readonly total: number }
   | { readonly phase: "sending"; readonly completed: number; readonly total: number }
   | { readonly phase: "done"; readonly completed: number; readonly total: number }
   | { readonly phase: "error"; readonly completed: number; readonly total: number; readonly message: string };
@@ -308,6 +418,7 @@ class GrabrController implements GrabrApi {
   readonly config: Readonly<GrabrRuntimeConfig>;
 
   private readonly inspector: InspectorEngine;
+  private readonly promptRenderers: PromptRendererRegistry;
   private readonly providerRegistry: Map<string, AgentProvider> = new Map();
   private activeProvider: AgentProvider;
 
@@ -325,6 +436,22 @@ class GrabrController implements GrabrApi {
     this.activeProvider = initialProvider;
     this.providerRegistry.set(initialProvider.id, initialProvider);
     this.config = config;
+    this.promptRenderers = createPromptRendererRegistry(config.promptRenderers);
+  }
+
+  private buildSendOptions(session: GrabrSession): AgentSendOptions {
+    const promptFormat = this.config.promptFormat;
+    return {
+      promptFormat,
+      renderPrompt: (format?: PromptFormat): string =>
+        renderSessionPromptAs(
+          session,
+          format ?? promptFormat,
+          this.promptRenderers,
+          this.config.promptBudget
+        ),
+      screenshots: session.screenshots ?? [],
+    };
   }
 
   attachOverlay(overlay: SelectionOverlay): void {
@@ -357,11 +484,11 @@ class GrabrController implements GrabrApi {
   }
 
   async finalizeSelection(
-    elements: readonly Element[],
+    targets: readonly SelectionTarget[],
     onProgress?: (progress: SelectionFinalizeProgress) => void
   ): Promise<void> {
-    const connected = dedupeElementsPreserveOrder(elements).filter(
-      isElementConnectedToDocument
+    const connected = dedupeTargetsPreserveOrder(targets).filter((target) =>
+      isElementConnectedToDocument(target.element)
     );
 
     if (connected.length === 0) {
@@ -375,7 +502,8 @@ class GrabrController implements GrabrApi {
     }
 
     const createdAt = new Date().toISOString();
-    const url = window.location.href;
+    // The page URL is every element's `app.url` too, and counted there.
+    const url = new RedactionPass(this.config.redaction).url(window.location.href);
 
     const sessionId =
       typeof globalThis.crypto?.randomUUID === "function"
@@ -391,9 +519,12 @@ class GrabrController implements GrabrApi {
     const contextsOrNull = await mapWithConcurrencyLimit(
       connected,
       2,
-      async (el): Promise<ElementContextV2 | null> => {
+      async (target): Promise<ElementContextV2 | null> => {
         try {
-          return await this.inspector.getElementContext(el);
+          return await this.inspector.getElementContext(
+            target.element,
+            target.componentDepth === null ? undefined : { depth: target.componentDepth }
+          );
         } catch (error) {
           failed += 1;
           console.warn(
@@ -422,6 +553,8 @@ class GrabrController implements GrabrApi {
       return;
     }
 
+    const screenshots = await this.captureScreenshots(connected, contextsOrNull, onProgress);
+
     const summary =
       failed > 0
         ? `Session with ${contexts.length} element(s) captured; ${failed} failed.`
@@ -434,6 +567,8 @@ class GrabrController implements GrabrApi {
       userInstruction: this.currentInstruction,
       summary,
       elements: contexts,
+      redaction: mergeRedactionSummaries(contexts.map((c) => c.redaction)),
+      ...(screenshots ? { screenshots } : {}),
     };
 
     this.currentSession = session;
@@ -441,7 +576,7 @@ class GrabrController implements GrabrApi {
     onProgress?.({ phase: "sending", completed: total, total });
 
     try {
-      await this.activeProvider.sendContext(session);
+      await this.activeProvider.sendContext(session, this.buildSendOptions(session));
       this.activeProvider.onSuccess?.(session);
 
       onProgress?.({ phase: "done", completed: total, total });
@@ -473,6 +608,38 @@ class GrabrController implements GrabrApi {
     }
   }
 
+  // Sequential: each capture clones a subtree and rasterizes it on the main thread.
+  private async captureScreenshots(
+    targets: readonly SelectionTarget[],
+    contexts: readonly (ElementContextV2 | null)[],
+    onProgress?: (progress: SelectionFinalizeProgress) => void
+  ): Promise<ElementScreenshot[] | null> {
+    const options = this.config.screenshot;
+    if (options === null) {
+      return null;
+    }
+    const total = targets.length;
+    const screenshots: ElementScreenshot[] = [];
+    for (let i = 0; i < total; i += 1) {
+      onProgress?.({ phase: "capturing-screenshots", completed: i, total });
+      const context = contexts[i];
+      if (!context) continue;
+      // A component is pictured through its first host element.
+      const target = targets[i]!;
+      const shot = await captureElementScreenshot(
+        resolveTargetComponent(target)?.hosts[0] ?? target.element,
+        context.selection.instanceId,
+        options
+      );
+      if (shot) {
+        screenshots.push(shot);
+      } else {
+        console.warn("[grabr] Could not render a screenshot for", context.dom.selectors.preferred);
+      }
+    }
+    return screenshots;
+  }
+
   dispose(): void {
     if (!this.overlay) return;
     this.overlay.dispose();
@@ -552,6 +719,17 @@ function matchesHotkey(event: KeyboardEvent, spec: HotkeySpec): boolean {
 
 // Selection overlay (browser only)
 
+// Top-page box of an element, or of all host elements of `component`.
+function getTargetBox(el: Element, component: ResolvedComponent | null): BoundingBox | null {
+  const hosts = component ? component.hosts : [el];
+  const box = unionBoundingBox(hosts);
+  if (!Number.isFinite(box.x)) {
+    return null;
+  }
+  const offset = getFrameOffset(hosts[0]!);
+  return { ...box, x: box.x + offset.x, y: box.y + offset.y };
+}
+
 class SelectionOverlay {
   private readonly controller: GrabrController;
   private readonly hotkey: HotkeySpec | null;
@@ -570,12 +748,19 @@ class SelectionOverlay {
 
   private readonly selectionBoxes: HTMLDivElement[] = [];
 
+  // Same-origin iframe documents that currently carry selection listeners.
+  private readonly frameDocuments = new Set<Document>();
+
   private selecting = false;
   private sending = false;
   private helpVisible = false;
 
   private hoveredElement: Element | null = null;
-  private selectedElements: Element[] = [];
+  private selectedTargets: SelectionTarget[] = [];
+
+  private mode: SelectionMode;
+  // Components above the hovered element to skip in component mode.
+  private componentDepth = 0;
 
   private rafPending = false;
   private rafReflowPending = false;
@@ -585,6 +770,7 @@ class SelectionOverlay {
   constructor(controller: GrabrController, hotkey: HotkeySpec | null) {
     this.controller = controller;
     this.hotkey = hotkey;
+    this.mode = controller.config.selectionMode;
 
     injectGrabrStyles();
 
@@ -628,7 +814,7 @@ class SelectionOverlay {
     this.hudHelp = document.createElement("div");
     this.hudHelp.className = "grabr-help";
     this.hudHelp.textContent =
-      "Shortcuts: Backspace=undo, X=clear, ArrowUp/P=parent, Enter=finish, Esc=cancel.";
+      "Shortcuts: Backspace=undo, X=clear, ArrowUp/P=parent, ArrowDown=back down (component mode), C=element/component mode, Enter=finish, Esc=cancel.";
 
     this.hud.appendChild(hudRow);
     this.hud.appendChild(this.hudSub);
@@ -665,8 +851,10 @@ class SelectionOverlay {
   beginSelection(): void {
     if (this.sending) return;
 
-    this.selectedElements = [];
+    this.selectedTargets = [];
     this.hoveredElement = null;
+    this.componentDepth = 0;
+    this.mode = this.controller.config.selectionMode;
     this.helpVisible = false;
 
     this.clearSelectionBoxes();
@@ -717,6 +905,10 @@ class SelectionOverlay {
     document.addEventListener("keydown", this.onKeyDown, true);
     window.addEventListener("scroll", this.onViewportChange, true);
     window.addEventListener("resize", this.onViewportChange, true);
+
+    for (const frameDocument of collectSameOriginFrameDocuments(document)) {
+      this.attachFrameListeners(frameDocument);
+    }
   }
 
   private detachSelectionListeners(): void {
@@ -725,6 +917,26 @@ class SelectionOverlay {
     document.removeEventListener("keydown", this.onKeyDown, true);
     window.removeEventListener("scroll", this.onViewportChange, true);
     window.removeEventListener("resize", this.onViewportChange, true);
+
+    for (const frameDocument of this.frameDocuments) {
+      frameDocument.removeEventListener("mousemove", this.onMouseMove, true);
+      frameDocument.removeEventListener("click", this.onClick, true);
+      frameDocument.removeEventListener("keydown", this.onKeyDown, true);
+      frameDocument.removeEventListener("scroll", this.onViewportChange, true);
+    }
+    this.frameDocuments.clear();
+  }
+
+  // Events inside an iframe never reach the top document, so each
+  // same-origin frame document gets its own listeners.
+  private attachFrameListeners(frameDocument: Document): void {
+    if (this.frameDocuments.has(frameDocument)) return;
+    this.frameDocuments.add(frameDocument);
+
+    frameDocument.addEventListener("mousemove", this.onMouseMove, true);
+    frameDocument.addEventListener("click", this.onClick, true);
+    frameDocument.addEventListener("keydown", this.onKeyDown, true);
+    frameDocument.addEventListener("scroll", this.onViewportChange, true);
   }
 
   private onViewportChange = (): void => {
@@ -741,12 +953,25 @@ class SelectionOverlay {
   private onMouseMove = (event: MouseEvent): void => {
     if (!this.selecting || this.sending) return;
 
-    const target = event.target;
-    if (!(target instanceof Element)) return;
+    const target = getComposedEventTarget(event);
+    if (!target) return;
     if (this.root.contains(target)) return;
+
+    // The pointer is about to enter a frame that loaded (or reloaded) after
+    // selection started.
+    if (isFrameElement(target)) {
+      const frameDocument = getSameOriginFrameDocument(target);
+      if (frameDocument) {
+        for (const nested of [frameDocument, ...collectSameOriginFrameDocuments(frameDocument)]) {
+          this.attachFrameListeners(nested);
+        }
+      }
+    }
+
     if (target === this.hoveredElement) return;
 
     this.hoveredElement = target;
+    this.componentDepth = 0;
 
     if (this.rafPending) return;
     this.rafPending = true;
@@ -761,15 +986,15 @@ class SelectionOverlay {
     if (!this.selecting || this.sending) return;
     if (event.button !== 0) return;
 
-    const target = event.target;
-    if (!(target instanceof Element)) return;
+    const target = getComposedEventTarget(event);
+    if (!target) return;
     if (this.root.contains(target)) return;
 
     event.preventDefault();
     event.stopPropagation();
 
     const multi = event.shiftKey || event.metaKey || event.ctrlKey;
-    this.toggleSelection(target, multi);
+    this.toggleSelection(this.targetFor(target), multi);
   };
 
   private onKeyDown = (event: KeyboardEvent): void => {
@@ -805,6 +1030,19 @@ class SelectionOverlay {
       return;
     }
 
+    if (event.key === "ArrowDown" && this.mode === "component") {
+      event.preventDefault();
+      this.stepComponentDepth(-1);
+      return;
+    }
+
+    const plain = !event.metaKey && !event.ctrlKey && !event.altKey;
+    if (plain && event.key.toLowerCase() === "c") {
+      event.preventDefault();
+      this.toggleMode();
+      return;
+    }
+
     if (event.key.toLowerCase() === "x") {
       event.preventDefault();
       this.clearSelection();
@@ -818,7 +1056,7 @@ class SelectionOverlay {
     this.helpVisible = false;
 
     this.hoveredElement = null;
-    this.selectedElements = [];
+    this.selectedTargets = [];
 
     this.detachSelectionListeners();
     this.clearSelectionBoxes();
@@ -834,21 +1072,25 @@ class SelectionOverlay {
   }
 
   private clearSelection(): void {
-    this.selectedElements = [];
+    this.selectedTargets = [];
     this.updateSelectionBoxes();
     this.updateHudState();
   }
 
   private undoSelection(): void {
-    if (this.selectedElements.length === 0) return;
-    this.selectedElements.pop();
+    if (this.selectedTargets.length === 0) return;
+    this.selectedTargets.pop();
     this.updateSelectionBoxes();
     this.updateHudState();
   }
 
   private selectHoveredParent(): void {
+    if (this.mode === "component") {
+      this.stepComponentDepth(1);
+      return;
+    }
     if (!this.hoveredElement) return;
-    const parent = this.hoveredElement.parentElement;
+    const parent = getComposedParent(this.hoveredElement);
     if (!parent) return;
     if (this.root.contains(parent)) return;
 
@@ -856,13 +1098,38 @@ class SelectionOverlay {
     this.updateHighlight();
   }
 
+  // Walks the component chain above the hovered element: up is +1.
+  private stepComponentDepth(step: number): void {
+    if (!this.hoveredElement) return;
+    const depth = this.componentDepth + step;
+    if (depth < 0 || depth >= countComponentAncestors(this.hoveredElement)) return;
+    this.componentDepth = depth;
+    this.updateHighlight();
+  }
+
+  private toggleMode(): void {
+    this.mode = this.mode === "element" ? "component" : "element";
+    this.componentDepth = 0;
+    this.updateHighlight();
+    this.updateHudState();
+  }
+
+  // Falls back to the element when no component renders it (no React).
+  private targetFor(el: Element): SelectionTarget {
+    const depth = el === this.hoveredElement ? this.componentDepth : 0;
+    const component = this.mode === "component" ? resolveComponentAt(el, depth) : null;
+    return component
+      ? { element: el, componentDepth: depth, component }
+      : { element: el, componentDepth: null, component: null };
+  }
+
   private async finalizeSelection(): Promise<void> {
-    if (this.selectedElements.length === 0 && this.hoveredElement) {
-      this.selectedElements = [this.hoveredElement];
+    if (this.selectedTargets.length === 0 && this.hoveredElement) {
+      this.selectedTargets = [this.targetFor(this.hoveredElement)];
     }
 
-    const connected = dedupeElementsPreserveOrder(this.selectedElements).filter(
-      isElementConnectedToDocument
+    const connected = dedupeTargetsPreserveOrder(this.selectedTargets).filter((target) =>
+      isElementConnectedToDocument(target.element)
     );
 
     if (connected.length === 0) {
@@ -898,6 +1165,10 @@ class SelectionOverlay {
       this.hudStatus.textContent = `Capturing context… ${progress.completed}/${total}`;
       return;
     }
+    if (progress.phase === "capturing-screenshots") {
+      this.hudStatus.textContent = `Capturing screenshots… ${progress.completed}/${total}`;
+      return;
+    }
     if (progress.phase === "sending") {
       this.hudStatus.textContent = "Sending…";
       return;
@@ -915,7 +1186,7 @@ class SelectionOverlay {
       return;
     }
     if (this.sending) {
-      const count = this.selectedElements.length;
+      const count = this.selectedTargets.length;
       this.hudStatus.textContent =
         count === 1
           ? "Capturing context… (1 element)"
@@ -923,39 +1194,36 @@ class SelectionOverlay {
       return;
     }
 
-    const count = this.selectedElements.length;
+    const count = this.selectedTargets.length;
     const hovered = this.hoveredElement;
+    const noun = this.mode === "component" ? "a component" : "an element";
 
     if (count === 0) {
       this.hudStatus.textContent = hovered
-        ? `Hovering: ${formatElementLabel(hovered)}`
-        : "Hover an element to inspect";
+        ? `Hovering: ${formatTargetLabel(this.targetFor(hovered))}`
+        : `Hover ${noun} to inspect`;
     } else if (count === 1) {
-      this.hudStatus.textContent = `Selected: 1 (${formatElementLabel(
-        this.selectedElements[0]!
-      )})`;
+      this.hudStatus.textContent = `Selected: 1 (${formatTargetLabel(this.selectedTargets[0]!)})`;
     } else {
-      const last = this.selectedElements[this.selectedElements.length - 1]!;
-      this.hudStatus.textContent = `Selected: ${count} (last: ${formatElementLabel(
-        last
-      )})`;
+      const last = this.selectedTargets[this.selectedTargets.length - 1]!;
+      this.hudStatus.textContent = `Selected: ${count} (last: ${formatTargetLabel(last)})`;
     }
   }
 
-  private toggleSelection(el: Element, multi: boolean): void {
+  private toggleSelection(target: SelectionTarget, multi: boolean): void {
     if (!multi) {
-      this.selectedElements = [el];
+      this.selectedTargets = [target];
     } else {
-      const index = this.selectedElements.indexOf(el);
+      const index = this.selectedTargets.findIndex((t) => isSameTarget(t, target));
       if (index >= 0) {
-        this.selectedElements.splice(index, 1);
+        this.selectedTargets.splice(index, 1);
       } else {
-        this.selectedElements.push(el);
+        this.selectedTargets.push(target);
       }
     }
 
-    this.selectedElements = this.selectedElements.filter(
-      isElementConnectedToDocument
+    this.selectedTargets = this.selectedTargets.filter((t) =>
+      isElementConnectedToDocument(t.element)
     );
 
     this.updateSelectionBoxes();
@@ -970,20 +1238,27 @@ class SelectionOverlay {
       return;
     }
 
-    const rect = el.getBoundingClientRect();
-    if (!Number.isFinite(rect.left) || rect.width <= 0 || rect.height <= 0) {
+    // In component mode the box spans every host element of the component.
+    const component =
+      this.mode === "component" ? resolveComponentAt(el, this.componentDepth) : null;
+    const box = getTargetBox(el, component);
+    if (!box) {
       this.highlight.style.display = "none";
       this.highlightLabel.classList.remove("visible");
       return;
     }
 
+    // Zero-size elements still get a (degenerate) box and a labelled note,
+    // rather than silently showing nothing.
+    const zeroSize = box.width <= 0 || box.height <= 0;
     this.highlight.style.display = "block";
-    this.highlight.style.left = `${rect.left}px`;
-    this.highlight.style.top = `${rect.top}px`;
-    this.highlight.style.width = `${rect.width}px`;
-    this.highlight.style.height = `${rect.height}px`;
+    this.highlight.style.left = `${box.x}px`;
+    this.highlight.style.top = `${box.y}px`;
+    this.highlight.style.width = `${box.width}px`;
+    this.highlight.style.height = `${box.height}px`;
 
-    this.highlightLabel.textContent = formatElementLabel(el);
+    const label = component ? formatComponentLabel(component) : formatElementLabel(el);
+    this.highlightLabel.textContent = zeroSize ? `${label} (zero size)` : label;
     this.highlightLabel.classList.add("visible");
 
     this.updateHudState();
@@ -1004,18 +1279,18 @@ class SelectionOverlay {
   private updateSelectionBoxes(): void {
     this.clearSelectionBoxes();
 
-    for (const el of this.selectedElements) {
-      if (!isElementConnectedToDocument(el)) continue;
+    for (const target of this.selectedTargets) {
+      if (!isElementConnectedToDocument(target.element)) continue;
 
-      const rect = el.getBoundingClientRect();
-      if (!Number.isFinite(rect.left) || rect.width <= 0 || rect.height <= 0) {
+      const rect = getTargetBox(target.element, resolveTargetComponent(target));
+      if (!rect) {
         continue;
       }
 
       const box = document.createElement("div");
       box.className = "grabr-selected";
-      box.style.left = `${rect.left}px`;
-      box.style.top = `${rect.top}px`;
+      box.style.left = `${rect.x}px`;
+      box.style.top = `${rect.y}px`;
       box.style.width = `${rect.width}px`;
       box.style.height = `${rect.height}px`;
 
@@ -0,0 +1,191 @@
+import type { ComputedStyleCategory, ComputedStyleDiff } from "./schema";
+
+const MAX_DIFF_PROPERTIES = 150;
+
+// The first category with a matching prefix wins.
+const CATEGORY_PREFIXES: ReadonlyArray<readonly [ComputedStyleCategory, readonly string[]]> = [
+  ["animation", ["transition", "animation"]],
+  [
+    "layout",
+    [
+      "display",
+      "position",
+      "top",
+      "right",
+      "bottom",
+      "left",
+      "inset",
+      "float",
+      "clear",
+      "z-index",
+      "flex",
+      "grid",
+      "align-",
+      "justify-",
+      "place-",
+      "order",
+      "gap",
+      "row-gap",
+      "column-gap",
+      "vertical-align",
+      "container",
+      "contain",
+    ],
+  ],
+  [
+    "box",
+    [
+      "width",
+      "height",
+      "min-",
+      "max-",
+      "margin",
+      "padding",
+      "box-sizing",
+      "aspect-ratio",
+      "block-size",
+      "inline-size",
+    ],
+  ],
+  ["border", ["border", "outline"]],
+  ["background", ["background"]],
+  [
+    "typography",
+    [
+      "color",
+      "font",
+      "line-height",
+      "letter-spacing",
+      "word-",
+      "text-",
+      "white-space",
+      "tab-size",
+      "hyphens",
+      "direction",
+      "writing-mode",
+      "list-style",
+    ],
+  ],
+  [
+    "effects",
+    [
+      "opacity",
+      "box-shadow",
+      "filter",
+      "backdrop-filter",
+      "transform",
+      "translate",
+      "rotate",
+      "scale",
+      "perspective",
+      "mix-blend-mode",
+      "clip",
+      "mask",
+      "visibility",
+    ],
+  ],
+  ["overflow", ["overflow", "scroll", "overscroll"]],
+  ["interaction", ["cursor", "pointer-events", "user-select", "touch-action", "resize", "caret"]],
+];
+
+export function categorizeStyleProperty(property: string): ComputedStyleCategory {
+  for (const [category, prefixes] of CATEGORY_PREFIXES) {
+    if (prefixes.some((prefix) => property.startsWith(prefix))) {
+      return category;
+    }
+  }
+  return "other";
+}
+
+// Custom properties have no UA default; vendor-prefixed ones duplicate
+// standard properties.
+function isDiffableProperty(property: string): boolean {
+  return property.length > 0 && !property.startsWith("-");
+}
+
+type StyleValues = ReadonlyMap<string, string>;
+
+function readComputedValues(computed: CSSStyleDeclaration): Map<string, string> {
+  const values = new Map<string, string>();
+  for (let i = 0; i < computed.length; i += 1) {
+    const property = computed.item(i);
+    if (isDiffableProperty(property)) {
+      values.set(property, computed.getPropertyValue(property));
+    }
+  }
+  return values;
+}
+
+// UA defaults only depend on the tag (and namespace), so they are cached
+// for the page's lifetime.
+const baselineCache = new Map<string, StyleValues | null>();
+
+/**
+ * Computed values of a fresh `<tag>` in a throwaway same-origin frame: no
+ * page stylesheets apply there, so this is the user-agent default.
+ */
+function buildBaseline(el: Element): StyleValues | null {
+  const host = typeof document !== "undefined" ? document.documentElement : null;
+  if (!host) return null;
+  const frame = document.createElement("iframe");
+  frame.setAttribute("aria-hidden", "true");
+  frame.tabIndex = -1;
+  frame.style.cssText =
+    "position:fixed;left:-10000px;top:0;width:1024px;height:768px;border:0;visibility:hidden;pointer-events:none;";
+  host.appendChild(frame);
+  try {
+    const doc = frame.contentDocument;
+    const view = frame.contentWindow;
+    if (!doc || !view) return null;
+    // Standards mode, like the page is (presumably) in.
+    doc.open();
+    doc.write("<!DOCTYPE html><html><head></head><body></body></html>");
+    doc.close();
+    const pristine = el.namespaceURI
+      ? doc.createElementNS(el.namespaceURI, el.localName)
+      : doc.createElement(el.localName);
+    doc.body.appendChild(pristine);
+    return readComputedValues(view.getComputedStyle(pristine));
+  } catch {
+    return null;
+  } finally {
+    frame.remove();
+  }
+}
+
+function getBaseline(el: Element): StyleValues | null {
+  const key = `${el.namespaceURI ?? ""}|${el.localName}`;
+  if (!baselineCache.has(key)) {
+    baselineCache.set(key, buildBaseline(el));
+  }
+  return baselineCache.get(key) ?? null;
+}
+
+/**
+ * Every computed property of `el` that differs from its tag's default,
+ * grouped by category. Inherited values (color, font) count as differences
+ * too: they are what the element renders with.
+ */
+export function buildComputedStyleDiff(el: Element): ComputedStyleDiff | null {
+  const view = el.ownerDocument.defaultView;
+  if (!view || typeof view.getComputedStyle !== "function") {
+    return null;
+  }
+  const baseline = getBaseline(el);
+  if (!baseline) {
+    return null;
+  }
+  const groups: { [category in ComputedStyleCategory]?: { [property: string]: string } } = {};
+  let total = 0;
+  const current = readComputedValues(view.getComputedStyle(el));
+  for (const [property, value] of current) {
+    if (baseline.get(property) === value) continue;
+    total += 1;
+    if (total > MAX_DIFF_PROPERTIES) continue;
+    const category = categorizeStyleProperty(property);
+    const group = groups[category] ?? {};
+    group[property] = value;
+    groups[category] = group;
+  }
+  return { baselineTag: el.localName, total, groups };
+}
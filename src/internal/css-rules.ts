@@ -0,0 +1,602 @@
+import type { MatchedRuleSummary } from "./schema";
+
+// Ids, classes/attributes/pseudo-classes, types/pseudo-elements.
+export type Specificity = readonly [number, number, number];
+
+const MAX_RULES_SCANNED = 5000;
+const MAX_RULE_SUMMARIES = 20;
+const MAX_WINS_PER_RULE = 16;
+
+const ZERO: Specificity = [0, 0, 0];
+
+// Pseudo-classes whose specificity is that of their most specific argument.
+const FORWARDING_PSEUDOS = new Set(["is", "not", "has", "matches", "-webkit-any", "-moz-any"]);
+// Legacy single-colon pseudo-elements.
+const LEGACY_PSEUDO_ELEMENTS = new Set(["before", "after", "first-line", "first-letter"]);
+
+function addSpecificity(a: Specificity, b: Specificity): Specificity {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+}
+
+export function compareSpecificity(a: Specificity, b: Specificity): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+/** Split a selector list at top-level commas (outside parens, brackets and strings). */
+export function splitSelectorList(selectorText: string): string[] {
+  const out: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < selectorText.length; i += 1) {
+    const ch = selectorText[i]!;
+    if (quote) {
+      if (ch === "\\") i += 1;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === "\\") i += 1;
+    else if (ch === "(" || ch === "[") depth += 1;
+    else if (ch === ")" || ch === "]") depth -= 1;
+    else if (ch === "," && depth === 0) {
+      out.push(selectorText.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  out.push(selectorText.slice(start).trim());
+  return out.filter((part) => part.length > 0);
+}
+
+function maxSpecificityOf(selectorList: string): Specificity {
+  let best = ZERO;
+  for (const selector of splitSelectorList(selectorList)) {
+    const value = computeSpecificity(selector);
+    if (compareSpecificity(value, best) > 0) best = value;
+  }
+  return best;
+}
+
+const IDENT_CHAR = /[\w\u00a0-\uffff-]/;
+
+// Index just past the balanced group that opens at `start` (`(` or `[`).
+function skipGroup(selector: string, start: number): number {
+  const open = selector[start]!;
+  const close = open === "(" ? ")" : "]";
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = start; i < selector.length; i += 1) {
+    const ch = selector[i]!;
+    if (quote) {
+      if (ch === "\\") i += 1;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === "\\") i += 1;
+    else if (ch === open) depth += 1;
+    else if (ch === close) {
+      depth -= 1;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return selector.length;
+}
+
+function readIdent(selector: string, start: number): number {
+  let i = start;
+  while (i < selector.length) {
+    const ch = selector[i]!;
+    if (ch === "\\") {
+      i += 2;
+    } else if (IDENT_CHAR.test(ch)) {
+      i += 1;
+    } else {
+      break;
+    }
+  }
+  return i;
+}
+
+/**
+ * Selectors Level 4 specificity of a single complex selector. `:is()`,
+ * `:not()` and `:has()` count their most specific argument, `:where()`
+ * counts nothing and `:nth-child(… of S)` adds S.
+ */
+export function computeSpecificity(selector: string): Specificity {
+  let result: Specificity = ZERO;
+  let i = 0;
+  while (i < selector.length) {
+    const ch = selector[i]!;
+    if (ch === "#") {
+      i = readIdent(selector, i + 1);
+      result = addSpecificity(result, [1, 0, 0]);
+    } else if (ch === ".") {
+      i = readIdent(selector, i + 1);
+      result = addSpecificity(result, [0, 1, 0]);
+    } else if (ch === "[") {
+      i = skipGroup(selector, i);
+      result = addSpecificity(result, [0, 1, 0]);
+    } else if (ch === ":") {
+      const isElement = selector[i + 1] === ":";
+      const nameStart = i + (isElement ? 2 : 1);
+      const nameEnd = readIdent(selector, nameStart);
+      const name = selector.slice(nameStart, nameEnd).toLowerCase();
+      let args: string | null = null;
+      i = nameEnd;
+      if (selector[i] === "(") {
+        const end = skipGroup(selector, i);
+        args = selector.slice(i + 1, end - 1);
+        i = end;
+      }
+      if (isElement || LEGACY_PSEUDO_ELEMENTS.has(name)) {
+        result = addSpecificity(result, [0, 0, 1]);
+      } else if (name === "where") {
+        // Contributes nothing.
+      } else if (FORWARDING_PSEUDOS.has(name) && args !== null) {
+        result = addSpecificity(result, maxSpecificityOf(args));
+      } else if ((name === "nth-child" || name === "nth-last-child") && args !== null) {
+        const of = /\sof\s/i.exec(args);
+        result = addSpecificity(result, [0, 1, 0]);
+        if (of) {
+          result = addSpecificity(result, maxSpecificityOf(args.slice(of.index + of[0].length)));
+        }
+      } else {
+        result = addSpecificity(result, [0, 1, 0]);
+      }
+    } else if (IDENT_CHAR.test(ch) || ch === "\\") {
+      i = readIdent(selector, i);
+      result = addSpecificity(result, [0, 0, 1]);
+    } else {
+      // Combinators, whitespace, `*`, `&` and namespace bars.
+      i += 1;
+    }
+  }
+  return result;
+}
+
+export function formatSpecificity(value: Specificity): string {
+  return value.join(",");
+}
+
+// ---------------------------------------------------------------------------
+// Matched-rule collection (browser only)
+
+// Structural view of the CSSOM rule types we walk; `instanceof` fails for
+// rules from another realm (iframes).
+type RuleLike = {
+  readonly cssRules?: ArrayLike<RuleLike>;
+  readonly selectorText?: string;
+  readonly style?: CSSStyleDeclaration;
+  readonly media?: { readonly mediaText: string };
+  readonly conditionText?: string;
+  readonly containerName?: string;
+  readonly name?: string;
+  readonly nameList?: readonly string[];
+  readonly layerName?: string | null;
+  readonly styleSheet?: CSSStyleSheet | null;
+  readonly appendRule?: unknown;
+};
+
+type SheetSource = {
+  readonly href: string | null;
+  // Text of an inline `<style>` element, for line lookups.
+  readonly text: string | null;
+  cursor: number;
+};
+
+type Candidate = {
+  readonly selector: string;
+  readonly inline: boolean;
+  readonly specificity: Specificity;
+  readonly layer: string | null;
+  readonly order: number;
+  readonly href: string | null;
+  readonly line: number | null;
+  readonly conditions: readonly string[];
+  readonly properties: readonly string[];
+  readonly important: ReadonlySet<string>;
+  readonly style: CSSStyleDeclaration;
+};
+
+// The declaration that wins the cascade for one longhand property.
+export type WinningDeclaration = {
+  readonly property: string;
+  // As authored, e.g. `var(--brand-500)`; empty when unreadable.
+  readonly value: string;
+  readonly selector: string;
+};
+
+export type MatchedRulesAnalysis = {
+  readonly rules: MatchedRuleSummary[];
+  readonly winners: WinningDeclaration[];
+};
+
+function readDeclarations(style: CSSStyleDeclaration): {
+  properties: string[];
+  important: Set<string>;
+} {
+  const properties: string[] = [];
+  const important = new Set<string>();
+  for (let i = 0; i < style.length; i += 1) {
+    const property = style.item(i);
+    if (!property) continue;
+    properties.push(property);
+    if (style.getPropertyPriority(property) === "important") {
+      important.add(property);
+    }
+  }
+  return { properties, important };
+}
+
+/**
+ * Authored value of `property`. Longhands set through a shorthand that uses
+ * `var()` read as empty, so the enclosing shorthands are tried next
+ * (`padding-top` → `padding`).
+ */
+function getAuthoredValue(style: CSSStyleDeclaration, property: string): string {
+  let name = property;
+  while (name.length > 0) {
+    const value = style.getPropertyValue(name).trim();
+    if (value.length > 0) return value;
+    const cut = name.lastIndexOf("-");
+    name = cut > 0 ? name.slice(0, cut) : "";
+  }
+  return "";
+}
+
+function getSheetSource(sheet: CSSStyleSheet): SheetSource {
+  const owner = sheet.ownerNode as Element | null;
+  const devId =
+    owner && typeof owner.getAttribute === "function"
+      ? owner.getAttribute("data-vite-dev-id")
+      : null;
+  const inlineText =
+    !sheet.href && owner && owner.tagName?.toLowerCase() === "style"
+      ? owner.textContent
+      : null;
+  return { href: sheet.href ?? devId, text: inlineText, cursor: 0 };
+}
+
+// Finds the rule's selector in the `<style>` text, scanning forward from the
+// previous match so repeated selectors resolve to successive rules.
+function findRuleLine(source: SheetSource, selectorText: string): number | null {
+  if (source.text === null) {
+    return null;
+  }
+  const first = splitSelectorList(selectorText)[0];
+  if (!first) {
+    return null;
+  }
+  const index = source.text.indexOf(first, source.cursor);
+  if (index < 0) {
+    return null;
+  }
+  source.cursor = index + first.length;
+  let line = 1;
+  for (let i = 0; i < index; i += 1) {
+    if (source.text.charCodeAt(i) === 10) line += 1;
+  }
+  return line;
+}
+
+function getStyleSheetsFor(el: Element): CSSStyleSheet[] {
+  const root = el.getRootNode() as Partial<DocumentOrShadowRoot>;
+  const scope = root.styleSheets ? root : el.ownerDocument;
+  const sheets = Array.from(scope.styleSheets ?? []);
+  const adopted = scope.adoptedStyleSheets;
+  return adopted ? [...sheets, ...adopted] : sheets;
+}
+
+class MatchedRuleCollector {
+  private readonly el: Element;
+  private readonly view: (Window & typeof globalThis) | null;
+  private readonly candidates: Candidate[] = [];
+  // Sub-layers of each layer (null: the top level), in first-declared order.
+  private readonly layerChildren = new Map<string | null, string[]>([[null, []]]);
+  private layerRanks: Map<string, number> | null = null;
+  private anonymousLayers = 0;
+  private scanned = 0;
+  private order = 0;
+
+  constructor(el: Element) {
+    this.el = el;
+    this.view = el.ownerDocument.defaultView as (Window & typeof globalThis) | null;
+  }
+
+  collect(): MatchedRulesAnalysis {
+    for (const sheet of getStyleSheetsFor(this.el)) {
+      if (sheet.disabled) continue;
+      const media = sheet.media?.mediaText ?? "";
+      if (media.length > 0 && !this.mediaMatches(media)) continue;
+      this.walkSheet(sheet, media.length > 0 ? [`@media ${media}`] : [], null);
+    }
+    this.collectInlineStyle();
+    return this.summarize();
+  }
+
+  private walkSheet(
+    sheet: CSSStyleSheet,
+    conditions: readonly string[],
+    layer: string | null
+  ): void {
+    let rules: ArrayLike<RuleLike>;
+    try {
+      rules = sheet.cssRules as unknown as ArrayLike<RuleLike>;
+    } catch {
+      // Cross-origin stylesheet without CORS.
+      return;
+    }
+    this.walkRules(rules, getSheetSource(sheet), conditions, layer);
+  }
+
+  private walkRules(
+    rules: ArrayLike<RuleLike>,
+    source: SheetSource,
+    conditions: readonly string[],
+    layer: string | null
+  ): void {
+    for (let i = 0; i < rules.length; i += 1) {
+      if (this.scanned >= MAX_RULES_SCANNED) return;
+      this.scanned += 1;
+      const rule = rules[i];
+      if (rule) this.visitRule(rule, source, conditions, layer);
+    }
+  }
+
+  private visitRule(
+    rule: RuleLike,
+    source: SheetSource,
+    conditions: readonly string[],
+    layer: string | null
+  ): void {
+    if (typeof rule.selectorText === "string" && rule.style) {
+      this.visitStyleRule(rule.selectorText, rule.style, source, conditions, layer);
+      return;
+    }
+    if (rule.styleSheet !== undefined) {
+      // @import: its media list and layer apply to the imported sheet.
+      const media = rule.media?.mediaText ?? "";
+      if (!rule.styleSheet || (media.length > 0 && !this.mediaMatches(media))) return;
+      const importLayer =
+        typeof rule.layerName === "string" ? this.enterLayer(layer, rule.layerName) : layer;
+      this.walkSheet(
+        rule.styleSheet,
+        media.length > 0 ? [...conditions, `@media ${media}`] : conditions,
+        importLayer
+      );
+      return;
+    }
+    if (rule.nameList) {
+      for (const name of rule.nameList) this.enterLayer(layer, name);
+      return;
+    }
+    if (!rule.cssRules) {
+      return;
+    }
+    if (rule.media) {
+      const media = rule.media.mediaText;
+      if (!this.mediaMatches(media)) return;
+      this.walkRules(rule.cssRules, source, [...conditions, `@media ${media}`], layer);
+    } else if (typeof rule.containerName === "string") {
+      // Container queries cannot be evaluated from here; the rule is kept
+      // and the condition reported.
+      this.walkRules(
+        rule.cssRules,
+        source,
+        [...conditions, `@container ${rule.conditionText ?? ""}`.trim()],
+        layer
+      );
+    } else if (typeof rule.conditionText === "string") {
+      if (!this.supports(rule.conditionText)) return;
+      this.walkRules(rule.cssRules, source, [...conditions, `@supports ${rule.conditionText}`], layer);
+    } else if (typeof rule.name === "string" && rule.appendRule === undefined) {
+      // @layer blocks (@keyframes also have a name, plus appendRule).
+      this.walkRules(rule.cssRules, source, conditions, this.enterLayer(layer, rule.name));
+    }
+    // Other grouping rules (@scope, @starting-style, nested style rules)
+    // change matching in ways `matches()` cannot reproduce; skipped.
+  }
+
+  private visitStyleRule(
+    selectorText: string,
+    style: CSSStyleDeclaration,
+    source: SheetSource,
+    conditions: readonly string[],
+    layer: string | null
+  ): void {
+    const line = findRuleLine(source, selectorText);
+    let best: { selector: string; specificity: Specificity } | null = null;
+    for (const selector of splitSelectorList(selectorText)) {
+      if (!this.matches(selector)) continue;
+      const specificity = computeSpecificity(selector);
+      if (!best || compareSpecificity(specificity, best.specificity) > 0) {
+        best = { selector, specificity };
+      }
+    }
+    if (!best) return;
+    const { properties, important } = readDeclarations(style);
+    this.candidates.push({
+      selector: best.selector,
+      inline: false,
+      specificity: best.specificity,
+      layer,
+      order: this.order++,
+      href: source.href,
+      line,
+      conditions,
+      properties,
+      important,
+      style,
+    });
+  }
+
+  private collectInlineStyle(): void {
+    const style = (this.el as Partial<ElementCSSInlineStyle>).style;
+    if (!style || style.length === 0) return;
+    const { properties, important } = readDeclarations(style);
+    this.candidates.push({
+      selector: "style",
+      inline: true,
+      specificity: ZERO,
+      layer: null,
+      order: this.order++,
+      href: null,
+      line: null,
+      conditions: [],
+      properties,
+      important,
+      style,
+    });
+  }
+
+  // Registers `name` (dotted names declare each level) under `parent`.
+  // Every anonymous `@layer { }` is a layer of its own.
+  private enterLayer(parent: string | null, name: string): string {
+    const segments =
+      name.length > 0 ? name.split(".") : [`<anonymous ${(this.anonymousLayers += 1)}>`];
+    let full = parent;
+    for (const segment of segments) {
+      const siblings = this.layerChildren.get(full)!;
+      full = full === null ? segment : `${full}.${segment}`;
+      if (!this.layerChildren.has(full)) {
+        siblings.push(full);
+        this.layerChildren.set(full, []);
+      }
+    }
+    return full!;
+  }
+
+  // Normal-declaration rank of each layer: siblings in declaration order,
+  // and a layer's sub-layers below its own rules (CSS Cascade 5).
+  private getLayerRanks(): Map<string, number> {
+    if (!this.layerRanks) {
+      const ranks = new Map<string, number>();
+      const visit = (parent: string | null): void => {
+        for (const layer of this.layerChildren.get(parent) ?? []) {
+          visit(layer);
+          ranks.set(layer, ranks.size);
+        }
+      };
+      visit(null);
+      this.layerRanks = ranks;
+    }
+    return this.layerRanks;
+  }
+
+  private matches(selector: string): boolean {
+    try {
+      return this.el.matches(selector);
+    } catch {
+      // Pseudo-elements and selectors this engine cannot parse.
+      return false;
+    }
+  }
+
+  private mediaMatches(media: string): boolean {
+    if (!this.view || typeof this.view.matchMedia !== "function") return true;
+    try {
+      return this.view.matchMedia(media).matches;
+    } catch {
+      return true;
+    }
+  }
+
+  private supports(condition: string): boolean {
+    const css = this.view?.CSS;
+    if (!css || typeof css.supports !== "function") return true;
+    try {
+      return css.supports(condition);
+    } catch {
+      return true;
+    }
+  }
+
+  /**
+   * Cascade precedence of `candidate`'s declaration (important or not) as a
+   * tuple compared left to right: origin/importance tier, layer, specificity,
+   * source order.
+   */
+  private precedence(candidate: Candidate, important: boolean): number[] {
+    const ranks = this.getLayerRanks();
+    const layerIndex = candidate.layer === null ? null : ranks.get(candidate.layer) ?? 0;
+    const tier = candidate.inline ? (important ? 3 : 1) : important ? 2 : 0;
+    // Unlayered beats every layer for normal declarations and loses to all
+    // of them for important ones.
+    const layerScore =
+      layerIndex === null
+        ? important
+          ? -1
+          : Number.MAX_SAFE_INTEGER
+        : important
+          ? ranks.size - layerIndex
+          : layerIndex;
+    return [tier, layerScore, ...candidate.specificity, candidate.order];
+  }
+
+  private summarize(): MatchedRulesAnalysis {
+    const winners = new Map<string, Candidate>();
+    const winnerScores = new Map<string, number[]>();
+    for (const candidate of this.candidates) {
+      for (const property of candidate.properties) {
+        const score = this.precedence(candidate, candidate.important.has(property));
+        const current = winnerScores.get(property);
+        if (!current || compareTuples(score, current) > 0) {
+          winners.set(property, candidate);
+          winnerScores.set(property, score);
+        }
+      }
+    }
+
+    const ranked = [...this.candidates].sort((a, b) =>
+      compareTuples(this.precedence(b, false), this.precedence(a, false))
+    );
+    const rules = ranked.slice(0, MAX_RULE_SUMMARIES).map((candidate) => ({
+      selector: candidate.selector,
+      origin: candidate.inline ? ("inline" as const) : ("author" as const),
+      specificity: candidate.inline ? "inline" : formatSpecificity(candidate.specificity),
+      importantCount: candidate.important.size,
+      href: candidate.href,
+      line: candidate.line,
+      conditions: candidate.conditions,
+      layer: candidate.layer,
+      wins: candidate.properties
+        .filter((property) => winners.get(property) === candidate)
+        .slice(0, MAX_WINS_PER_RULE),
+    }));
+    return {
+      rules,
+      winners: Array.from(winners, ([property, candidate]) => ({
+        property,
+        value: getAuthoredValue(candidate.style, property),
+        selector: candidate.selector,
+      })),
+    };
+  }
+}
+
+function compareTuples(a: readonly number[], b: readonly number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i += 1) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Author rules that match `el` (from its document or shadow root, including
+ * `@media`, `@supports`, `@container`, `@layer` and `@import` blocks) plus
+ * its inline style, highest cascade precedence first, and the declaration
+ * that wins for each property.
+ */
+export function analyzeMatchedRules(el: Element): MatchedRulesAnalysis {
+  try {
+    return new MatchedRuleCollector(el).collect();
+  } catch {
+    return { rules: [], winners: [] };
+  }
+}
+
+export function collectMatchedRules(el: Element): MatchedRuleSummary[] {
+  return analyzeMatchedRules(el).rules;
+}
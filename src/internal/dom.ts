@@ -1,8 +1,30 @@
 import { truncateText } from "./serializable";
+import {
+  collectComponentPath,
+  computeSelectionFingerprint,
+  createCaptureInstanceId,
+  formatSourceKey,
+} from "./fingerprint";
+import { computeAccessibleName } from "./accessibility";
+import {
+  buildRankedSelectors,
+  isHashedClassName,
+  isStateClassName,
+  isUtilityClassName,
+} from "./selectors";
+import { getChildContainer, getComposedParent, getShadowHostChain } from "./shadow";
+import { getFrameChain, getFrameUrl } from "./frames";
+import { analyzeMatchedRules } from "./css-rules";
+import { buildDesignTokenInfo } from "./tokens";
+import { buildUtilityClassInfo } from "./utility-classes";
+import { buildComputedStyleDiff } from "./computed-style";
 import type {
   ChildSummary,
+  ComponentSelectionInfo,
   DomNeighborhood,
   DomNodeSummary,
+  FrameSummary,
+  GrabrRuntimeConfig,
   ReactTreeSlice,
   SelectionIdentity,
   SelectionInfo,
@@ -14,7 +36,6 @@ import type {
 const MAX_TEXT_SNIPPET = 80;
 const MAX_PARENT_DEPTH = 4;
 const MAX_CHILD_SAMPLES = 5;
-
 function summarizeTextContent(node: Element): string | null {
   const text = node.textContent;
   if (text === null) {
@@ -35,6 +56,29 @@ export function getDataTestId(el: Element): string | null {
 
 // Build a simple CSS selector based on identity attributes.
 export function buildPreferredSelector(el: Element): string {
+  return buildIdentitySelector(
+    el,
+    Array.from(el.classList).filter((cls) => cls.length > 0)
+  );
+}
+
+// The preferred selector for the fingerprint: leaves out build hashes,
+// utilities and state classes, which change between captures of the same
+// element.
+function buildFingerprintSelector(el: Element): string {
+  return buildIdentitySelector(
+    el,
+    Array.from(el.classList).filter(
+      (cls) =>
+        cls.length > 0 &&
+        !isHashedClassName(cls) &&
+        !isUtilityClassName(cls) &&
+        !isStateClassName(cls)
+    )
+  );
+}
+
+function buildIdentitySelector(el: Element, classes: readonly string[]): string {
   const id = el.id;
   if (id && id.length > 0 && !id.includes(" ")) {
     return `#${CSS.escape(id)}`;
@@ -43,12 +87,11 @@ export function buildPreferredSelector(el: Element): string {
   if (dataTestId !== null) {
     return `[data-testid="${CSS.escape(dataTestId)}"]`;
   }
-  const classes = Array.from(el.classList).filter((cls) => cls.length > 0);
   const baseTag = el.tagName.toLowerCase();
   if (classes.length > 0) {
     return `${baseTag}.${classes.map((cls) => CSS.escape(cls)).join(".")}`;
   }
-  const parent = el.parentElement;
+  const parent = getChildContainer(el);
   if (!parent) {
     return baseTag;
   }
@@ -66,20 +109,6 @@ export function buildPreferredSelector(el: Element): string {
   return `${baseTag}:nth-of-type(${index})`;
 }
 
-// Build a simple ancestor selector path (e.g., div.card > button.primary)
-function buildAncestorSelectorPath(el: Element, maxDepth: number): string {
-  const segments: string[] = [];
-  let current: Element | null = el;
-  let depth = 0;
-  while (current && depth < maxDepth) {
-    const preferred = buildPreferredSelector(current);
-    segments.unshift(preferred);
-    current = current.parentElement;
-    depth += 1;
-  }
-  return segments.join(" > ");
-}
-
 function summarizeDomNode(el: Element): DomNodeSummary {
   const dataTestId = getDataTestId(el);
   return {
@@ -92,7 +121,7 @@ function summarizeDomNode(el: Element): DomNodeSummary {
 }
 
 function summarizeSiblings(el: Element): SiblingSummary {
-  const parent = el.parentElement;
+  const parent = getChildContainer(el);
   if (!parent) {
     return {
       index: 0,
@@ -142,9 +171,10 @@ function serializeElementSnippet(el: Element): string {
   if (el.id) {
     attrs.push(`id="${el.id}"`);
   }
-  const className = el.className.trim();
+  // Untruncated: utility-class lists are what the agent edits.
+  const className = (el.getAttribute("class") ?? "").trim();
   if (className.length > 0) {
-    attrs.push(`class="${truncateText(className, 40)}"`);
+    attrs.push(`class="${className}"`);
   }
   const dataTestId = getDataTestId(el);
   if (dataTestId !== null) {
@@ -171,17 +201,30 @@ function buildBoxShorthand(
   return `${top ?? "0"} ${right ?? "0"} ${bottom ?? "0"} ${left ?? "0"}`;
 }
 
-export function buildStyleFrame(el: Element): StyleFrame {
+export type StyleFrameOptions = Pick<GrabrRuntimeConfig, "styleCaptureMode" | "designTokens">;
+
+const DEFAULT_STYLE_FRAME_OPTIONS: StyleFrameOptions = {
+  styleCaptureMode: "sampled",
+  designTokens: null,
+};
+
+export function buildStyleFrame(
+  el: Element,
+  options: StyleFrameOptions = DEFAULT_STYLE_FRAME_OPTIONS
+): StyleFrame {
   const rect = el.getBoundingClientRect();
+  // The element's own window: elements inside iframes belong to another realm.
+  const view = el.ownerDocument.defaultView;
   const computed =
-    typeof window !== "undefined" && typeof window.getComputedStyle === "function"
-      ? window.getComputedStyle(el)
+    view && typeof view.getComputedStyle === "function"
+      ? view.getComputedStyle(el)
       : null;
 
+  const tag = el.tagName.toLowerCase();
   const clickable =
     (computed && computed.cursor === "pointer") ||
-    el instanceof HTMLButtonElement ||
-    el instanceof HTMLAnchorElement ||
+    tag === "button" ||
+    tag === "a" ||
     el.getAttribute("role") === "button" ||
     el.getAttribute("role") === "link";
 
@@ -197,7 +240,8 @@ export function buildStyleFrame(el: Element): StyleFrame {
     return trimmed.length === 0 ? null : trimmed;
   };
 
-  return {
+  const matched = analyzeMatchedRules(el);
+  const frame: Omit<StyleFrame, "tokens"> = {
     layout: {
       display: get("display"),
       position: get("position"),
@@ -228,13 +272,26 @@ export function buildStyleFrame(el: Element): StyleFrame {
       borderColor: get("borderColor"),
     },
     clickable,
-    ruleSummaries: [],
+    ruleSummaries: matched.rules,
+    ...(options.styleCaptureMode === "computed-diff"
+      ? { computedDiff: buildComputedStyleDiff(el) }
+      : {}),
+  };
+  return {
+    ...frame,
+    tokens: buildDesignTokenInfo(el, frame, matched.winners, options.designTokens),
+    utilityClasses: buildUtilityClassInfo(el, matched.winners),
   };
 }
 
+// For a selected component (`component` set), the box and fingerprint cover
+// the component as a whole (`componentHosts`: its top-level host elements);
+// `tag` and `identity` stay those of `el`, its first host element.
 export function buildSelectionInfo(
   el: Element,
-  reactSlice: ReactTreeSlice | null
+  reactSlice: ReactTreeSlice | null,
+  component: ComponentSelectionInfo | null = null,
+  componentHosts: readonly Element[] = [el]
 ): SelectionInfo {
   const rect = el.getBoundingClientRect();
   const identity: SelectionIdentity = {
@@ -255,14 +312,41 @@ export function buildSelectionInfo(
       ? reactSlice.stack[0]?.displayName ?? null
       : null;
 
+  // A component is identified by where it sits and what it renders, not
+  // by its first host's attributes.
+  const fingerprint = computeSelectionFingerprint(
+    component
+      ? {
+          componentPath: collectComponentPath(reactSlice),
+          source: formatSourceKey(component.source ?? nearestSource),
+          selector: componentHosts
+            .slice(0, component.hostSelectors.length)
+            .map(buildFingerprintSelector)
+            .join(", "),
+          testId: null,
+          role: null,
+          accessibleName: null,
+        }
+      : {
+          componentPath: collectComponentPath(reactSlice),
+          source: formatSourceKey(nearestSource),
+          selector: buildFingerprintSelector(el),
+          testId: identity.dataTestId,
+          role: identity.role,
+          accessibleName: computeAccessibleName(el),
+        }
+  );
+
   return {
     tag: el.tagName.toLowerCase(),
-    boundingBox: {
-      x: rect.left,
-      y: rect.top,
-      width: rect.width,
-      height: rect.height,
-    },
+    boundingBox: component
+      ? component.boundingBox
+      : {
+          x: rect.left,
+          y: rect.top,
+          width: rect.width,
+          height: rect.height,
+        },
     identity,
     componentDisplayName,
     nearestSource,
@@ -270,6 +354,17 @@ export function buildSelectionInfo(
       reactSlice && reactSlice.stack.length > 0
         ? reactSlice.stack[0]?.flags.isServerComponent ?? null
         : null,
+    fingerprint,
+    instanceId: createCaptureInstanceId(),
+  };
+}
+
+function summarizeFrame(frame: Element): FrameSummary {
+  const ranked = buildRankedSelectors(frame);
+  const unique = ranked.find((candidate) => candidate.syntax === "css" && candidate.unique);
+  return {
+    selector: unique?.selector ?? buildPreferredSelector(frame),
+    url: getFrameUrl(frame),
   };
 }
 
@@ -277,22 +372,25 @@ export function buildDomNeighborhood(el: Element): DomNeighborhood {
   const snippet = serializeElementSnippet(el);
 
   const parents: DomNodeSummary[] = [];
-  let currentParent = el.parentElement;
+  // Crosses shadow boundaries: a shadow root's host counts as its parent.
+  let currentParent = getComposedParent(el);
   let depth = 0;
   while (currentParent && depth < MAX_PARENT_DEPTH) {
     parents.push(summarizeDomNode(currentParent));
-    currentParent = currentParent.parentElement;
+    currentParent = getComposedParent(currentParent);
     depth += 1;
   }
 
   const siblings = summarizeSiblings(el);
   const children = summarizeChildren(el);
 
-  const preferred = buildPreferredSelector(el);
-  const path = buildAncestorSelectorPath(el, MAX_PARENT_DEPTH + 1);
+  const ranked = buildRankedSelectors(el);
+  const css = ranked.filter((candidate) => candidate.syntax === "css");
   const selectors = {
-    preferred,
-    all: [preferred, path],
+    preferred:
+      css.find((candidate) => candidate.unique)?.selector ?? buildPreferredSelector(el),
+    all: css.map((candidate) => candidate.selector),
+    ranked,
   };
 
   return {
@@ -301,6 +399,8 @@ export function buildDomNeighborhood(el: Element): DomNeighborhood {
     siblings,
     children,
     selectors,
+    shadowHostChain: getShadowHostChain(el).map((host) => summarizeDomNode(host)),
+    frameChain: getFrameChain(el).map((frame) => summarizeFrame(frame)),
   };
 }
 
@@ -319,6 +419,10 @@ export function dedupeElementsPreserveOrder(
 
 export function isElementConnectedToDocument(el: Element): boolean {
   if (typeof document === "undefined") return false;
+  if (el.ownerDocument !== document) {
+    // Inside an iframe: removing the frame leaves its document without a window.
+    return el.isConnected && el.ownerDocument.defaultView !== null;
+  }
   return el.isConnected || document.documentElement.contains(el);
 }
 
@@ -0,0 +1,56 @@
+import type {
+  ReactTreeSlice,
+  SelectionFingerprint,
+  SelectionFingerprintParts,
+  SourceLocation,
+} from "./schema";
+
+import { hashString } from "./hash";
+
+// Deeper components add churn (providers, layouts) without telling elements apart.
+const MAX_FINGERPRINT_COMPONENTS = 6;
+
+export function formatSourceKey(source: SourceLocation | null): string | null {
+  if (!source) {
+    return null;
+  }
+  const line = source.lineNumber !== null ? `:${source.lineNumber}` : "";
+  const col = source.lineNumber !== null && source.columnNumber !== null ? `:${source.columnNumber}` : "";
+  return `${source.fileName}${line}${col}`;
+}
+
+export function collectComponentPath(reactSlice: ReactTreeSlice | null): string[] {
+  if (!reactSlice) {
+    return [];
+  }
+  return reactSlice.stack
+    .filter((frame) => !frame.isHost && frame.displayName !== null)
+    .slice(0, MAX_FINGERPRINT_COMPONENTS)
+    .map((frame) => frame.displayName!);
+}
+
+/**
+ * Hash the stable identity of an element. Two captures of the same element
+ * produce the same hash as long as none of `parts` changed.
+ */
+export function computeSelectionFingerprint(
+  parts: SelectionFingerprintParts
+): SelectionFingerprint {
+  const key = [
+    parts.componentPath.join(">"),
+    parts.source ?? "",
+    parts.selector,
+    parts.testId ?? "",
+    parts.role ?? "",
+    parts.accessibleName ?? "",
+  ].join("|");
+  return { hash: hashString(key), parts };
+}
+
+export function createCaptureInstanceId(): string {
+  const random =
+    typeof globalThis.crypto?.randomUUID === "function"
+      ? globalThis.crypto.randomUUID().replace(/-/g, "").slice(0, 12)
+      : `${Date.now().toString(16)}${Math.random().toString(16).slice(2, 6)}`;
+  return `inst_${random}`;
+}
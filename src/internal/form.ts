@@ -0,0 +1,190 @@
+// Form context for form-associated elements: the enclosing form, its other
+// controls, their values and constraint-validation state.
+
+import type {
+  FormContext,
+  FormFieldInfo,
+  FormInfo,
+  FormLibraryState,
+  SerializableValue,
+} from "./schema";
+import { computeAccessibleName } from "./accessibility";
+import { buildPreferredSelector } from "./dom";
+import { truncateText } from "./serializable";
+
+const MAX_FORM_FIELDS = 20;
+const MAX_FIELD_VALUE = 120;
+
+// Listed form-associated elements that carry a value.
+const FIELD_TAGS = new Set(["input", "select", "textarea", "button", "output"]);
+const FORM_ASSOCIATED_TAGS = new Set([...FIELD_TAGS, "fieldset", "object"]);
+
+const VALIDITY_FLAGS = [
+  "valueMissing",
+  "typeMismatch",
+  "patternMismatch",
+  "tooLong",
+  "tooShort",
+  "rangeUnderflow",
+  "rangeOverflow",
+  "stepMismatch",
+  "badInput",
+  "customError",
+] as const;
+
+type FormControlLike = {
+  readonly form?: HTMLFormElement | null;
+  readonly type?: string;
+  readonly name?: string;
+  readonly value?: string;
+  readonly checked?: boolean;
+  readonly required?: boolean;
+  readonly readOnly?: boolean;
+  readonly willValidate?: boolean;
+  readonly validity?: ValidityState;
+  readonly validationMessage?: string;
+  readonly selectedOptions?: HTMLCollectionOf<HTMLOptionElement>;
+};
+
+function nonEmpty(value: string | null | undefined): string | null {
+  return value === null || value === undefined || value.length === 0 ? null : value;
+}
+
+function matchesSafe(el: Element, selector: string): boolean {
+  try {
+    return typeof el.matches === "function" && el.matches(selector);
+  } catch {
+    return false;
+  }
+}
+
+function readFieldValue(el: Element, control: FormControlLike, type: string | null): string | null {
+  // Password values are never read, redaction or not; withoutPasswordValues
+  // drops the form library's copy.
+  if (type === "password") return null;
+  if (type === "select-multiple" && control.selectedOptions) {
+    return Array.from(control.selectedOptions, (option) => option.value).join(", ");
+  }
+  const value = control.value ?? el.getAttribute("value");
+  return value === null ? null : truncateText(value, MAX_FIELD_VALUE);
+}
+
+function describeField(el: Element): FormFieldInfo {
+  const control = el as unknown as FormControlLike;
+  const tag = el.localName;
+  const type = nonEmpty(control.type) ?? (tag === "input" ? "text" : null);
+  const validity = control.validity;
+  const validates = control.willValidate === true && validity !== undefined;
+  return {
+    selector: buildPreferredSelector(el),
+    tag,
+    type,
+    name: nonEmpty(control.name ?? el.getAttribute("name")),
+    label: computeAccessibleName(el),
+    value: readFieldValue(el, control, type),
+    checked: type === "checkbox" || type === "radio" ? control.checked === true : null,
+    required: control.required ?? el.hasAttribute("required"),
+    // `:disabled` also covers controls inside a disabled fieldset.
+    disabled: matchesSafe(el, ":disabled") || el.hasAttribute("disabled"),
+    readOnly: control.readOnly ?? el.hasAttribute("readonly"),
+    valid: validates ? validity.valid : null,
+    validity: validates ? VALIDITY_FLAGS.filter((flag) => validity[flag]) : [],
+    validationMessage: validates ? nonEmpty(control.validationMessage) : null,
+  };
+}
+
+function describeForm(form: HTMLFormElement): FormInfo {
+  return {
+    selector: buildPreferredSelector(form),
+    name: nonEmpty(form.getAttribute("name")),
+    action: nonEmpty(form.getAttribute("action")),
+    method: (form.getAttribute("method") ?? "get").toLowerCase(),
+    noValidate: form.hasAttribute("novalidate"),
+  };
+}
+
+// `form.elements` includes controls associated through `form="id"`.
+function listFormFields(form: HTMLFormElement): Element[] {
+  const elements: ArrayLike<Element> =
+    form.elements ?? form.querySelectorAll(Array.from(FIELD_TAGS).join(","));
+  return Array.from(elements).filter((el) => FIELD_TAGS.has(el.localName));
+}
+
+// `value` without the entry at `segments`; array items become null so the
+// other indices keep their meaning.
+function omitValuePath(value: SerializableValue, segments: readonly string[]): SerializableValue {
+  const [head, ...rest] = segments;
+  if (head === undefined || value === null || typeof value !== "object") {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    const items: readonly SerializableValue[] = value;
+    const index = Number(head);
+    if (!Number.isInteger(index) || index < 0 || index >= items.length) return value;
+    return items.map((item, i) =>
+      i !== index ? item : rest.length === 0 ? null : omitValuePath(item, rest)
+    );
+  }
+  const record = value as { readonly [key: string]: SerializableValue };
+  if (!Object.prototype.hasOwnProperty.call(record, head)) {
+    return value;
+  }
+  if (rest.length === 0) {
+    const { [head]: _omitted, ...others } = record;
+    return others;
+  }
+  return { ...record, [head]: omitValuePath(record[head]!, rest) };
+}
+
+// The library mirrors every field, passwords included: drop the values of
+// the `type=password` controls among `controls`, by field name
+// (`password`, `user.password`, `items[0].pin`).
+function withoutPasswordValues(
+  library: FormLibraryState | null,
+  controls: readonly Element[]
+): FormLibraryState | null {
+  if (!library || library.values === null) {
+    return library;
+  }
+  let values: SerializableValue = library.values;
+  for (const control of controls) {
+    const field = control as unknown as FormControlLike;
+    const name = nonEmpty(field.name ?? control.getAttribute("name"));
+    if (name === null || (field.type ?? control.getAttribute("type")) !== "password") continue;
+    values = omitValuePath(values, name.split(/[.[\]]+/).filter((part) => part.length > 0));
+  }
+  return values === library.values ? library : { ...library, values };
+}
+
+/**
+ * Form context of `el` when it is a form-associated element or a form:
+ * the enclosing form, the control itself and the form's other controls
+ * (value, label, required/disabled, `ValidityState`), plus form library
+ * state when `readLibraryState` finds any, without the values of the
+ * form's password fields. Null for other elements.
+ */
+export function buildFormContext(
+  el: Element,
+  readLibraryState: (el: Element) => FormLibraryState | null = () => null
+): FormContext | null {
+  const tag = el.localName;
+  const isForm = tag === "form";
+  if (!isForm && !FORM_ASSOCIATED_TAGS.has(tag)) {
+    return null;
+  }
+  const form = isForm
+    ? (el as HTMLFormElement)
+    : (el as unknown as FormControlLike).form ?? null;
+  const others = form ? listFormFields(form).filter((field) => field !== el) : [];
+  const field = isForm ? null : describeField(el);
+  return {
+    form: form ? describeForm(form) : null,
+    field,
+    fields: others.slice(0, MAX_FORM_FIELDS).map(describeField),
+    totalFields: others.length + (field !== null && FIELD_TAGS.has(tag) ? 1 : 0),
+    library: withoutPasswordValues(
+      readLibraryState(el),
+      isForm ? others : [el, ...others]
+    ),
+  };
+}
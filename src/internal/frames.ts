@@ -0,0 +1,103 @@
+// Helpers for same-origin iframes: elements inside them live in another
+// document (and realm), so the overlay and the context builders reach them
+// through the frame element that hosts that document.
+
+import { isElementNode } from "./shadow";
+
+export type FrameOffset = {
+  readonly x: number;
+  readonly y: number;
+};
+
+function isFrameTag(el: Element): boolean {
+  const tag = el.tagName.toLowerCase();
+  return tag === "iframe" || tag === "frame";
+}
+
+/** True for `<iframe>` / `<frame>` elements from any realm. */
+export function isFrameElement(value: unknown): value is HTMLIFrameElement {
+  return isElementNode(value) && isFrameTag(value);
+}
+
+/** The frame element hosting `doc`, or null for the top document or a cross-origin parent. */
+export function getHostFrameElement(doc: Document): Element | null {
+  try {
+    const frame = doc.defaultView?.frameElement ?? null;
+    return isElementNode(frame) ? frame : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The document loaded in `frame`, or null when it is cross-origin or not loaded. */
+export function getSameOriginFrameDocument(frame: Element): Document | null {
+  if (!isFrameElement(frame)) {
+    return null;
+  }
+  try {
+    const doc = frame.contentDocument;
+    return doc && doc.documentElement ? doc : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Frame elements enclosing `el`, innermost first; empty in the top document. */
+export function getFrameChain(el: Element): Element[] {
+  const frames: Element[] = [];
+  let frame = getHostFrameElement(el.ownerDocument);
+  while (frame) {
+    frames.push(frame);
+    frame = getHostFrameElement(frame.ownerDocument);
+  }
+  return frames;
+}
+
+/** Same-origin frame documents nested anywhere below `doc`. */
+export function collectSameOriginFrameDocuments(doc: Document): Document[] {
+  const out: Document[] = [];
+  const visit = (current: Document): void => {
+    for (const frame of Array.from(current.querySelectorAll("iframe, frame"))) {
+      const child = getSameOriginFrameDocument(frame);
+      if (child && !out.includes(child)) {
+        out.push(child);
+        visit(child);
+      }
+    }
+  };
+  visit(doc);
+  return out;
+}
+
+/**
+ * Offset from `el`'s viewport to the top viewport: the sum of each enclosing
+ * frame's content-box origin. Add it to `getBoundingClientRect()`.
+ */
+export function getFrameOffset(el: Element): FrameOffset {
+  let x = 0;
+  let y = 0;
+  for (const frame of getFrameChain(el)) {
+    const rect = frame.getBoundingClientRect();
+    const view = frame.ownerDocument.defaultView;
+    const computed =
+      view && typeof view.getComputedStyle === "function"
+        ? view.getComputedStyle(frame)
+        : null;
+    const paddingLeft = computed ? parseFloat(computed.paddingLeft) || 0 : 0;
+    const paddingTop = computed ? parseFloat(computed.paddingTop) || 0 : 0;
+    x += rect.left + frame.clientLeft + paddingLeft;
+    y += rect.top + frame.clientTop + paddingTop;
+  }
+  return { x, y };
+}
+
+/** The URL of the document loaded in `frame`, falling back to its `src`. */
+export function getFrameUrl(frame: Element): string | null {
+  const doc = getSameOriginFrameDocument(frame);
+  const href = doc?.location?.href ?? null;
+  if (href && href !== "about:blank") {
+    return href;
+  }
+  const src = frame.getAttribute("src");
+  return src && src.trim().length > 0 ? src.trim() : href;
+}
@@ -0,0 +1,10 @@
+// Small, fast string hash for ids and checksums. Not cryptographic: it only
+// has to notice accidental edits and keep ids short and stable.
+export function hashString(input: string): string {
+  let hash = 0;
+  for (let i = 0; i < input.length; i += 1) {
+    hash = (hash << 5) - hash + input.charCodeAt(i);
+    hash |= 0;
+  }
+  return Math.abs(hash >>> 0).toString(16);
+}
@@ -9,10 +9,18 @@ import type {
   GrabrHeuristics,
   GrabrRuntimeConfig,
   InferredFramework,
+  PropsCaptureOptions,
   ReactTreeSlice,
+  RedactionConfig,
+  SerializationLimits,
   SourceLocation,
 } from "./schema";
 
+import { createPromptRendererRegistry } from "./prompt-renderers";
+import { defaultRedactionConfig } from "./redaction";
+import { HOOK_KINDS } from "./hooks";
+import { defaultSerializationLimits } from "./serializable";
+
 function inferFrameworkFromPath(path: string): InferredFramework {
   if (path.includes("/app/")) {
     return "next-app";
@@ -178,7 +186,20 @@ const defaultHeuristics: GrabrHeuristics = {
 export const defaultRuntimeConfig: GrabrRuntimeConfig = {
   reactInspectorMode: "best-effort",
   maxReactStackFrames: 8,
+  reactSnapshotDepth: 1,
+  styleCaptureMode: "sampled",
+  selectionMode: "element",
+  designTokens: null,
   heuristics: defaultHeuristics,
+  serialization: defaultSerializationLimits,
+  props: { mode: "highlighted" },
+  redaction: defaultRedactionConfig,
+  promptFormat: "grabr-v2",
+  promptRenderers: [],
+  promptBudget: null,
+  screenshot: null,
+  hideHookKinds: [],
+  sourceMaps: null,
 };
 
 export function mergeRuntimeConfig(
@@ -193,12 +214,41 @@ export function mergeRuntimeConfig(
     dataSourceStrategies:
       partial.heuristics?.dataSourceStrategies ?? defaultHeuristics.dataSourceStrategies,
   };
+  const serialization: SerializationLimits = {
+    ...defaultRuntimeConfig.serialization,
+    ...partial.serialization,
+  };
+  const props: PropsCaptureOptions = {
+    ...defaultRuntimeConfig.props,
+    ...partial.props,
+  };
+  const redaction: RedactionConfig = {
+    ...defaultRuntimeConfig.redaction,
+    ...partial.redaction,
+  };
 
   return {
     reactInspectorMode: partial.reactInspectorMode ?? defaultRuntimeConfig.reactInspectorMode,
     maxReactStackFrames:
       partial.maxReactStackFrames ?? defaultRuntimeConfig.maxReactStackFrames,
+    reactSnapshotDepth: partial.reactSnapshotDepth ?? defaultRuntimeConfig.reactSnapshotDepth,
+    styleCaptureMode: partial.styleCaptureMode ?? defaultRuntimeConfig.styleCaptureMode,
+    selectionMode: partial.selectionMode ?? defaultRuntimeConfig.selectionMode,
+    designTokens:
+      partial.designTokens === undefined ? defaultRuntimeConfig.designTokens : partial.designTokens,
     heuristics,
+    serialization,
+    props,
+    redaction,
+    promptFormat: partial.promptFormat ?? defaultRuntimeConfig.promptFormat,
+    promptRenderers: partial.promptRenderers ?? defaultRuntimeConfig.promptRenderers,
+    promptBudget:
+      partial.promptBudget === undefined ? defaultRuntimeConfig.promptBudget : partial.promptBudget,
+    screenshot:
+      partial.screenshot === undefined ? defaultRuntimeConfig.screenshot : partial.screenshot,
+    hideHookKinds: partial.hideHookKinds ?? defaultRuntimeConfig.hideHookKinds,
+    sourceMaps:
+      partial.sourceMaps === undefined ? defaultRuntimeConfig.sourceMaps : partial.sourceMaps,
   };
 }
 
@@ -303,4 +353,227 @@ export function validateRuntimeConfigOrThrow(config: GrabrRuntimeConfig): void {
       )}`
     );
   }
+
+  if (!isFiniteIntegerInRange(config.reactSnapshotDepth, 1, 64)) {
+    throw new Error(
+      `Invalid config.reactSnapshotDepth: expected integer in range [1, 64], got ${String(
+        config.reactSnapshotDepth
+      )}`
+    );
+  }
+
+  if (config.styleCaptureMode !== "sampled" && config.styleCaptureMode !== "computed-diff") {
+    throw new Error(
+      `Invalid config.styleCaptureMode: expected "sampled" | "computed-diff", got ${String(
+        config.styleCaptureMode
+      )}`
+    );
+  }
+
+  if (config.selectionMode !== "element" && config.selectionMode !== "component") {
+    throw new Error(
+      `Invalid config.selectionMode: expected "element" | "component", got ${String(
+        config.selectionMode
+      )}`
+    );
+  }
+
+  const tokens = config.designTokens;
+  if (tokens !== null) {
+    if (typeof tokens !== "object") {
+      throw new Error(
+        `Invalid config.designTokens: expected an object of token → value, got ${String(tokens)}`
+      );
+    }
+    for (const [token, value] of Object.entries(tokens)) {
+      if (typeof value !== "string") {
+        throw new Error(
+          `Invalid config.designTokens["${token}"]: expected string, got ${String(value)}`
+        );
+      }
+    }
+  }
+
+  const serializationBounds: ReadonlyArray<[keyof SerializationLimits, number, number]> = [
+    ["maxDepth", 0, 16],
+    ["maxArrayItems", 0, 1000],
+    ["maxObjectKeys", 0, 1000],
+    ["maxStringLength", 1, 100_000],
+  ];
+  for (const [key, min, max] of serializationBounds) {
+    if (!isFiniteIntegerInRange(config.serialization[key], min, max)) {
+      throw new Error(
+        `Invalid config.serialization.${key}: expected integer in range [${min}, ${max}], got ${String(
+          config.serialization[key]
+        )}`
+      );
+    }
+  }
+
+  const props = config.props;
+  if (!["highlighted", "all", "listed"].includes(props.mode)) {
+    throw new Error(
+      `Invalid config.props.mode: expected "highlighted" | "all" | "listed", got ${String(
+        props.mode
+      )}`
+    );
+  }
+  for (const key of ["include", "exclude"] as const) {
+    const patterns = props[key];
+    if (
+      patterns !== undefined &&
+      !(
+        Array.isArray(patterns) &&
+        patterns.every((pattern) => typeof pattern === "string" || pattern instanceof RegExp)
+      )
+    ) {
+      throw new Error(
+        `Invalid config.props.${key}: expected an array of strings or RegExps, got ${String(
+          patterns
+        )}`
+      );
+    }
+  }
+  if (props.maxProps !== undefined && !isFiniteIntegerInRange(props.maxProps, 1, 500)) {
+    throw new Error(
+      `Invalid config.props.maxProps: expected integer in range [1, 500], got ${String(
+        props.maxProps
+      )}`
+    );
+  }
+
+  if (typeof config.redaction.enabled !== "boolean") {
+    throw new Error(
+      `Invalid config.redaction.enabled: expected boolean, got ${String(
+        config.redaction.enabled
+      )}`
+    );
+  }
+  const invalidPattern = [
+    ...config.redaction.keyPatterns,
+    ...config.redaction.queryParamPatterns,
+    ...config.redaction.detectors.map((detector) => detector.pattern),
+  ].find((pattern) => !(pattern instanceof RegExp));
+  if (invalidPattern !== undefined) {
+    throw new Error(
+      `Invalid config.redaction: expected RegExp patterns, got ${String(invalidPattern)}`
+    );
+  }
+
+  const renderers = createPromptRendererRegistry(config.promptRenderers);
+  if (!renderers.get(config.promptFormat)) {
+    throw new Error(
+      `Invalid config.promptFormat: expected one of ${renderers
+        .list()
+        .map((renderer) => `"${renderer.id}"`)
+        .join(" | ")}, got ${String(config.promptFormat)}`
+    );
+  }
+
+  const budget = config.promptBudget;
+  if (budget !== null) {
+    if (budget.maxTokens === undefined && budget.maxChars === undefined) {
+      throw new Error("Invalid config.promptBudget: expected maxTokens and/or maxChars");
+    }
+    for (const key of ["maxTokens", "maxChars"] as const) {
+      const limit = budget[key];
+      if (limit !== undefined && !isFiniteIntegerInRange(limit, 1, 10_000_000)) {
+        throw new Error(
+          `Invalid config.promptBudget.${key}: expected integer in range [1, 10000000], got ${String(
+            limit
+          )}`
+        );
+      }
+    }
+    if (budget.estimator !== undefined && typeof budget.estimator.estimate !== "function") {
+      throw new Error("Invalid config.promptBudget.estimator: expected an estimate(text) function");
+    }
+  }
+
+  const screenshot = config.screenshot;
+  if (screenshot !== null) {
+    if (typeof screenshot !== "object") {
+      throw new Error(
+        `Invalid config.screenshot: expected an options object or null, got ${String(screenshot)}`
+      );
+    }
+    if (screenshot.padding !== undefined && !isFiniteIntegerInRange(screenshot.padding, 0, 512)) {
+      throw new Error(
+        `Invalid config.screenshot.padding: expected integer in range [0, 512], got ${String(
+          screenshot.padding
+        )}`
+      );
+    }
+    if (
+      screenshot.maxDimension !== undefined &&
+      !isFiniteIntegerInRange(screenshot.maxDimension, 16, 8192)
+    ) {
+      throw new Error(
+        `Invalid config.screenshot.maxDimension: expected integer in range [16, 8192], got ${String(
+          screenshot.maxDimension
+        )}`
+      );
+    }
+    if (
+      screenshot.mimeType !== undefined &&
+      !["image/png", "image/jpeg", "image/webp"].includes(screenshot.mimeType)
+    ) {
+      throw new Error(
+        `Invalid config.screenshot.mimeType: expected "image/png" | "image/jpeg" | "image/webp", got ${String(
+          screenshot.mimeType
+        )}`
+      );
+    }
+    const quality = screenshot.quality;
+    if (
+      quality !== undefined &&
+      !(typeof quality === "number" && Number.isFinite(quality) && quality >= 0 && quality <= 1)
+    ) {
+      throw new Error(
+        `Invalid config.screenshot.quality: expected number in range [0, 1], got ${String(quality)}`
+      );
+    }
+  }
+
+  const hideHookKinds = config.hideHookKinds;
+  if (!Array.isArray(hideHookKinds) || !hideHookKinds.every((kind) => HOOK_KINDS.includes(kind))) {
+    throw new Error(
+      `Invalid config.hideHookKinds: expected an array of ${HOOK_KINDS.join(" | ")}, got ${String(
+        hideHookKinds
+      )}`
+    );
+  }
+
+  const sourceMaps = config.sourceMaps;
+  if (sourceMaps !== null) {
+    if (typeof sourceMaps !== "object") {
+      throw new Error(
+        `Invalid config.sourceMaps: expected an options object or null, got ${String(sourceMaps)}`
+      );
+    }
+    const prefixes = sourceMaps.stripPrefixes;
+    if (
+      prefixes !== undefined &&
+      !(Array.isArray(prefixes) && prefixes.every((prefix) => typeof prefix === "string"))
+    ) {
+      throw new Error(
+        `Invalid config.sourceMaps.stripPrefixes: expected an array of strings, got ${String(
+          prefixes
+        )}`
+      );
+    }
+    if (
+      sourceMaps.timeoutMs !== undefined &&
+      !isFiniteIntegerInRange(sourceMaps.timeoutMs, 1, 60_000)
+    ) {
+      throw new Error(
+        `Invalid config.sourceMaps.timeoutMs: expected integer in range [1, 60000], got ${String(
+          sourceMaps.timeoutMs
+        )}`
+      );
+    }
+    if (sourceMaps.fetch !== undefined && typeof sourceMaps.fetch !== "function") {
+      throw new Error("Invalid config.sourceMaps.fetch: expected a fetch-compatible function");
+    }
+  }
 }
@@ -0,0 +1,403 @@
+// Hook inspection for function components: which hook each node of the
+// fiber's hook list belongs to and which custom hooks called it.
+//
+// Like React DevTools, the component is re-rendered against a dispatcher
+// that hands back the hook values React already holds and records a stack
+// trace per hook call; custom hook names are the `use*` frames between the
+// primitive hook and the component. When that replay is impossible or
+// disagrees with the hook list, kinds are guessed from each node's shape.
+
+import type { Fiber, ReactRenderer } from "bippy";
+import { parseStack } from "bippy/source";
+import type { HookKind } from "./schema";
+
+export const HOOK_KINDS: readonly HookKind[] = [
+  "state",
+  "reducer",
+  "ref",
+  "memo",
+  "callback",
+  "effect",
+  "layout-effect",
+  "insertion-effect",
+  "imperative-handle",
+  "id",
+  "transition",
+  "deferred-value",
+  "sync-external-store",
+  "optimistic",
+  "action-state",
+  "effect-event",
+  "class-state",
+  "unknown",
+];
+
+export type InspectedHook = {
+  readonly hookIndex: number;
+  readonly kind: HookKind;
+  readonly name: string | null;
+  readonly customHookPath: readonly string[];
+  readonly value: unknown;
+};
+
+type HookNode = {
+  readonly memoizedState: unknown;
+  readonly queue?: unknown;
+  readonly next: HookNode | null;
+};
+
+// Fiber tags (stable since React 16).
+const FUNCTION_COMPONENT = 0;
+const CLASS_COMPONENT = 1;
+const CONTEXT_PROVIDER = 10;
+const FORWARD_REF = 11;
+const SIMPLE_MEMO_COMPONENT = 15;
+
+const MAX_REPLAYED_HOOKS = 100;
+
+// Effect hooks store `{ tag, create, deps, next }`; the tag's flags say which one.
+const EFFECT_INSERTION = 2;
+const EFFECT_LAYOUT = 4;
+
+type UnknownRecord = { readonly [key: string]: unknown };
+
+function asRecord(value: unknown): UnknownRecord | null {
+  return typeof value === "object" && value !== null ? (value as UnknownRecord) : null;
+}
+
+function isHookNode(value: unknown): value is HookNode {
+  const node = asRecord(value);
+  return node !== null && "memoizedState" in node && "next" in node;
+}
+
+// React's `basicStateReducer`, recognizable by name in development and by
+// its body once minified.
+function isBasicStateReducer(reducer: unknown): boolean {
+  if (typeof reducer !== "function") return false;
+  if (reducer.name === "basicStateReducer") return true;
+  const body = Function.prototype.toString.call(reducer);
+  return /typeof\s*\(?\s*\w+\s*\)?\s*===?\s*["']function["']\s*\?\s*\w+\(\s*\w+\s*\)\s*:\s*\w+/.test(
+    body
+  );
+}
+
+function isEffect(value: unknown): value is UnknownRecord {
+  const effect = asRecord(value);
+  return (
+    effect !== null &&
+    typeof effect["tag"] === "number" &&
+    "deps" in effect &&
+    ("create" in effect || "inst" in effect)
+  );
+}
+
+const USE_ID_PATTERN = /^(?::[^:]+:|«[^»]+»|_[A-Za-z0-9]+_)$/;
+
+/**
+ * Best guess at a hook's kind from its hook list node alone. `useTransition`,
+ * `useOptimistic` and friends look like plain state this way.
+ */
+export function classifyHookNode(node: HookNode): HookKind {
+  const state = node.memoizedState;
+  const queue = asRecord(node.queue);
+  if (queue) {
+    if (typeof queue["getSnapshot"] === "function") return "sync-external-store";
+    if ("lastRenderedReducer" in queue) {
+      return isBasicStateReducer(queue["lastRenderedReducer"]) ? "state" : "reducer";
+    }
+  }
+  if (isEffect(state)) {
+    const tag = state["tag"] as number;
+    if (tag & EFFECT_INSERTION) return "insertion-effect";
+    return tag & EFFECT_LAYOUT ? "layout-effect" : "effect";
+  }
+  const record = asRecord(state);
+  if (record && !Array.isArray(state) && Object.keys(record).length === 1 && "current" in record) {
+    return "ref";
+  }
+  if (Array.isArray(state) && state.length === 2 && (state[1] === null || Array.isArray(state[1]))) {
+    return typeof state[0] === "function" ? "callback" : "memo";
+  }
+  if (typeof state === "string" && USE_ID_PATTERN.test(state)) return "id";
+  return "unknown";
+}
+
+// The value worth showing for a hook node of `kind`.
+function readHookValue(kind: HookKind, node: HookNode): unknown {
+  const state = node.memoizedState;
+  switch (kind) {
+    case "ref":
+      return asRecord(state)?.["current"];
+    case "memo":
+    case "callback":
+      return Array.isArray(state) ? state[0] : state;
+    case "effect":
+    case "layout-effect":
+    case "insertion-effect":
+    case "imperative-handle":
+      return isEffect(state) ? state["deps"] : null;
+    default:
+      return state;
+  }
+}
+
+function inspectByShape(first: HookNode | null): InspectedHook[] {
+  const hooks: InspectedHook[] = [];
+  let index = 0;
+  for (let node = first; node; node = node.next) {
+    const kind = classifyHookNode(node);
+    hooks.push({
+      hookIndex: index,
+      kind,
+      name: null,
+      customHookPath: [],
+      value: readHookValue(kind, node),
+    });
+    index += 1;
+    if (index >= MAX_REPLAYED_HOOKS) break;
+  }
+  return hooks;
+}
+
+// `Object.useCart [as useCart]` → `useCart`.
+function normalizeFrameName(name: string | undefined): string {
+  return (name ?? "").replace(/\s*\[as [^\]]+\]$/, "").split(".").pop() ?? "";
+}
+
+const CUSTOM_HOOK_NAME = /^use[A-Z0-9_]/;
+
+/**
+ * Custom hooks around a primitive hook call, outermost first, read from the
+ * stack trace taken inside the replay dispatcher: every `use*` frame after
+ * the primitive (ours, then React's export) and before the component.
+ */
+export function parseCustomHookPath(stack: string, primitive: string): string[] {
+  const names = parseStack(stack).map((frame) => normalizeFrameName(frame.functionName));
+  let index = names.indexOf(primitive);
+  if (index < 0) return [];
+  while (names[index] === primitive) index += 1;
+  const path: string[] = [];
+  while (index < names.length && CUSTOM_HOOK_NAME.test(names[index]!)) {
+    path.push(names[index]!);
+    index += 1;
+  }
+  return path.reverse();
+}
+
+class HookReplay {
+  readonly hooks: InspectedHook[] = [];
+  private node: HookNode | null;
+  private index = 0;
+
+  constructor(first: HookNode | null) {
+    this.node = first;
+  }
+
+  get exhausted(): boolean {
+    return this.node === null;
+  }
+
+  // Consumes the `count` list nodes one hook call creates.
+  take(kind: HookKind, name: string, count: number = 1): HookNode {
+    const first = this.node;
+    if (!first || this.hooks.length >= MAX_REPLAYED_HOOKS) {
+      throw new Error("Hook replay ran past the fiber's hook list");
+    }
+    const hookIndex = this.index;
+    let node: HookNode | null = first;
+    for (let i = 0; i < count; i += 1) {
+      if (!node) throw new Error("Hook replay ran past the fiber's hook list");
+      node = node.next;
+    }
+    this.node = node;
+    this.index += count;
+    this.hooks.push({
+      hookIndex,
+      kind,
+      name,
+      customHookPath: parseCustomHookPath(new Error().stack ?? "", name),
+      value: readHookValue(kind, first),
+    });
+    return first;
+  }
+}
+
+type ContextLike = { _currentValue?: unknown };
+
+function readContextValue(context: unknown): unknown {
+  return (context as ContextLike | null)?._currentValue;
+}
+
+const noop = () => {};
+
+// Method names are the primitive hook names: the stack parser looks for them.
+function createReplayDispatcher(replay: HookReplay): { readonly [name: string]: unknown } {
+  return {
+    readContext: readContextValue,
+    useContext: readContextValue,
+    use(usable: unknown) {
+      const thenable = asRecord(usable);
+      if (thenable && typeof thenable["then"] === "function") {
+        if (thenable["status"] === "fulfilled") return thenable["value"];
+        throw new Error("Hook replay cannot suspend");
+      }
+      return readContextValue(usable);
+    },
+    useState() {
+      return [replay.take("state", "useState").memoizedState, noop];
+    },
+    useReducer() {
+      return [replay.take("reducer", "useReducer").memoizedState, noop];
+    },
+    useRef() {
+      return replay.take("ref", "useRef").memoizedState;
+    },
+    useMemo() {
+      return readHookValue("memo", replay.take("memo", "useMemo"));
+    },
+    useCallback() {
+      return readHookValue("callback", replay.take("callback", "useCallback"));
+    },
+    useEffect() {
+      replay.take("effect", "useEffect");
+    },
+    useLayoutEffect() {
+      replay.take("layout-effect", "useLayoutEffect");
+    },
+    useInsertionEffect() {
+      replay.take("insertion-effect", "useInsertionEffect");
+    },
+    useImperativeHandle() {
+      replay.take("imperative-handle", "useImperativeHandle");
+    },
+    useEffectEvent() {
+      replay.take("effect-event", "useEffectEvent");
+      return noop;
+    },
+    useDebugValue: noop,
+    useId() {
+      return replay.take("id", "useId").memoizedState;
+    },
+    // A state hook (isPending) plus one holding `startTransition`.
+    useTransition() {
+      return [replay.take("transition", "useTransition", 2).memoizedState, noop];
+    },
+    useDeferredValue() {
+      return replay.take("deferred-value", "useDeferredValue").memoizedState;
+    },
+    useSyncExternalStore() {
+      return replay.take("sync-external-store", "useSyncExternalStore").memoizedState;
+    },
+    useOptimistic() {
+      return [replay.take("optimistic", "useOptimistic").memoizedState, noop];
+    },
+    // State, pending state and action queue hooks.
+    useActionState() {
+      return [replay.take("action-state", "useActionState", 3).memoizedState, noop, false];
+    },
+    useFormState() {
+      return [replay.take("action-state", "useFormState", 3).memoizedState, noop, false];
+    },
+    // React Compiler's cache lives outside the hook list; a fresh one
+    // makes compiled components recompute everything.
+    useMemoCache(size: number) {
+      return Array.from({ length: size }, () => Symbol.for("react.memo_cache_sentinel"));
+    },
+  };
+}
+
+type DispatcherSlot = { get(): unknown; set(value: unknown): void };
+
+// React 19 keeps the dispatcher in `H`, React 16–18 in `current`.
+function getDispatcherSlot(renderer: ReactRenderer | null): DispatcherSlot | null {
+  const ref = asRecord(renderer?.currentDispatcherRef) as { H?: unknown; current?: unknown } | null;
+  if (!ref) return null;
+  const key = "H" in ref ? "H" : "current" in ref ? "current" : null;
+  if (key === null) return null;
+  return {
+    get: () => ref[key],
+    set: (value) => {
+      ref[key] = value;
+    },
+  };
+}
+
+// Outside a render every context holds its default; put the values of the
+// providers above `fiber` back for the replay. Returns the restore step.
+function applyProviderValues(fiber: Fiber): () => void {
+  const previous = new Map<ContextLike, unknown>();
+  for (let current: Fiber | null = fiber.return; current; current = current.return) {
+    if (current.tag !== CONTEXT_PROVIDER) continue;
+    const type = current.type as (ContextLike & { _context?: ContextLike }) | null;
+    // React 19 renders the context itself; older versions `Context.Provider`.
+    const context = type?._context ?? type;
+    if (!context || previous.has(context)) continue;
+    previous.set(context, context._currentValue);
+    context._currentValue = asRecord(current.memoizedProps)?.["value"];
+  }
+  return () => {
+    for (const [context, value] of previous) context._currentValue = value;
+  };
+}
+
+type ComponentFunction = (props: unknown, secondArg?: unknown) => unknown;
+
+function renderForReplay(fiber: Fiber): void {
+  if (fiber.tag === FORWARD_REF) {
+    (fiber.type as { render: ComponentFunction }).render(fiber.memoizedProps, fiber.ref);
+  } else {
+    (fiber.type as ComponentFunction)(fiber.memoizedProps);
+  }
+}
+
+function replayHooks(fiber: Fiber, renderer: ReactRenderer | null): InspectedHook[] | null {
+  const slot = getDispatcherSlot(renderer);
+  const first = isHookNode(fiber.memoizedState) ? fiber.memoizedState : null;
+  if (!slot || !first) return null;
+  const replay = new HookReplay(first);
+  const previousDispatcher = slot.get();
+  const restoreProviders = applyProviderValues(fiber);
+  const errorConstructor = Error as { stackTraceLimit?: number };
+  const previousLimit = errorConstructor.stackTraceLimit;
+  try {
+    if (typeof previousLimit === "number") errorConstructor.stackTraceLimit = 50;
+    slot.set(createReplayDispatcher(replay));
+    renderForReplay(fiber);
+  } catch {
+    return null;
+  } finally {
+    slot.set(previousDispatcher);
+    restoreProviders();
+    if (typeof previousLimit === "number") errorConstructor.stackTraceLimit = previousLimit;
+  }
+  // Conditional hooks or a render that differs from the committed one.
+  return replay.exhausted ? replay.hooks : null;
+}
+
+/**
+ * The hooks of a component fiber, in call order. Function components are
+ * replayed for hook kinds and custom hook names when the renderer exposes
+ * its dispatcher; otherwise (and when the replay fails) kinds are guessed
+ * from the hook list. Class components yield one `class-state` entry.
+ */
+export function inspectFiberHooks(fiber: Fiber, renderer: ReactRenderer | null): InspectedHook[] {
+  if (fiber.tag === CLASS_COMPONENT) {
+    return fiber.memoizedState === null
+      ? []
+      : [
+          {
+            hookIndex: 0,
+            kind: "class-state",
+            name: null,
+            customHookPath: [],
+            value: fiber.memoizedState,
+          },
+        ];
+  }
+  const first = isHookNode(fiber.memoizedState) ? fiber.memoizedState : null;
+  const replayable =
+    fiber.tag === FUNCTION_COMPONENT ||
+    fiber.tag === FORWARD_REF ||
+    fiber.tag === SIMPLE_MEMO_COMPONENT;
+  return (replayable ? replayHooks(fiber, renderer) : null) ?? inspectByShape(first);
+}
@@ -1,4 +1,5 @@
 import type {
+  ComponentTarget,
   ElementContextV2,
   GrabrRuntimeConfig,
   InspectorEngine,
@@ -6,9 +7,21 @@ import type {
 } from "./schema";
 
 import { mergeRuntimeConfig } from "./heuristics";
-import { buildBehaviorContext, buildReactTreeSlice, getReactDebugInfoForElement } from "./react";
+import {
+  buildBehaviorContext,
+  buildComponentSelectionInfo,
+  buildFormLibraryState,
+  buildReactTreeSlice,
+  getReactDebugInfoForElement,
+  resolveComponentAt,
+} from "./react";
 import { buildDomNeighborhood, buildSelectionInfo, buildStyleFrame } from "./dom";
 import { buildAppContext } from "./heuristics";
+import { buildAccessibilityInfo } from "./accessibility";
+import { buildLayoutAncestry } from "./layout";
+import { buildVisibilityReport } from "./visibility";
+import { buildFormContext } from "./form";
+import { redactElementContext } from "./redaction";
 
 class DefaultInspectorEngine implements InspectorEngine {
   readonly config: Readonly<GrabrRuntimeConfig>;
@@ -17,23 +30,51 @@ class DefaultInspectorEngine implements InspectorEngine {
     this.config = config;
   }
 
-  async getElementContext(selectedElement: Element): Promise<ElementContextV2> {
+  async getElementContext(
+    target: Element,
+    componentTarget?: ComponentTarget
+  ): Promise<ElementContextV2> {
+    const resolved =
+      componentTarget && this.config.reactInspectorMode !== "off"
+        ? resolveComponentAt(target, componentTarget.depth)
+        : null;
+    // The DOM-based blocks of a selected component describe its first host.
+    const selectedElement = resolved?.hosts[0] ?? target;
     const reactDebug = getReactDebugInfoForElement(selectedElement);
     const reactSlice: ReactTreeSlice | null =
       this.config.reactInspectorMode === "off"
         ? null
-        : await buildReactTreeSlice(selectedElement, this.config, reactDebug);
+        : await buildReactTreeSlice(selectedElement, this.config, reactDebug, resolved);
+    const component = resolved
+      ? await buildComponentSelectionInfo(resolved, this.config, reactDebug.buildType)
+      : null;
 
-    const selection = buildSelectionInfo(selectedElement, reactSlice);
+    const selection = buildSelectionInfo(
+      selectedElement,
+      reactSlice,
+      component,
+      resolved?.hosts
+    );
     const dom = buildDomNeighborhood(selectedElement);
-    const styling = buildStyleFrame(selectedElement);
-    const behavior = buildBehaviorContext(selectedElement, reactSlice);
+    const accessibility = buildAccessibilityInfo(selectedElement);
+    const styling = buildStyleFrame(selectedElement, this.config);
+    const layout = buildLayoutAncestry(selectedElement);
+    const visibility = buildVisibilityReport(selectedElement);
+    const form = buildFormContext(selectedElement, (el) =>
+      buildFormLibraryState(el, reactSlice, this.config.serialization)
+    );
+    const behavior = buildBehaviorContext(selectedElement, reactSlice, resolved);
     const app = buildAppContext(reactSlice, this.config);
 
     const context: ElementContextV2 = {
       version: 2,
       selection,
       dom,
+      accessibility,
+      layout,
+      visibility,
+      form,
+      component,
       react: reactSlice,
       reactDebug,
       styling,
@@ -41,7 +82,7 @@ class DefaultInspectorEngine implements InspectorEngine {
       app,
     };
 
-    return context;
+    return redactElementContext(context, this.config.redaction);
   }
 }
 
@@ -61,13 +102,14 @@ export function createInspectorEngine(
  */
 export async function getElementContext(
   selectedElement: Element,
-  engine?: InspectorEngine
+  engine?: InspectorEngine,
+  component?: ComponentTarget
 ): Promise<ElementContextV2> {
   if (engine) {
-    return engine.getElementContext(selectedElement);
+    return engine.getElementContext(selectedElement, component);
   }
   if (!defaultInspectorEngine) {
     defaultInspectorEngine = createInspectorEngine();
   }
-  return defaultInspectorEngine.getElementContext(selectedElement);
+  return defaultInspectorEngine.getElementContext(selectedElement, component);
 }
@@ -0,0 +1,828 @@
+import type {
+  ElementContextV2,
+  GrabrSession,
+  SchemaValidationIssue,
+  SchemaValidationResult,
+} from "./schema";
+
+/**
+ * JSON Schema (draft 2020-12) contract for `GrabrSession` / `ElementContextV2`.
+ *
+ * The document is plain data so it can be emitted as a standalone `.json`
+ * file for non-TypeScript consumers. The validator below interprets the same
+ * document, so the published contract and the runtime checks cannot drift.
+ *
+ * Only the keyword subset used here is supported by the validator:
+ * `type`, `enum`, `const`, `properties`, `required`, `additionalProperties`,
+ * `items`, `anyOf`, `minimum` and local `$ref`s into `#/$defs`.
+ */
+export interface JsonSchema {
+  readonly $schema?: string;
+  readonly $id?: string;
+  readonly $ref?: string;
+  readonly $defs?: { readonly [name: string]: JsonSchema };
+  readonly title?: string;
+  readonly description?: string;
+  readonly type?: JsonSchemaType | readonly JsonSchemaType[];
+  readonly enum?: readonly (string | number | boolean | null)[];
+  readonly const?: string | number | boolean | null;
+  readonly properties?: { readonly [name: string]: JsonSchema };
+  readonly required?: readonly string[];
+  readonly additionalProperties?: boolean | JsonSchema;
+  readonly items?: JsonSchema;
+  readonly anyOf?: readonly JsonSchema[];
+  readonly minimum?: number;
+}
+
+export type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "null"
+  | "object"
+  | "array";
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/$defs/${name}` });
+
+const nullable = (schema: JsonSchema): JsonSchema => ({
+  anyOf: [schema, { type: "null" }],
+});
+
+const STRING: JsonSchema = { type: "string" };
+const NUMBER: JsonSchema = { type: "number" };
+const BOOLEAN: JsonSchema = { type: "boolean" };
+const NULLABLE_STRING: JsonSchema = { type: ["string", "null"] };
+const NULLABLE_NUMBER: JsonSchema = { type: ["number", "null"] };
+const NULLABLE_BOOLEAN: JsonSchema = { type: ["boolean", "null"] };
+const STRING_ARRAY: JsonSchema = { type: "array", items: STRING };
+const STRING_MAP: JsonSchema = { type: "object", additionalProperties: STRING };
+
+function object(
+  properties: { readonly [name: string]: JsonSchema },
+  optional: readonly string[] = []
+): JsonSchema {
+  return {
+    type: "object",
+    properties,
+    required: Object.keys(properties).filter((key) => !optional.includes(key)),
+  };
+}
+
+function arrayOf(items: JsonSchema): JsonSchema {
+  return { type: "array", items };
+}
+
+const sessionDefs: { readonly [name: string]: JsonSchema } = {
+  // Arbitrary JSON: props/state/context snapshots are user data.
+  SerializableValue: {},
+  BoundingBox: object({ x: NUMBER, y: NUMBER, width: NUMBER, height: NUMBER }),
+  SourceLocation: object({
+    fileName: STRING,
+    lineNumber: NULLABLE_NUMBER,
+    columnNumber: NULLABLE_NUMBER,
+    confidence: { enum: ["none", "low", "medium", "high"] },
+    origin: { enum: ["bippy", "sourcemap", "inline", "unknown"] },
+  }),
+  SelectionIdentity: object({
+    tag: STRING,
+    id: NULLABLE_STRING,
+    dataTestId: NULLABLE_STRING,
+    role: NULLABLE_STRING,
+    classes: STRING_ARRAY,
+  }),
+  SelectionInfo: object({
+    tag: STRING,
+    boundingBox: ref("BoundingBox"),
+    identity: ref("SelectionIdentity"),
+    componentDisplayName: NULLABLE_STRING,
+    nearestSource: nullable(ref("SourceLocation")),
+    isLikelyServerComponent: NULLABLE_BOOLEAN,
+    fingerprint: ref("SelectionFingerprint"),
+    instanceId: STRING,
+  }),
+  ComponentSelectionInfo: object({
+    displayName: NULLABLE_STRING,
+    source: nullable(ref("SourceLocation")),
+    hostSelectors: STRING_ARRAY,
+    totalHostElements: { type: "integer", minimum: 0 },
+    boundingBox: ref("BoundingBox"),
+  }),
+  SelectionFingerprint: object({
+    hash: STRING,
+    parts: object({
+      componentPath: STRING_ARRAY,
+      source: NULLABLE_STRING,
+      selector: STRING,
+      testId: NULLABLE_STRING,
+      role: NULLABLE_STRING,
+      accessibleName: NULLABLE_STRING,
+    }),
+  }),
+  DomNodeSummary: object({
+    tag: STRING,
+    id: NULLABLE_STRING,
+    dataTestId: NULLABLE_STRING,
+    classes: STRING_ARRAY,
+    textSnippet: NULLABLE_STRING,
+  }),
+  RankedSelector: object({
+    selector: STRING,
+    strategy: {
+      enum: ["test-id", "id", "role-name", "attribute", "text", "class", "path"],
+    },
+    syntax: { enum: ["css", "role", "text"] },
+    unique: BOOLEAN,
+    matchCount: { type: "integer", minimum: 0 },
+    score: { type: "number", minimum: 0 },
+  }),
+  FrameSummary: object({
+    selector: STRING,
+    url: NULLABLE_STRING,
+  }),
+  DomNeighborhood: object({
+    snippet: STRING,
+    parents: arrayOf(ref("DomNodeSummary")),
+    siblings: object({
+      index: { type: "integer" },
+      total: { type: "integer", minimum: 0 },
+      previous: nullable(ref("DomNodeSummary")),
+      next: nullable(ref("DomNodeSummary")),
+    }),
+    children: object({
+      totalChildren: { type: "integer", minimum: 0 },
+      tagCounts: { type: "object", additionalProperties: { type: "integer" } },
+      samples: arrayOf(ref("DomNodeSummary")),
+    }),
+    selectors: object({
+      preferred: STRING,
+      all: STRING_ARRAY,
+      ranked: arrayOf(ref("RankedSelector")),
+    }),
+    shadowHostChain: arrayOf(ref("DomNodeSummary")),
+    frameChain: arrayOf(ref("FrameSummary")),
+  }),
+  AccessibilityNode: object({
+    role: NULLABLE_STRING,
+    name: NULLABLE_STRING,
+  }),
+  LayoutAncestry: object({
+    parent: nullable(
+      object({
+        kind: { enum: ["flex", "grid"] },
+        selector: STRING,
+        display: STRING,
+        container: STRING_MAP,
+        item: STRING_MAP,
+        participates: BOOLEAN,
+      })
+    ),
+    containingBlock: nullable(
+      object({ position: STRING, selector: NULLABLE_STRING, reason: STRING })
+    ),
+    scrollContainer: nullable(
+      object({
+        selector: STRING,
+        overflowX: STRING,
+        overflowY: STRING,
+        scrollTop: NUMBER,
+        scrollLeft: NUMBER,
+        scrollable: BOOLEAN,
+      })
+    ),
+    clippingAncestors: arrayOf(
+      object({
+        selector: STRING,
+        overflow: STRING,
+        clipPath: NULLABLE_STRING,
+        clipsElement: BOOLEAN,
+      })
+    ),
+    stackingContexts: arrayOf(object({ selector: STRING, zIndex: STRING, reason: STRING })),
+  }),
+  VisibilityReport: object({
+    verdict: { enum: ["visible", "partially-visible", "hidden"] },
+    reasons: STRING_ARRAY,
+    zeroSize: BOOLEAN,
+    viewport: { enum: ["inside", "partial", "outside"] },
+    visibleRatio: { type: "number", minimum: 0 },
+    clippedBy: NULLABLE_STRING,
+    occlusion: nullable(
+      object({
+        samples: { type: "integer", minimum: 0 },
+        covered: { type: "integer", minimum: 0 },
+        coveredBy: STRING_ARRAY,
+      })
+    ),
+    displayNone: NULLABLE_STRING,
+    visibility: NULLABLE_STRING,
+    opacity: NUMBER,
+    ariaHidden: NULLABLE_STRING,
+    inert: NULLABLE_STRING,
+  }),
+  FormFieldInfo: object({
+    selector: STRING,
+    tag: STRING,
+    type: NULLABLE_STRING,
+    name: NULLABLE_STRING,
+    label: NULLABLE_STRING,
+    value: NULLABLE_STRING,
+    checked: NULLABLE_BOOLEAN,
+    required: BOOLEAN,
+    disabled: BOOLEAN,
+    readOnly: BOOLEAN,
+    valid: NULLABLE_BOOLEAN,
+    validity: STRING_ARRAY,
+    validationMessage: NULLABLE_STRING,
+  }),
+  FormContext: object({
+    form: nullable(
+      object({
+        selector: STRING,
+        name: NULLABLE_STRING,
+        action: NULLABLE_STRING,
+        method: STRING,
+        noValidate: BOOLEAN,
+      })
+    ),
+    field: nullable(ref("FormFieldInfo")),
+    fields: arrayOf(ref("FormFieldInfo")),
+    totalFields: { type: "integer", minimum: 0 },
+    library: nullable(
+      object({
+        library: { enum: ["react-hook-form", "formik"] },
+        values: ref("SerializableValue"),
+        errors: ref("SerializableValue"),
+        touched: ref("SerializableValue"),
+        dirty: NULLABLE_BOOLEAN,
+        submitting: NULLABLE_BOOLEAN,
+        submitCount: NULLABLE_NUMBER,
+        valid: NULLABLE_BOOLEAN,
+      })
+    ),
+  }),
+  AccessibilityInfo: object({
+    role: NULLABLE_STRING,
+    roleSource: { enum: ["explicit", "implicit", null] },
+    name: NULLABLE_STRING,
+    nameSource: {
+      enum: [
+        "aria-labelledby",
+        "aria-label",
+        "value",
+        "label",
+        "alt",
+        "title",
+        "placeholder",
+        "contents",
+        null,
+      ],
+    },
+    description: NULLABLE_STRING,
+    states: object({
+      expanded: NULLABLE_BOOLEAN,
+      pressed: { enum: [true, false, "mixed", null] },
+      checked: { enum: [true, false, "mixed", null] },
+      disabled: BOOLEAN,
+      invalid: { enum: [true, false, "grammar", "spelling"] },
+    }),
+    labels: arrayOf(
+      object({
+        kind: { enum: ["label", "aria-labelledby", "aria-describedby"] },
+        id: NULLABLE_STRING,
+        text: NULLABLE_STRING,
+      })
+    ),
+    focus: object({
+      focusable: BOOLEAN,
+      tabIndex: { type: ["integer", "null"] },
+      inTabOrder: BOOLEAN,
+    }),
+    hidden: BOOLEAN,
+    tree: object({
+      ancestors: arrayOf(ref("AccessibilityNode")),
+      children: arrayOf(ref("AccessibilityNode")),
+    }),
+  }),
+  ComponentFlags: object({
+    isHost: BOOLEAN,
+    isComposite: BOOLEAN,
+    isSuspenseBoundary: NULLABLE_BOOLEAN,
+    isErrorBoundary: NULLABLE_BOOLEAN,
+    isServerComponent: NULLABLE_BOOLEAN,
+    isLayoutLike: NULLABLE_BOOLEAN,
+  }),
+  PropsSnapshot: object({
+    totalProps: { type: "integer", minimum: 0 },
+    highlighted: arrayOf(
+      object({
+        name: STRING,
+        value: ref("SerializableValue"),
+        reason: {
+          enum: ["text", "design", "children", "test-id", "aria-label", "function", "other"],
+        },
+        truncated: BOOLEAN,
+      })
+    ),
+    omitted: STRING_ARRAY,
+  }),
+  StateSnapshot: object({
+    totalHooks: { type: "integer", minimum: 0 },
+    entries: arrayOf(
+      object({
+        hookIndex: { type: "integer" },
+        kind: {
+          enum: [
+            "state",
+            "reducer",
+            "ref",
+            "memo",
+            "callback",
+            "effect",
+            "layout-effect",
+            "insertion-effect",
+            "imperative-handle",
+            "id",
+            "transition",
+            "deferred-value",
+            "sync-external-store",
+            "optimistic",
+            "action-state",
+            "effect-event",
+            "class-state",
+            "unknown",
+          ],
+        },
+        name: NULLABLE_STRING,
+        customHookPath: STRING_ARRAY,
+        value: ref("SerializableValue"),
+      })
+    ),
+  }),
+  ContextSnapshot: object({
+    totalContexts: { type: "integer", minimum: 0 },
+    entries: arrayOf(
+      object({
+        index: { type: "integer" },
+        displayName: NULLABLE_STRING,
+        isDefault: BOOLEAN,
+        provider: nullable(
+          object({ componentName: NULLABLE_STRING, source: nullable(ref("SourceLocation")) })
+        ),
+        value: ref("SerializableValue"),
+      })
+    ),
+  }),
+  ReactComponentFrame: object({
+    displayName: NULLABLE_STRING,
+    isHost: BOOLEAN,
+    source: nullable(ref("SourceLocation")),
+    flags: ref("ComponentFlags"),
+    snapshot: nullable(
+      object({
+        props: ref("PropsSnapshot"),
+        state: ref("StateSnapshot"),
+        contexts: ref("ContextSnapshot"),
+      })
+    ),
+  }),
+  ReactTreeSlice: object({
+    stack: arrayOf(ref("ReactComponentFrame")),
+    ownerIndex: { type: ["integer", "null"] },
+    ownerProps: nullable(ref("PropsSnapshot")),
+    ownerState: nullable(ref("StateSnapshot")),
+    ownerContexts: nullable(ref("ContextSnapshot")),
+    propLineage: arrayOf(
+      object({
+        prop: STRING,
+        steps: arrayOf(
+          object({
+            frameIndex: { type: "integer", minimum: 0 },
+            displayName: NULLABLE_STRING,
+            via: { enum: ["prop", "state", "context"] },
+            name: STRING,
+          })
+        ),
+      })
+    ),
+  }),
+  ReactDebugInfo: object({
+    buildType: { enum: ["development", "production", "unknown"] },
+    inspectorStatus: { enum: ["ok", "no-hook", "inactive", "no-fiber", "error"] },
+    message: NULLABLE_STRING,
+  }),
+  DesignTokenInfo: object({
+    references: arrayOf(
+      object({
+        property: STRING,
+        declaration: STRING,
+        variables: STRING_ARRAY,
+        resolved: NULLABLE_STRING,
+      })
+    ),
+    variables: arrayOf(object({ name: STRING, value: STRING, token: NULLABLE_STRING })),
+    tokenMatches: arrayOf(object({ property: STRING, value: STRING, token: STRING })),
+  }),
+  MatchedRuleSummary: object({
+    selector: STRING,
+    origin: { enum: ["author", "user-agent", "inline", "unknown"] },
+    specificity: STRING,
+    importantCount: { type: "integer", minimum: 0 },
+    href: NULLABLE_STRING,
+    line: { type: ["integer", "null"] },
+    conditions: STRING_ARRAY,
+    layer: NULLABLE_STRING,
+    wins: STRING_ARRAY,
+  }),
+  ComputedStyleDiff: object({
+    baselineTag: STRING,
+    total: { type: "integer", minimum: 0 },
+    groups: {
+      type: "object",
+      additionalProperties: { type: "object", additionalProperties: STRING },
+    },
+  }),
+  UtilityClassInfo: object({
+    framework: { enum: ["tailwind", "utility"] },
+    classAttribute: STRING,
+    utilities: arrayOf(
+      object({
+        className: STRING,
+        utility: STRING,
+        variants: STRING_ARRAY,
+        important: BOOLEAN,
+        concern: {
+          enum: [
+            "layout",
+            "spacing",
+            "sizing",
+            "typography",
+            "color",
+            "border",
+            "effects",
+            "interaction",
+            "other",
+          ],
+        },
+        sets: STRING_ARRAY,
+      })
+    ),
+    otherClasses: STRING_ARRAY,
+    groups: { type: "object", additionalProperties: STRING_ARRAY },
+    variants: { type: "object", additionalProperties: STRING_ARRAY },
+  }),
+  StyleFrame: object(
+    {
+      layout: object({
+        display: NULLABLE_STRING,
+        position: NULLABLE_STRING,
+        flexDirection: NULLABLE_STRING,
+        justifyContent: NULLABLE_STRING,
+        alignItems: NULLABLE_STRING,
+        gap: NULLABLE_STRING,
+        gridTemplateColumns: NULLABLE_STRING,
+        gridTemplateRows: NULLABLE_STRING,
+      }),
+      spacing: object({ margin: NULLABLE_STRING, padding: NULLABLE_STRING }),
+      size: object({ width: NULLABLE_STRING, height: NULLABLE_STRING }),
+      typography: object({
+        fontFamily: NULLABLE_STRING,
+        fontSize: NULLABLE_STRING,
+        fontWeight: NULLABLE_STRING,
+        lineHeight: NULLABLE_STRING,
+      }),
+      colors: object({
+        color: NULLABLE_STRING,
+        backgroundColor: NULLABLE_STRING,
+        borderColor: NULLABLE_STRING,
+      }),
+      clickable: BOOLEAN,
+      ruleSummaries: arrayOf(ref("MatchedRuleSummary")),
+      computedDiff: nullable(ref("ComputedStyleDiff")),
+      tokens: ref("DesignTokenInfo"),
+      utilityClasses: nullable(ref("UtilityClassInfo")),
+    },
+    ["ruleSummaries", "computedDiff", "tokens", "utilityClasses"]
+  ),
+  EventHandlerInfo: object({
+    propName: STRING,
+    inferredKind: {
+      enum: ["click", "change", "submit", "input", "focus", "blur", "key", "pointer", "other"],
+    },
+    functionName: NULLABLE_STRING,
+    declaredOnComponent: NULLABLE_STRING,
+    source: nullable(ref("SourceLocation")),
+    comment: NULLABLE_STRING,
+    inferenceSource: { enum: ["prop-name", "runtime-hook"] },
+  }),
+  BehaviorContext: object({
+    inferenceLevel: { enum: ["none", "prop-name-only"] },
+    handlers: arrayOf(ref("EventHandlerInfo")),
+  }),
+  DataSourceHint: object({
+    kind: { enum: ["react-query", "swr", "redux", "trpc", "custom", "unknown"] },
+    identifier: NULLABLE_STRING,
+    description: NULLABLE_STRING,
+  }),
+  AppContext: object({
+    url: STRING,
+    pathname: STRING,
+    search: STRING,
+    hash: STRING,
+    framework: {
+      enum: ["next-app", "next-pages", "remix", "react-router", "unknown"],
+    },
+    routePatternGuess: NULLABLE_STRING,
+    routeParamsGuess: nullable(STRING_MAP),
+    pageComponent: nullable(ref("SourceLocation")),
+    layoutComponents: arrayOf(ref("SourceLocation")),
+    dataSources: arrayOf(ref("DataSourceHint")),
+  }),
+  TestsBlock: object({
+    hints: arrayOf(
+      object({
+        type: { enum: ["test", "story", "command"] },
+        location: ref("SourceLocation"),
+        description: NULLABLE_STRING,
+      })
+    ),
+  }),
+  RedactionSummary: object({
+    total: { type: "integer", minimum: 0 },
+    byReason: { type: "object", additionalProperties: { type: "integer", minimum: 0 } },
+  }),
+  ElementContextV2: object(
+    {
+      version: { const: 2 },
+      selection: ref("SelectionInfo"),
+      dom: ref("DomNeighborhood"),
+      accessibility: ref("AccessibilityInfo"),
+      layout: ref("LayoutAncestry"),
+      visibility: ref("VisibilityReport"),
+      form: nullable(ref("FormContext")),
+      component: nullable(ref("ComponentSelectionInfo")),
+      react: nullable(ref("ReactTreeSlice")),
+      reactDebug: ref("ReactDebugInfo"),
+      styling: ref("StyleFrame"),
+      behavior: ref("BehaviorContext"),
+      app: ref("AppContext"),
+      tests: ref("TestsBlock"),
+      redaction: ref("RedactionSummary"),
+    },
+    ["tests", "redaction"]
+  ),
+  ElementScreenshot: object({
+    instanceId: STRING,
+    dataUrl: STRING,
+    mimeType: STRING,
+    width: { type: "integer", minimum: 1 },
+    height: { type: "integer", minimum: 1 },
+    region: ref("BoundingBox"),
+    scale: NUMBER,
+  }),
+  GrabrSession: object(
+    {
+      id: STRING,
+      createdAt: STRING,
+      url: STRING,
+      userInstruction: NULLABLE_STRING,
+      summary: NULLABLE_STRING,
+      elements: arrayOf(ref("ElementContextV2")),
+      redaction: ref("RedactionSummary"),
+      screenshots: arrayOf(ref("ElementScreenshot")),
+    },
+    ["redaction", "screenshots"]
+  ),
+};
+
+const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+export const grabrSessionJsonSchema: JsonSchema = {
+  $schema: JSON_SCHEMA_DIALECT,
+  $id: "https://unpkg.com/@ethan-wickstrom/grabr/dist/grabr-session.schema.json",
+  title: "GrabrSession",
+  description: "A grabr selection session: user instruction plus captured element contexts.",
+  $ref: "#/$defs/GrabrSession",
+  $defs: sessionDefs,
+};
+
+export const elementContextJsonSchema: JsonSchema = {
+  $schema: JSON_SCHEMA_DIALECT,
+  $id: "https://unpkg.com/@ethan-wickstrom/grabr/dist/element-context.schema.json",
+  title: "ElementContextV2",
+  description: "Context captured by grabr for a single selected element.",
+  $ref: "#/$defs/ElementContextV2",
+  $defs: sessionDefs,
+};
+
+// ---------------------------------------------------------------------------
+// Validator
+// ---------------------------------------------------------------------------
+
+// Stop collecting after this many issues; a wholly wrong payload would
+// otherwise produce one issue per field.
+const MAX_VALIDATION_ISSUES = 50;
+
+function describeJsonType(value: unknown): JsonSchemaType | "undefined" | "unsupported" {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  switch (typeof value) {
+    case "string":
+      return "string";
+    case "number":
+      return Number.isInteger(value) ? "integer" : "number";
+    case "boolean":
+      return "boolean";
+    case "object":
+      return "object";
+    case "undefined":
+      return "undefined";
+    default:
+      return "unsupported";
+  }
+}
+
+function matchesJsonType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = describeJsonType(value);
+  if (type === "number") {
+    return (actual === "number" || actual === "integer") && Number.isFinite(value);
+  }
+  return actual === type;
+}
+
+function formatPathSegment(path: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${path}[${key}]`;
+  }
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`;
+}
+
+function resolveRef(root: JsonSchema, pointer: string): JsonSchema {
+  const prefix = "#/$defs/";
+  const name = pointer.startsWith(prefix) ? pointer.slice(prefix.length) : null;
+  const resolved = name !== null ? root.$defs?.[name] : undefined;
+  if (!resolved) {
+    throw new Error(`Unresolvable $ref in grabr JSON schema: ${pointer}`);
+  }
+  return resolved;
+}
+
+function validateNode(
+  root: JsonSchema,
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  issues: SchemaValidationIssue[]
+): void {
+  if (issues.length >= MAX_VALIDATION_ISSUES) {
+    return;
+  }
+
+  if (schema.$ref) {
+    validateNode(root, resolveRef(root, schema.$ref), value, path, issues);
+    return;
+  }
+
+  if (schema.anyOf) {
+    const matched = schema.anyOf.some((option) => {
+      const optionIssues: SchemaValidationIssue[] = [];
+      validateNode(root, option, value, path, optionIssues);
+      return optionIssues.length === 0;
+    });
+    if (!matched) {
+      // Surface the issues of the first non-null branch: for the common
+      // `T | null` shape that is the informative one.
+      const primary =
+        schema.anyOf.find((option) => option.type !== "null") ?? schema.anyOf[0];
+      if (primary) {
+        validateNode(root, primary, value, path, issues);
+      }
+    }
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const types: readonly JsonSchemaType[] =
+      typeof schema.type === "string" ? [schema.type] : schema.type;
+    if (!types.some((type) => matchesJsonType(value, type))) {
+      issues.push({
+        path,
+        keyword: "type",
+        message: `expected ${types.join(" | ")}, got ${describeJsonType(value)}`,
+      });
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    issues.push({
+      path,
+      keyword: "const",
+      message: `expected ${JSON.stringify(schema.const)}, got ${JSON.stringify(value)}`,
+    });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.some((option) => option === value)) {
+    issues.push({
+      path,
+      keyword: "enum",
+      message: `expected one of ${schema.enum
+        .map((option) => JSON.stringify(option))
+        .join(", ")}, got ${JSON.stringify(value) ?? describeJsonType(value)}`,
+    });
+    return;
+  }
+
+  if (schema.minimum !== undefined && typeof value === "number" && value < schema.minimum) {
+    issues.push({
+      path,
+      keyword: "minimum",
+      message: `expected a value >= ${schema.minimum}, got ${value}`,
+    });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, index) => {
+        validateNode(root, items, item, formatPathSegment(path, index), issues);
+      });
+    }
+    return;
+  }
+
+  if (value === null || typeof value !== "object") {
+    return;
+  }
+
+  const record = value as { readonly [key: string]: unknown };
+  for (const key of schema.required ?? []) {
+    if (record[key] === undefined) {
+      issues.push({
+        path: formatPathSegment(path, key),
+        keyword: "required",
+        message: "missing required property",
+      });
+    }
+  }
+
+  const properties = schema.properties ?? {};
+  for (const [key, child] of Object.entries(record)) {
+    if (child === undefined) continue;
+    const propertySchema = properties[key];
+    if (propertySchema) {
+      validateNode(root, propertySchema, child, formatPathSegment(path, key), issues);
+      continue;
+    }
+    if (schema.additionalProperties === false) {
+      issues.push({
+        path: formatPathSegment(path, key),
+        keyword: "additionalProperties",
+        message: "unexpected property",
+      });
+    } else if (
+      typeof schema.additionalProperties === "object" &&
+      schema.additionalProperties !== null
+    ) {
+      validateNode(
+        root,
+        schema.additionalProperties,
+        child,
+        formatPathSegment(path, key),
+        issues
+      );
+    }
+  }
+}
+
+function validateAgainst<T>(
+  schema: JsonSchema,
+  value: unknown
+): SchemaValidationResult<T> {
+  const issues: SchemaValidationIssue[] = [];
+  validateNode(schema, schema, value, "$", issues);
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+  return { ok: true, value: value as T };
+}
+
+/**
+ * Validate an untrusted value (e.g. parsed JSON from a saved session or an
+ * agent bridge) against the `GrabrSession` JSON schema.
+ */
+export function validateSession(value: unknown): SchemaValidationResult<GrabrSession> {
+  return validateAgainst<GrabrSession>(grabrSessionJsonSchema, value);
+}
+
+/**
+ * Validate an untrusted value against the `ElementContextV2` JSON schema.
+ */
+export function validateElementContext(
+  value: unknown
+): SchemaValidationResult<ElementContextV2> {
+  return validateAgainst<ElementContextV2>(elementContextJsonSchema, value);
+}
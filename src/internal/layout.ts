@@ -0,0 +1,353 @@
+// Layout ancestry: the ancestors that decide where an element ends up and
+// whether it is visible — its flex/grid container, containing block,
+// scroll container, clipping ancestors and stacking contexts.
+
+import type {
+  ClippingAncestor,
+  ContainingBlockInfo,
+  LayoutAncestry,
+  LayoutParentInfo,
+  ScrollContainerInfo,
+  StackingContextInfo,
+} from "./schema";
+import { buildPreferredSelector } from "./dom";
+import { getComposedParent } from "./shadow";
+
+const MAX_ANCESTOR_DEPTH = 48;
+
+type StyleReader = (el: Element) => CSSStyleDeclaration | null;
+
+function readComputedStyle(el: Element): CSSStyleDeclaration | null {
+  const view = el.ownerDocument.defaultView;
+  return view && typeof view.getComputedStyle === "function" ? view.getComputedStyle(el) : null;
+}
+
+function createStyleReader(): StyleReader {
+  const cache = new Map<Element, CSSStyleDeclaration | null>();
+  return (node) => {
+    if (!cache.has(node)) cache.set(node, readComputedStyle(node));
+    return cache.get(node) ?? null;
+  };
+}
+
+// The box tree parent: slotted elements are laid out inside their slot's
+// parent, and `display: contents` ancestors generate no box.
+function getLayoutParent(el: Element, read: StyleReader): Element | null {
+  let parent: Element | null = el.assignedSlot ?? getComposedParent(el);
+  while (parent && read(parent)?.display === "contents") {
+    parent = parent.assignedSlot ?? getComposedParent(parent);
+  }
+  return parent;
+}
+
+function getAncestors(el: Element): Element[] {
+  const ancestors: Element[] = [];
+  let current = el.assignedSlot ?? getComposedParent(el);
+  while (current && ancestors.length < MAX_ANCESTOR_DEPTH) {
+    ancestors.push(current);
+    current = current.assignedSlot ?? getComposedParent(current);
+  }
+  return ancestors;
+}
+
+function pick(
+  style: CSSStyleDeclaration,
+  properties: readonly string[]
+): { [property: string]: string } {
+  const out: { [property: string]: string } = {};
+  for (const property of properties) {
+    const value = style.getPropertyValue(property).trim();
+    if (value.length > 0) out[property] = value;
+  }
+  return out;
+}
+
+const FLEX_CONTAINER_PROPERTIES = [
+  "flex-direction",
+  "flex-wrap",
+  "justify-content",
+  "align-items",
+  "align-content",
+  "gap",
+];
+const FLEX_ITEM_PROPERTIES = ["flex-grow", "flex-shrink", "flex-basis", "align-self", "order"];
+const GRID_CONTAINER_PROPERTIES = [
+  "grid-template-columns",
+  "grid-template-rows",
+  "grid-template-areas",
+  "grid-auto-flow",
+  "justify-items",
+  "align-items",
+  "gap",
+];
+const GRID_ITEM_PROPERTIES = [
+  "grid-area",
+  "grid-column",
+  "grid-row",
+  "justify-self",
+  "align-self",
+  "order",
+];
+
+function describeLayoutParent(el: Element, read: StyleReader): LayoutParentInfo | null {
+  const parent = getLayoutParent(el, read);
+  const parentStyle = parent ? read(parent) : null;
+  const ownStyle = read(el);
+  if (!parent || !parentStyle || !ownStyle) return null;
+  const display = parentStyle.display;
+  const kind = display.includes("flex") ? "flex" : display.includes("grid") ? "grid" : null;
+  if (kind === null) return null;
+  // Absolutely positioned children do not take part in flex/grid layout.
+  const position = ownStyle.position;
+  const participates = position !== "absolute" && position !== "fixed";
+  return {
+    kind,
+    selector: buildPreferredSelector(parent),
+    display,
+    container: pick(
+      parentStyle,
+      kind === "flex" ? FLEX_CONTAINER_PROPERTIES : GRID_CONTAINER_PROPERTIES
+    ),
+    item: participates
+      ? pick(ownStyle, kind === "flex" ? FLEX_ITEM_PROPERTIES : GRID_ITEM_PROPERTIES)
+      : {},
+    participates,
+  };
+}
+
+// Why `style` makes its element the containing block of fixed-position
+// descendants (and of absolute ones, together with `position`), if it does.
+function getTransformLikeReason(style: CSSStyleDeclaration): string | null {
+  for (const property of ["transform", "perspective", "filter", "backdrop-filter"]) {
+    const value = style.getPropertyValue(property).trim();
+    if (value.length > 0 && value !== "none") return `${property}: ${value}`;
+  }
+  const contain = style.getPropertyValue("contain");
+  if (/\b(?:layout|paint|strict|content)\b/.test(contain)) return `contain: ${contain}`;
+  const containerType = style.getPropertyValue("container-type").trim();
+  if (containerType === "size" || containerType === "inline-size") {
+    return `container-type: ${containerType}`;
+  }
+  const willChange = style.getPropertyValue("will-change");
+  if (/\b(?:transform|perspective|filter)\b/.test(willChange)) return `will-change: ${willChange}`;
+  return null;
+}
+
+// Why an ancestor with `style` is the containing block of an absolute or
+// fixed descendant, or null when such a descendant skips it.
+function getContainingBlockReason(position: string, style: CSSStyleDeclaration): string | null {
+  const positioned = position === "absolute" && style.position !== "static";
+  return getTransformLikeReason(style) ?? (positioned ? `position: ${style.position}` : null);
+}
+
+function describeContainingBlock(
+  el: Element,
+  ancestors: readonly Element[],
+  read: StyleReader
+): ContainingBlockInfo | null {
+  const position = read(el)?.position ?? "static";
+  if (position !== "absolute" && position !== "fixed") return null;
+  for (const ancestor of ancestors) {
+    const style = read(ancestor);
+    if (!style) continue;
+    const reason = getContainingBlockReason(position, style);
+    if (reason !== null) {
+      return { position, selector: buildPreferredSelector(ancestor), reason };
+    }
+  }
+  return {
+    position,
+    selector: null,
+    reason: position === "fixed" ? "viewport" : "initial containing block",
+  };
+}
+
+// The root's overflow, and the body's when the root leaves it `visible`,
+// apply to the viewport instead of the element.
+function propagatesToViewport(el: Element, read: StyleReader): boolean {
+  const root = el.ownerDocument.documentElement;
+  if (el === root) return true;
+  if (el !== el.ownerDocument.body) return false;
+  const rootStyle = read(root);
+  return !rootStyle || (rootStyle.overflowX === "visible" && rootStyle.overflowY === "visible");
+}
+
+function isScrollOverflow(value: string): boolean {
+  return value === "auto" || value === "scroll" || value === "hidden";
+}
+
+function describeScrollContainer(
+  ancestors: readonly Element[],
+  read: StyleReader
+): ScrollContainerInfo | null {
+  for (const ancestor of ancestors) {
+    const style = read(ancestor);
+    if (!style || propagatesToViewport(ancestor, read)) continue;
+    if (isScrollOverflow(style.overflowX) || isScrollOverflow(style.overflowY)) {
+      return {
+        selector: buildPreferredSelector(ancestor),
+        overflowX: style.overflowX,
+        overflowY: style.overflowY,
+        scrollTop: Math.round(ancestor.scrollTop),
+        scrollLeft: Math.round(ancestor.scrollLeft),
+        scrollable:
+          ancestor.scrollHeight > ancestor.clientHeight ||
+          ancestor.scrollWidth > ancestor.clientWidth,
+      };
+    }
+  }
+  return null;
+}
+
+type ClipInfo = { readonly overflow: string; readonly clipPath: string | null };
+
+// How `ancestor` clips its descendants, or null when it does not.
+function getClipInfo(ancestor: Element, read: StyleReader): ClipInfo | null {
+  const style = read(ancestor);
+  if (!style) return null;
+  const clipPath = style.getPropertyValue("clip-path").trim();
+  const clipsOverflow =
+    (style.overflowX !== "visible" || style.overflowY !== "visible") &&
+    !propagatesToViewport(ancestor, read);
+  const hasClipPath = clipPath.length > 0 && clipPath !== "none";
+  if (!clipsOverflow && !hasClipPath) return null;
+  return {
+    overflow: !clipsOverflow
+      ? "visible"
+      : style.overflowX === style.overflowY
+        ? style.overflowX
+        : `${style.overflowX} ${style.overflowY}`,
+    clipPath: hasClipPath ? clipPath : null,
+  };
+}
+
+type ClippingAncestorElement = { readonly element: Element; readonly clip: ClipInfo };
+
+// Ancestors whose clip reaches `el`. Overflow only clips boxes whose
+// containing block chain runs through the ancestor: an absolute box skips
+// non-positioned ancestors, a fixed one everything up to a transform-like
+// ancestor. `clip-path` clips every descendant.
+function findClippingAncestors(
+  el: Element,
+  ancestors: readonly Element[],
+  read: StyleReader
+): ClippingAncestorElement[] {
+  let position = read(el)?.position ?? "static";
+  const out: ClippingAncestorElement[] = [];
+  for (const ancestor of ancestors) {
+    const style = read(ancestor);
+    if (!style) continue;
+    const contains =
+      (position !== "absolute" && position !== "fixed") ||
+      getContainingBlockReason(position, style) !== null;
+    const clip = getClipInfo(ancestor, read);
+    if (clip && contains) {
+      out.push({ element: ancestor, clip });
+    } else if (clip && clip.clipPath !== null) {
+      out.push({ element: ancestor, clip: { overflow: "visible", clipPath: clip.clipPath } });
+    }
+    // Past its containing block, the chain continues with that block's own positioning.
+    if (contains) position = style.position;
+  }
+  return out;
+}
+
+function describeClippingAncestors(
+  el: Element,
+  ancestors: readonly Element[],
+  read: StyleReader
+): ClippingAncestor[] {
+  const rect = el.getBoundingClientRect();
+  const out: ClippingAncestor[] = [];
+  for (const { element: ancestor, clip } of findClippingAncestors(el, ancestors, read)) {
+    const box = ancestor.getBoundingClientRect();
+    const clipsElement =
+      rect.left < box.left ||
+      rect.top < box.top ||
+      rect.right > box.right ||
+      rect.bottom > box.bottom;
+    out.push({ selector: buildPreferredSelector(ancestor), ...clip, clipsElement });
+  }
+  return out;
+}
+
+// Why `el` starts a stacking context, if it does.
+// https://developer.mozilla.org/docs/Web/CSS/CSS_positioned_layout/Stacking_context
+function getStackingContextReason(
+  el: Element,
+  style: CSSStyleDeclaration,
+  parentStyle: CSSStyleDeclaration | null
+): string | null {
+  if (el === el.ownerDocument.documentElement) return "root";
+  const zIndex = style.zIndex;
+  const position = style.position;
+  if (position === "fixed" || position === "sticky") return `position: ${position}`;
+  if (zIndex !== "auto" && position !== "static") return `position: ${position} + z-index`;
+  const parentDisplay = parentStyle?.display ?? "";
+  if (zIndex !== "auto" && /flex|grid/.test(parentDisplay)) return "flex/grid item + z-index";
+  const opacity = Number.parseFloat(style.opacity);
+  if (opacity < 1) return `opacity: ${style.opacity}`;
+  if (style.mixBlendMode && style.mixBlendMode !== "normal") {
+    return `mix-blend-mode: ${style.mixBlendMode}`;
+  }
+  if (style.isolation === "isolate") return "isolation: isolate";
+  for (const property of ["clip-path", "mask", "mask-image"]) {
+    const value = style.getPropertyValue(property).trim();
+    if (value.length > 0 && value !== "none") return `${property}: ${value}`;
+  }
+  const transformLike = getTransformLikeReason(style);
+  if (transformLike !== null) return transformLike;
+  if (/\b(?:opacity|z-index|mask|clip-path|isolation)\b/.test(style.willChange)) {
+    return `will-change: ${style.willChange}`;
+  }
+  return null;
+}
+
+function describeStackingContexts(
+  el: Element,
+  ancestors: readonly Element[],
+  read: StyleReader
+): StackingContextInfo[] {
+  const out: StackingContextInfo[] = [];
+  for (const node of [el, ...ancestors]) {
+    const style = read(node);
+    if (!style) continue;
+    const parent = getLayoutParent(node, read);
+    const reason = getStackingContextReason(node, style, parent ? read(parent) : null);
+    if (reason !== null) {
+      out.push({
+        selector: buildPreferredSelector(node),
+        zIndex: style.zIndex,
+        reason,
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * Layout ancestry of `el`: flex/grid container and the element's item
+ * properties, containing block (absolute/fixed only), nearest scroll
+ * container, overflow-clipping ancestors and stacking contexts (innermost
+ * first). Stops at the element's own document.
+ */
+export function buildLayoutAncestry(el: Element): LayoutAncestry {
+  const read = createStyleReader();
+  const ancestors = getAncestors(el);
+  return {
+    parent: describeLayoutParent(el, read),
+    containingBlock: describeContainingBlock(el, ancestors, read),
+    scrollContainer: describeScrollContainer(ancestors, read),
+    clippingAncestors: describeClippingAncestors(el, ancestors, read),
+    stackingContexts: describeStackingContexts(el, ancestors, read),
+  };
+}
+
+/**
+ * Ancestors of `el` that clip it (overflow or clip-path), innermost first.
+ * Out-of-flow elements escape overflow clipping below their containing block.
+ */
+export function getClippingAncestorElements(el: Element): Element[] {
+  const read = createStyleReader();
+  return findClippingAncestors(el, getAncestors(el), read).map(({ element }) => element);
+}
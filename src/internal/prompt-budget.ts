@@ -0,0 +1,285 @@
+import type {
+  ElementPromptDocument,
+  PromptBudget,
+  PromptEntry,
+  PromptPriority,
+  PromptSection,
+  SerializableValue,
+  SessionPromptDocument,
+  TokenEstimator,
+} from "./schema";
+
+import { sealElementPromptDocument, sealSessionPromptDocument } from "./prompt-checksum";
+
+/** Rough estimate used when no estimator is configured: ~4 chars per token. */
+export const approximateTokenEstimator: TokenEstimator = {
+  id: "chars-div-4",
+  estimate(text: string): number {
+    return Math.ceil(text.length / 4);
+  },
+};
+
+// Lower rank is elided first; `required` entries are never touched.
+const PRIORITY_RANK: { readonly [P in PromptPriority]: number } = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  required: 3,
+};
+
+// Upper bound on shrink/drop steps, so a pathological budget cannot spin.
+const MAX_BUDGET_STEPS = 500;
+const MIN_SHRINKABLE_STRING = 80;
+const TRUNCATED_KEY = "$truncated";
+
+type MutableSection = { name: string; entries: PromptEntry[] };
+
+type EntryAddress = {
+  readonly sections: MutableSection[];
+  readonly sectionIndex: number;
+  readonly entryIndex: number;
+  readonly label: string;
+};
+
+function isTruncationMarker(value: SerializableValue): boolean {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    TRUNCATED_KEY in value &&
+    Object.keys(value).length === 1
+  );
+}
+
+function countOmittedFromMarker(value: SerializableValue | undefined): number {
+  if (value === undefined || !isTruncationMarker(value)) return 0;
+  const text = (value as { readonly [key: string]: SerializableValue })[TRUNCATED_KEY];
+  const match = typeof text === "string" ? /^(\d+)/.exec(text) : null;
+  return match ? Number(match[1]) : 0;
+}
+
+function halveArray(items: readonly SerializableValue[]): SerializableValue[] {
+  const last = items[items.length - 1];
+  const alreadyOmitted = countOmittedFromMarker(last);
+  const real = alreadyOmitted > 0 ? items.slice(0, -1) : items;
+  const keep = Math.ceil(real.length / 2);
+  const omitted = real.length - keep + alreadyOmitted;
+  return [
+    ...real.slice(0, keep),
+    { [TRUNCATED_KEY]: `${omitted} more item${omitted === 1 ? "" : "s"}` },
+  ];
+}
+
+/**
+ * Shrink a value one step: halve its longest array (nested ones included),
+ * or failing that its longest string. Returns null when nothing is left to cut.
+ */
+export function shrinkPromptValue(value: SerializableValue): SerializableValue | null {
+  type Candidate = { size: number; replace: () => SerializableValue };
+  let best: Candidate | null = null;
+
+  const consider = (candidate: Candidate) => {
+    if (!best || candidate.size > best.size) best = candidate;
+  };
+
+  const visit = (
+    node: SerializableValue,
+    rebuild: (next: SerializableValue) => SerializableValue
+  ): void => {
+    if (typeof node === "string") {
+      if (node.length > MIN_SHRINKABLE_STRING) {
+        // Strings weigh less than arrays: only pick them when no array can shrink.
+        consider({
+          size: node.length / 1000,
+          replace: () => rebuild(`${node.slice(0, Math.ceil(node.length / 2))}…`),
+        });
+      }
+      return;
+    }
+    if (node === null || typeof node !== "object") return;
+    if (Array.isArray(node)) {
+      const realLength = node.length - (countOmittedFromMarker(node[node.length - 1]) > 0 ? 1 : 0);
+      if (realLength > 1) {
+        consider({ size: realLength, replace: () => rebuild(halveArray(node)) });
+      }
+      node.forEach((item: SerializableValue, index: number) => {
+        visit(item, (next) => {
+          const copy = [...node];
+          copy[index] = next;
+          return rebuild(copy);
+        });
+      });
+      return;
+    }
+    const record = node as { readonly [key: string]: SerializableValue };
+    for (const [key, child] of Object.entries(record)) {
+      visit(child, (next) => rebuild({ ...record, [key]: next }));
+    }
+  };
+
+  visit(value, (next) => next);
+  const chosen = best as Candidate | null;
+  return chosen ? chosen.replace() : null;
+}
+
+function fitsBudget(text: string, budget: PromptBudget, estimator: TokenEstimator): boolean {
+  if (budget.maxChars !== undefined && text.length > budget.maxChars) {
+    return false;
+  }
+  if (budget.maxTokens !== undefined && estimator.estimate(text) > budget.maxTokens) {
+    return false;
+  }
+  return true;
+}
+
+function pickVictim(
+  groups: readonly { readonly prefix: string; readonly sections: MutableSection[] }[]
+): EntryAddress | null {
+  let best: (EntryAddress & { rank: number; size: number }) | null = null;
+  for (const group of groups) {
+    group.sections.forEach((section, sectionIndex) => {
+      section.entries.forEach((entry, entryIndex) => {
+        const rank = PRIORITY_RANK[entry.priority ?? "medium"];
+        if (rank >= PRIORITY_RANK.required) return;
+        const size = JSON.stringify(entry.value).length;
+        if (!best || rank < best.rank || (rank === best.rank && size > best.size)) {
+          best = {
+            sections: group.sections,
+            sectionIndex,
+            entryIndex,
+            label: `${group.prefix}${section.name}.${entry.key}`,
+            rank,
+            size,
+          };
+        }
+      });
+    });
+  }
+  return best;
+}
+
+function toMutableSections(sections: readonly PromptSection[]): MutableSection[] {
+  return sections.map((section) => ({ name: section.name, entries: [...section.entries] }));
+}
+
+type BudgetWorkspace = {
+  readonly groups: { readonly prefix: string; readonly sections: MutableSection[] }[];
+  readonly meta: MutableSection;
+};
+
+function runBudgetLoop(
+  workspace: BudgetWorkspace,
+  budget: PromptBudget,
+  render: () => string
+): void {
+  const estimator = budget.estimator ?? approximateTokenEstimator;
+  const elided: string[] = [];
+
+  const writeBudgetMeta = (text: string | null) => {
+    const entries = workspace.meta.entries.filter(
+      (entry) => entry.key !== "budget" && entry.key !== "elided"
+    );
+    const report: { [key: string]: SerializableValue } = { estimator: estimator.id };
+    if (budget.maxTokens !== undefined) report["max_tokens"] = budget.maxTokens;
+    if (budget.maxChars !== undefined) report["max_chars"] = budget.maxChars;
+    if (text !== null) {
+      report["estimated_tokens"] = estimator.estimate(text);
+      report["chars"] = text.length;
+      report["within_budget"] = fitsBudget(text, budget, estimator);
+    }
+    entries.push({ key: "budget", value: report, priority: "required" });
+    if (elided.length > 0) {
+      entries.push({ key: "elided", value: [...elided], priority: "required" });
+    }
+    workspace.meta.entries = entries;
+  };
+
+  writeBudgetMeta(null);
+  for (let step = 0; step < MAX_BUDGET_STEPS; step += 1) {
+    const text = render();
+    if (fitsBudget(text, budget, estimator)) {
+      break;
+    }
+    const victim = pickVictim(workspace.groups);
+    if (!victim) {
+      break;
+    }
+    const section = victim.sections[victim.sectionIndex]!;
+    const entry = section.entries[victim.entryIndex]!;
+    const shrunk = shrinkPromptValue(entry.value);
+    if (shrunk !== null) {
+      section.entries[victim.entryIndex] = { ...entry, value: shrunk };
+      const label = `${victim.label} (shrunk)`;
+      if (!elided.includes(label)) elided.push(label);
+    } else {
+      section.entries.splice(victim.entryIndex, 1);
+      const shrunkLabel = `${victim.label} (shrunk)`;
+      const existing = elided.indexOf(shrunkLabel);
+      if (existing >= 0) elided.splice(existing, 1);
+      elided.push(`${victim.label} (dropped)`);
+    }
+    writeBudgetMeta(null);
+  }
+  // Second render so the reported numbers describe the final text.
+  writeBudgetMeta(render());
+}
+
+/**
+ * Shrink or drop low-priority entries until the rendered session fits the
+ * budget. The session meta records the budget and every elided entry.
+ */
+export function applyPromptBudgetToSession(
+  document: SessionPromptDocument,
+  budget: PromptBudget,
+  render: (document: SessionPromptDocument) => string
+): SessionPromptDocument {
+  const meta: MutableSection = { name: document.meta.name, entries: [...document.meta.entries] };
+  const elements = document.elements.map((element) => ({
+    selectionId: element.selectionId,
+    sections: toMutableSections(element.sections),
+  }));
+  // Re-sealed on every render so checksums match the elided content.
+  const snapshot = (): SessionPromptDocument =>
+    sealSessionPromptDocument(
+      document.sessionId,
+      { ...meta },
+      elements.map((element) => sealElementPromptDocument(element.selectionId, element.sections))
+    );
+  runBudgetLoop(
+    {
+      groups: elements.map((element, idx) => ({
+        prefix: `element:${idx}.`,
+        sections: element.sections,
+      })),
+      meta,
+    },
+    budget,
+    () => render(snapshot())
+  );
+  return snapshot();
+}
+
+/**
+ * Element-only variant of `applyPromptBudgetToSession`; elisions are recorded
+ * in the element's own meta section.
+ */
+export function applyPromptBudgetToElement(
+  document: ElementPromptDocument,
+  budget: PromptBudget,
+  render: (document: ElementPromptDocument) => string
+): ElementPromptDocument {
+  const sections = toMutableSections(document.sections);
+  const meta = sections.find((section) => section.name === "meta") ?? {
+    name: "meta",
+    entries: [],
+  };
+  if (!sections.includes(meta)) {
+    sections.unshift(meta);
+  }
+  const snapshot = (): ElementPromptDocument =>
+    sealElementPromptDocument(document.selectionId, sections);
+  runBudgetLoop({ groups: [{ prefix: "", sections }], meta }, budget, () =>
+    render(snapshot())
+  );
+  return snapshot();
+}
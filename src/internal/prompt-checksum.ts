@@ -0,0 +1,96 @@
+import type {
+  ElementPromptDocument,
+  PromptEntry,
+  PromptSection,
+  SessionPromptDocument,
+} from "./schema";
+
+import { hashString } from "./hash";
+
+// Checksums cover the rendered grabr-v2 body, so a pasted prompt can be
+// verified from its text alone (see `parseSessionPrompt`).
+
+export const CHECKSUM_ENTRY_KEY = "checksum";
+
+export function formatPromptEntryLine(entry: PromptEntry): string {
+  return `${entry.key}=${JSON.stringify(entry.value)}`;
+}
+
+export function sectionStartLine(name: string): string {
+  return `[section:${name}]`;
+}
+
+export function sectionEndLine(name: string): string {
+  return `[end:${name}]`;
+}
+
+// The element body as grabr-v2 renders it, minus the meta `checksum=` line
+// (which cannot cover itself).
+function elementChecksumLines(sections: readonly PromptSection[]): string[] {
+  const lines: string[] = [];
+  for (const section of sections) {
+    lines.push(sectionStartLine(section.name));
+    for (const entry of section.entries) {
+      if (section.name === "meta" && entry.key === CHECKSUM_ENTRY_KEY) continue;
+      lines.push(formatPromptEntryLine(entry));
+    }
+    lines.push(sectionEndLine(section.name));
+  }
+  return lines;
+}
+
+export function checksumPromptLines(lines: readonly string[]): string {
+  return hashString(lines.join("\n"));
+}
+
+// One line per element so the session checksum notices dropped, reordered or
+// re-sealed elements without re-hashing their bodies.
+export function sessionElementChecksumLine(
+  index: number,
+  selectionId: string,
+  checksum: string
+): string {
+  return `[element:${index}] ${selectionId} ${checksum}`;
+}
+
+/**
+ * Compute the element checksum over `sections` and write it into the meta
+ * section's `checksum` entry (when present).
+ */
+export function sealElementPromptDocument(
+  selectionId: string,
+  sections: readonly PromptSection[]
+): ElementPromptDocument {
+  const checksum = checksumPromptLines(elementChecksumLines(sections));
+  return {
+    selectionId,
+    checksum,
+    sections: sections.map((section) =>
+      section.name !== "meta"
+        ? section
+        : {
+            ...section,
+            entries: section.entries.map((entry) =>
+              entry.key === CHECKSUM_ENTRY_KEY ? { ...entry, value: checksum } : entry
+            ),
+          }
+    ),
+  };
+}
+
+/**
+ * Compute the session checksum over the session meta section and the
+ * (already sealed) element checksums.
+ */
+export function sealSessionPromptDocument(
+  sessionId: string,
+  meta: PromptSection,
+  elements: readonly ElementPromptDocument[]
+): SessionPromptDocument {
+  const lines = [sectionStartLine(meta.name), ...meta.entries.map(formatPromptEntryLine)];
+  lines.push(sectionEndLine(meta.name));
+  elements.forEach((element, idx) => {
+    lines.push(sessionElementChecksumLine(idx, element.selectionId, element.checksum));
+  });
+  return { sessionId, checksum: checksumPromptLines(lines), meta, elements };
+}
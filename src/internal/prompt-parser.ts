@@ -0,0 +1,309 @@
+import type {
+  ParsedPromptElement,
+  ParsedPromptSection,
+  ParsedSessionPrompt,
+  PromptEntry,
+  PromptIntegrity,
+  PromptParseIssue,
+  SerializableValue,
+} from "./schema";
+
+import {
+  CHECKSUM_ENTRY_KEY,
+  checksumPromptLines,
+  sessionElementChecksumLine,
+} from "./prompt-checksum";
+
+const SESSION_START = /^<ai_grab_session\s([^>]*)>$/;
+const SESSION_END = /^<ai_grab_session_end\s([^>]*)\/>$/;
+const SELECTION_START = /^<ai_grab_selection\s([^>]*)>$/;
+const SELECTION_END = /^<ai_grab_selection_end\s([^>]*)\/>$/;
+const SECTION_START = /^\[section:([^\]]+)\]$/;
+const SECTION_END = /^\[end:([^\]]+)\]$/;
+const ELEMENT_START = /^\[element:(\d+)\]$/;
+const ENTRY_LINE = /^([A-Za-z0-9_$.-]+)=(.*)$/;
+
+function parseAttributes(raw: string): { [name: string]: string } {
+  const out: { [name: string]: string } = {};
+  for (const match of raw.matchAll(/([A-Za-z_][\w-]*)="([^"]*)"/g)) {
+    out[match[1]!] = match[2]!;
+  }
+  return out;
+}
+
+// Worst state wins: truncated > tampered > ok.
+function combineIntegrity(states: readonly PromptIntegrity[]): PromptIntegrity {
+  if (states.includes("truncated")) return "truncated";
+  if (states.includes("tampered")) return "tampered";
+  return "ok";
+}
+
+// Any line that opens or closes a block; a section body never contains one.
+function isStructuralLine(line: string): boolean {
+  return (
+    line.startsWith("<ai_grab_") ||
+    SECTION_START.test(line) ||
+    SECTION_END.test(line) ||
+    ELEMENT_START.test(line)
+  );
+}
+
+type SectionRead = {
+  readonly section: ParsedPromptSection;
+  // Raw lines as they count toward the checksum.
+  readonly checksumLines: readonly string[];
+};
+
+class PromptTextParser {
+  private readonly lines: readonly string[];
+  private pos = 0;
+  readonly issues: PromptParseIssue[] = [];
+
+  constructor(text: string) {
+    this.lines = text.split(/\r?\n/).map((line) => line.trim());
+  }
+
+  private peek(): string | undefined {
+    return this.lines[this.pos];
+  }
+
+  private issue(kind: PromptParseIssue["kind"], location: string, message: string): void {
+    this.issues.push({ kind, location, message });
+  }
+
+  /** Move to the first line matching `pattern`; returns false at end of text. */
+  seek(pattern: RegExp): boolean {
+    while (this.pos < this.lines.length) {
+      if (pattern.test(this.lines[this.pos]!)) return true;
+      this.pos += 1;
+    }
+    return false;
+  }
+
+  // `inElement`: the element meta's own `checksum=` line is not covered by it.
+  private readSection(location: string, inElement: boolean): SectionRead | null {
+    const start = SECTION_START.exec(this.peek() ?? "");
+    if (!start) return null;
+    const name = start[1]!;
+    this.pos += 1;
+    const where = `${location}.${name}`;
+    const entries: PromptEntry[] = [];
+    const checksumLines: string[] = [this.lines[this.pos - 1]!];
+    const skipChecksumLine = inElement && name === "meta";
+
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos]!;
+      const end = SECTION_END.exec(line);
+      if (end && end[1] === name) {
+        this.pos += 1;
+        checksumLines.push(line);
+        return { section: { name, entries, complete: true }, checksumLines };
+      }
+      if (isStructuralLine(line)) break;
+      this.pos += 1;
+      if (line.length === 0) continue;
+      const entry = ENTRY_LINE.exec(line);
+      if (!entry) {
+        checksumLines.push(line);
+        this.issue("malformed", where, `Unrecognized line: ${line.slice(0, 80)}`);
+        continue;
+      }
+      const key = entry[1]!;
+      if (!(skipChecksumLine && key === CHECKSUM_ENTRY_KEY)) {
+        checksumLines.push(line);
+      }
+      try {
+        entries.push({ key, value: JSON.parse(entry[2]!) as SerializableValue });
+      } catch {
+        this.issue("malformed", where, `Value of "${key}" is not valid JSON`);
+      }
+    }
+
+    this.issue("truncated", where, `Section "${name}" has no [end:${name}] line`);
+    return { section: { name, entries, complete: false }, checksumLines };
+  }
+
+  /** Parse one `<ai_grab_selection>` block; the cursor must be on its header. */
+  readElement(location: string): ParsedPromptElement {
+    const header = parseAttributes(SELECTION_START.exec(this.peek() ?? "")?.[1] ?? "");
+    this.pos += 1;
+    const selectionId = header["sel_id"] ?? "";
+    const checksum = header["checksum"] ?? "";
+    const sections: ParsedPromptSection[] = [];
+    const checksumLines: string[] = [];
+    let closed = false;
+    let footerMatches = true;
+
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos]!;
+      const footer = SELECTION_END.exec(line);
+      if (footer) {
+        const attrs = parseAttributes(footer[1]!);
+        footerMatches = attrs["sel_id"] === selectionId && attrs["checksum"] === checksum;
+        closed = true;
+        this.pos += 1;
+        break;
+      }
+      if (SECTION_START.test(line)) {
+        const read = this.readSection(location, true);
+        if (read) {
+          sections.push(read.section);
+          checksumLines.push(...read.checksumLines);
+        }
+        continue;
+      }
+      if (isStructuralLine(line)) break;
+      this.pos += 1;
+      if (line.length > 0) {
+        checksumLines.push(line);
+        this.issue("malformed", location, `Unexpected line outside a section: ${line.slice(0, 80)}`);
+      }
+    }
+
+    const computedChecksum = checksumPromptLines(checksumLines);
+    const metaChecksum = sections
+      .find((section) => section.name === "meta")
+      ?.entries.find((entry) => entry.key === CHECKSUM_ENTRY_KEY)?.value;
+
+    let integrity: PromptIntegrity = "ok";
+    if (!closed || sections.some((section) => !section.complete)) {
+      integrity = "truncated";
+      if (!closed) {
+        this.issue("truncated", location, `Selection ${selectionId} has no closing tag`);
+      }
+    } else if (
+      computedChecksum !== checksum ||
+      !footerMatches ||
+      (metaChecksum !== undefined && metaChecksum !== checksum)
+    ) {
+      integrity = "tampered";
+      this.issue(
+        "tampered",
+        location,
+        `Selection ${selectionId}: checksum ${checksum} does not match content (${computedChecksum})`
+      );
+    }
+
+    return { selectionId, checksum, computedChecksum, integrity, sections };
+  }
+
+  /** Parse an `<ai_grab_session>` block; the cursor must be on its header. */
+  readSession(): ParsedSessionPrompt {
+    const header = parseAttributes(SESSION_START.exec(this.peek() ?? "")?.[1] ?? "");
+    this.pos += 1;
+    const sessionId = header["id"] ?? null;
+    const checksum = header["checksum"] ?? null;
+
+    let meta: ParsedPromptSection | null = null;
+    const checksumLines: string[] = [];
+    const elements: ParsedPromptElement[] = [];
+    let closed = false;
+    let footerMatches = true;
+
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos]!;
+      const footer = SESSION_END.exec(line);
+      if (footer) {
+        const attrs = parseAttributes(footer[1]!);
+        footerMatches = attrs["id"] === sessionId && attrs["checksum"] === checksum;
+        closed = true;
+        this.pos += 1;
+        break;
+      }
+      if (line === "[section:meta]" && meta === null) {
+        const read = this.readSection("session", false);
+        if (read) {
+          meta = read.section;
+          checksumLines.push(...read.checksumLines);
+        }
+        continue;
+      }
+      if (SELECTION_START.test(line)) {
+        const element = this.readElement(`element:${elements.length}`);
+        checksumLines.push(
+          sessionElementChecksumLine(elements.length, element.selectionId, element.checksum)
+        );
+        elements.push(element);
+        continue;
+      }
+      if (SESSION_START.test(line)) break;
+      // `[section:elements]`, `[element:i]` and their end markers carry no data.
+      this.pos += 1;
+    }
+
+    const issues = this.issues;
+    const computedChecksum = checksumPromptLines(checksumLines);
+    const states = elements.map((element) => element.integrity);
+
+    if (!closed) {
+      states.push("truncated");
+      issues.push({
+        kind: "truncated",
+        location: "session",
+        message: `Session ${sessionId ?? ""} has no closing tag`,
+      });
+    } else if (meta === null || !meta.complete) {
+      states.push("truncated");
+    } else if (computedChecksum !== checksum || !footerMatches) {
+      states.push("tampered");
+      issues.push({
+        kind: "tampered",
+        location: "session",
+        message: `Session checksum ${checksum ?? ""} does not match content (${computedChecksum})`,
+      });
+    }
+
+    const declaredCount = meta?.entries.find((entry) => entry.key === "element_count")?.value;
+    if (typeof declaredCount === "number" && declaredCount !== elements.length) {
+      states.push(elements.length < declaredCount ? "truncated" : "tampered");
+      issues.push({
+        kind: elements.length < declaredCount ? "truncated" : "tampered",
+        location: "session",
+        message: `Expected ${declaredCount} elements, found ${elements.length}`,
+      });
+    }
+
+    return {
+      sessionId,
+      checksum,
+      computedChecksum,
+      integrity: combineIntegrity(states),
+      meta,
+      elements,
+      issues,
+    };
+  }
+}
+
+/**
+ * Read a grabr-v2 prompt back out of `text` (a paste, a chat transcript…)
+ * and verify its checksums.
+ *
+ * The first `<ai_grab_session>` block is parsed; without one, any bare
+ * `<ai_grab_selection>` blocks are returned under a null session id.
+ * Returns null when the text contains neither.
+ */
+export function parseSessionPrompt(text: string): ParsedSessionPrompt | null {
+  const sessionParser = new PromptTextParser(text);
+  if (sessionParser.seek(SESSION_START)) {
+    return sessionParser.readSession();
+  }
+
+  const parser = new PromptTextParser(text);
+  const elements: ParsedPromptElement[] = [];
+  while (parser.seek(SELECTION_START)) {
+    elements.push(parser.readElement(`element:${elements.length}`));
+  }
+  if (elements.length === 0) {
+    return null;
+  }
+  return {
+    sessionId: null,
+    checksum: null,
+    computedChecksum: null,
+    integrity: combineIntegrity(elements.map((element) => element.integrity)),
+    meta: null,
+    elements,
+    issues: parser.issues,
+  };
+}
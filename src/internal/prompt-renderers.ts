@@ -0,0 +1,296 @@
+import type {
+  ElementPromptDocument,
+  PromptEntry,
+  PromptRenderer,
+  PromptRendererRegistry,
+  PromptSection,
+  SerializableValue,
+  SessionPromptDocument,
+} from "./schema";
+
+import { formatPromptEntryLine, sectionEndLine, sectionStartLine } from "./prompt-checksum";
+
+// ---------------------------------------------------------------------------
+// grabr-v2: `[section:x]` blocks of `key=json` lines
+// ---------------------------------------------------------------------------
+
+function renderGrabrV2Section(section: PromptSection, lines: string[]): void {
+  lines.push(sectionStartLine(section.name));
+  for (const entry of section.entries) {
+    lines.push(formatPromptEntryLine(entry));
+  }
+  lines.push(sectionEndLine(section.name));
+}
+
+function renderGrabrV2Element(document: ElementPromptDocument): string {
+  const lines: string[] = [];
+  lines.push(
+    `<ai_grab_selection v="2" sel_id="${document.selectionId}" checksum="${document.checksum}">`
+  );
+  for (const section of document.sections) {
+    renderGrabrV2Section(section, lines);
+  }
+  lines.push(
+    `<ai_grab_selection_end sel_id="${document.selectionId}" checksum="${document.checksum}"/>`
+  );
+  return lines.join("\n");
+}
+
+export const grabrV2PromptRenderer: PromptRenderer = {
+  id: "grabr-v2",
+  label: "grabr v2 (sections + key=json)",
+
+  renderElement: renderGrabrV2Element,
+
+  renderSession(document: SessionPromptDocument): string {
+    const lines: string[] = [];
+    lines.push(`<ai_grab_session id="${document.sessionId}" checksum="${document.checksum}">`);
+    renderGrabrV2Section(document.meta, lines);
+    lines.push("[section:elements]");
+    document.elements.forEach((element, idx) => {
+      lines.push(`[element:${idx}]`);
+      lines.push(renderGrabrV2Element(element));
+      lines.push(`[end:element:${idx}]`);
+    });
+    lines.push("[end:elements]");
+    lines.push(`<ai_grab_session_end id="${document.sessionId}" checksum="${document.checksum}"/>`);
+    return lines.join("\n");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Markdown: headings per section, one bullet per entry
+// ---------------------------------------------------------------------------
+
+const MAX_INLINE_MARKDOWN_VALUE = 120;
+
+function formatMarkdownEntry(entry: PromptEntry): string[] {
+  const text =
+    typeof entry.value === "string" ? entry.value : JSON.stringify(entry.value);
+  if (
+    text.length <= MAX_INLINE_MARKDOWN_VALUE &&
+    !text.includes("`") &&
+    !text.includes("\n")
+  ) {
+    return [`- **${entry.key}**: \`${text}\``];
+  }
+  const longestFence = Math.max(
+    2,
+    ...Array.from(text.matchAll(/`+/g), (match) => match[0].length)
+  );
+  const fence = "`".repeat(longestFence + 1);
+  const language = typeof entry.value === "string" ? "text" : "json";
+  return [
+    `- **${entry.key}**:`,
+    `  ${fence}${language}`,
+    ...text.split("\n").map((line) => `  ${line}`),
+    `  ${fence}`,
+  ];
+}
+
+function renderMarkdownSections(
+  sections: readonly PromptSection[],
+  headingLevel: number,
+  lines: string[]
+): void {
+  const heading = "#".repeat(headingLevel);
+  for (const section of sections) {
+    if (section.entries.length === 0) continue;
+    lines.push("", `${heading} ${section.name}`, "");
+    for (const entry of section.entries) {
+      lines.push(...formatMarkdownEntry(entry));
+    }
+  }
+}
+
+function renderMarkdownElement(
+  document: ElementPromptDocument,
+  title: string,
+  headingLevel: number,
+  lines: string[]
+): void {
+  lines.push(`${"#".repeat(headingLevel)} ${title}`);
+  lines.push("", `sel_id \`${document.selectionId}\` · checksum \`${document.checksum}\``);
+  renderMarkdownSections(document.sections, headingLevel + 1, lines);
+}
+
+export const markdownPromptRenderer: PromptRenderer = {
+  id: "markdown",
+  label: "Markdown",
+
+  renderElement(document: ElementPromptDocument): string {
+    const lines: string[] = [];
+    renderMarkdownElement(document, "grabr selection", 1, lines);
+    return lines.join("\n");
+  },
+
+  renderSession(document: SessionPromptDocument): string {
+    const lines: string[] = [];
+    lines.push("# grabr session");
+    lines.push("", `id \`${document.sessionId}\` · checksum \`${document.checksum}\``);
+    renderMarkdownSections([document.meta], 2, lines);
+    document.elements.forEach((element, idx) => {
+      lines.push("");
+      renderMarkdownElement(
+        element,
+        `Element ${idx + 1} of ${document.elements.length}`,
+        2,
+        lines
+      );
+    });
+    return lines.join("\n");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// XML: one tag per section and entry; values are text (strings) or JSON
+// ---------------------------------------------------------------------------
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function toXmlName(name: string): string {
+  const cleaned = name.replace(/[^A-Za-z0-9_.-]/g, "_");
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `_${cleaned}`;
+}
+
+function renderXmlSections(
+  sections: readonly PromptSection[],
+  indent: string,
+  lines: string[]
+): void {
+  for (const section of sections) {
+    const sectionTag = toXmlName(section.name);
+    lines.push(`${indent}<${sectionTag}>`);
+    for (const entry of section.entries) {
+      const tag = toXmlName(entry.key);
+      const text =
+        typeof entry.value === "string" ? entry.value : JSON.stringify(entry.value);
+      lines.push(`${indent}  <${tag}>${escapeXml(text)}</${tag}>`);
+    }
+    lines.push(`${indent}</${sectionTag}>`);
+  }
+}
+
+function renderXmlElement(
+  document: ElementPromptDocument,
+  tag: string,
+  extraAttributes: string,
+  indent: string,
+  lines: string[]
+): void {
+  lines.push(
+    `${indent}<${tag}${extraAttributes} sel_id="${escapeXml(
+      document.selectionId
+    )}" checksum="${escapeXml(document.checksum)}">`
+  );
+  renderXmlSections(document.sections, `${indent}  `, lines);
+  lines.push(`${indent}</${tag}>`);
+}
+
+export const xmlPromptRenderer: PromptRenderer = {
+  id: "xml",
+  label: "XML",
+
+  renderElement(document: ElementPromptDocument): string {
+    const lines: string[] = [];
+    renderXmlElement(document, "grabr_selection", "", "", lines);
+    return lines.join("\n");
+  },
+
+  renderSession(document: SessionPromptDocument): string {
+    const lines: string[] = [];
+    lines.push(
+      `<grabr_session id="${escapeXml(document.sessionId)}" checksum="${escapeXml(
+        document.checksum
+      )}">`
+    );
+    renderXmlSections([document.meta], "  ", lines);
+    document.elements.forEach((element, idx) => {
+      renderXmlElement(element, "element", ` index="${idx}"`, "  ", lines);
+    });
+    lines.push("</grabr_session>");
+    return lines.join("\n");
+  },
+};
+
+// ---------------------------------------------------------------------------
+// JSON: compact, machine-oriented
+// ---------------------------------------------------------------------------
+
+function sectionToJson(section: PromptSection): { [key: string]: SerializableValue } {
+  const entries: { [key: string]: SerializableValue } = {};
+  for (const entry of section.entries) {
+    entries[entry.key] = entry.value;
+  }
+  return entries;
+}
+
+function elementToJson(document: ElementPromptDocument): SerializableValue {
+  return {
+    sel_id: document.selectionId,
+    checksum: document.checksum,
+    sections: Object.fromEntries(
+      document.sections.map((section) => [section.name, sectionToJson(section)])
+    ),
+  };
+}
+
+export const jsonPromptRenderer: PromptRenderer = {
+  id: "json",
+  label: "JSON (compact)",
+
+  renderElement(document: ElementPromptDocument): string {
+    return JSON.stringify(elementToJson(document));
+  },
+
+  renderSession(document: SessionPromptDocument): string {
+    return JSON.stringify({
+      format: "grabr-json",
+      id: document.sessionId,
+      checksum: document.checksum,
+      meta: sectionToJson(document.meta),
+      elements: document.elements.map((element) => elementToJson(element)),
+    });
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export const builtinPromptRenderers: readonly PromptRenderer[] = [
+  grabrV2PromptRenderer,
+  markdownPromptRenderer,
+  xmlPromptRenderer,
+  jsonPromptRenderer,
+];
+
+/**
+ * Registry of the built-in renderers plus `renderers`; a custom renderer with
+ * a built-in id replaces the built-in one.
+ */
+export function createPromptRendererRegistry(
+  renderers: readonly PromptRenderer[] = []
+): PromptRendererRegistry {
+  const byId = new Map<string, PromptRenderer>();
+  for (const renderer of [...builtinPromptRenderers, ...renderers]) {
+    byId.set(renderer.id, renderer);
+  }
+  return {
+    get(id: string): PromptRenderer | null {
+      return byId.get(id) ?? null;
+    },
+    list(): readonly PromptRenderer[] {
+      return Array.from(byId.values());
+    },
+  };
+}
+
+export const defaultPromptRendererRegistry: PromptRendererRegistry =
+  createPromptRendererRegistry();
@@ -1,25 +1,39 @@
 import type {
   ContextSnapshot,
+  CustomPropertyValue,
+  UtilityClass,
+  DomNeighborhood,
   ElementContextV2,
+  ElementPromptDocument,
   EventHandlerInfo,
+  FormFieldInfo,
   GrabrSession,
+  MatchedRuleSummary,
+  PromptEntry,
+  PromptBudget,
+  PromptFormat,
+  PromptPriority,
+  PromptRenderer,
+  PromptRendererRegistry,
+  PromptSection,
   PropsSnapshot,
   ReactTreeSlice,
+  SerializableValue,
+  SessionPromptDocument,
+  StackingContextInfo,
   SourceLocation,
   StateSnapshot,
   ReactDebugInfo,
 } from "./schema";
 
-function promptChecksum(input: string): string {
-  let hash = 0;
-  for (let i = 0; i < input.length; i += 1) {
-    hash = (hash << 5) - hash + input.charCodeAt(i);
-    hash |= 0;
-  }
-  return Math.abs(hash >>> 0).toString(16);
-}
+import { applyPromptBudgetToElement, applyPromptBudgetToSession } from "./prompt-budget";
+import {
+  sealElementPromptDocument,
+  sealSessionPromptDocument,
+} from "./prompt-checksum";
+import { defaultPromptRendererRegistry, grabrV2PromptRenderer } from "./prompt-renderers";
 
-function stringifyForPrompt(value: unknown, dropNull: boolean): string {
+function stringifyForPrompt(value: unknown, dropNull: boolean): string | undefined {
   return JSON.stringify(
     value,
     (_key, val) => {
@@ -34,24 +48,50 @@ function stringifyForPrompt(value: unknown, dropNull: boolean): string {
   );
 }
 
-function maybeAddLine(
-  lines: string[],
-  key: string,
-  value: unknown,
-  options?: { dropNull?: boolean; allowEmpty?: boolean }
-): void {
-  const dropNull = options?.dropNull ?? true;
-  const allowEmpty = options?.allowEmpty ?? false;
-  if (value === null || value === undefined) {
-    if (dropNull) {
+type EntryOptions = { dropNull?: boolean; allowEmpty?: boolean; priority?: PromptPriority };
+
+// Collects the `key=value` entries of one prompt section. Values are
+// normalized through JSON here so every renderer sees identical data.
+class SectionBuilder {
+  readonly entries: PromptEntry[] = [];
+  private readonly priority: PromptPriority;
+
+  constructor(priority: PromptPriority) {
+    this.priority = priority;
+  }
+
+  add(key: string, value: unknown, options?: EntryOptions): void {
+    const dropNull = options?.dropNull ?? true;
+    const allowEmpty = options?.allowEmpty ?? false;
+    if (value === null || value === undefined) {
+      if (dropNull) {
+        return;
+      }
+    }
+    const serialized = stringifyForPrompt(value, dropNull);
+    if (serialized === undefined) {
       return;
     }
+    if (!allowEmpty && (serialized === "{}" || serialized === "[]")) {
+      return;
+    }
+    this.entries.push({
+      key,
+      value: JSON.parse(serialized) as SerializableValue,
+      priority: options?.priority ?? this.priority,
+    });
   }
-  const serialized = stringifyForPrompt(value, dropNull);
-  if (!allowEmpty && (serialized === "{}" || serialized === "[]")) {
-    return;
-  }
-  lines.push(`${key}=${serialized}`);
+}
+
+// `priority` applies to every entry that does not set its own.
+function buildSection(
+  name: string,
+  fn: (section: SectionBuilder) => void,
+  priority: PromptPriority = "medium"
+): PromptSection {
+  const builder = new SectionBuilder(priority);
+  fn(builder);
+  return { name, entries: builder.entries };
 }
 
 function formatSourceForPrompt(
@@ -74,18 +114,29 @@ function formatSourceForPrompt(
   return out;
 }
 
+// Derived from the fingerprint so re-capturing the same element (after a
+// scroll, resize or reload) keeps its sel_id.
 function deriveSelectionId(context: ElementContextV2): string {
-  const s = context.selection;
-  const parts = [
-    s.identity.id ?? "",
-    s.identity.dataTestId ?? "",
-    s.tag,
-    s.componentDisplayName ?? "",
-    s.nearestSource?.fileName ?? "",
-    Math.round(s.boundingBox.x).toString(),
-    Math.round(s.boundingBox.y).toString(),
-  ];
-  return `sel_${promptChecksum(parts.join("|"))}`;
+  return `sel_${context.selection.fingerprint.hash}`;
+}
+
+// `all` repeats `ranked`; match counts only matter for non-unique selectors.
+function formatSelectorsForPrompt(
+  selectors: DomNeighborhood["selectors"]
+): Record<string, unknown> {
+  if (selectors.ranked.length === 0) {
+    return { preferred: selectors.preferred, all: selectors.all };
+  }
+  return {
+    preferred: selectors.preferred,
+    ranked: selectors.ranked.map((candidate) => ({
+      selector: candidate.selector,
+      strategy: candidate.strategy,
+      unique: candidate.unique,
+      score: candidate.score,
+      ...(candidate.unique ? {} : { matches: candidate.matchCount }),
+    })),
+  };
 }
 
 function formatReactStack(
@@ -106,6 +157,35 @@ function formatReactStack(
   });
 }
 
+// Ancestors above the owner; the owner's own snapshot is in owner_*.
+function formatFrameSnapshots(react: ReactTreeSlice): Array<Record<string, unknown>> {
+  return react.stack.flatMap((frame, idx) =>
+    frame.snapshot && idx !== react.ownerIndex
+      ? [
+          {
+            idx,
+            displayName: frame.displayName,
+            props: formatPropsSnapshot(frame.snapshot.props),
+            state: formatStateSnapshot(frame.snapshot.state),
+            contexts: formatContextSnapshot(frame.snapshot.contexts),
+          },
+        ]
+      : []
+  );
+}
+
+// `items: CartList@2 prop items → CartPage@4 state[0]`, nearest first.
+function formatPropLineage(react: ReactTreeSlice): Record<string, string> {
+  return Object.fromEntries(
+    react.propLineage.map((lineage) => [
+      lineage.prop,
+      lineage.steps
+        .map((step) => `${step.displayName ?? "<anonymous>"}@${step.frameIndex} ${step.via} ${step.name}`)
+        .join(" → "),
+    ])
+  );
+}
+
 function formatPropsSnapshot(
   snapshot: PropsSnapshot | null
 ): Record<string, unknown> | null {
@@ -118,7 +198,9 @@ function formatPropsSnapshot(
       name: h.name,
       reason: h.reason,
       value: h.value,
+      ...(h.truncated ? { truncated: true } : {}),
     })),
+    ...(snapshot.omitted.length > 0 ? { omitted: snapshot.omitted } : {}),
   };
 }
 
@@ -130,7 +212,12 @@ function formatStateSnapshot(
   }
   return {
     total: snapshot.totalHooks,
-    entries: snapshot.entries,
+    // `useCart > useLocalStorage > useState`; class state reads `class-state`.
+    entries: snapshot.entries.map((entry) => ({
+      index: entry.hookIndex,
+      hook: [...entry.customHookPath, entry.name ?? entry.kind].join(" > "),
+      value: entry.value,
+    })),
   };
 }
 
@@ -142,7 +229,17 @@ function formatContextSnapshot(
   }
   return {
     total: snapshot.totalContexts,
-    entries: snapshot.entries,
+    entries: snapshot.entries.map((entry) => ({
+      index: entry.index,
+      context: entry.displayName,
+      provided_by: entry.isDefault
+        ? "default value (no provider)"
+        : entry.provider && {
+            component: entry.provider.componentName,
+            source: formatSourceForPrompt(entry.provider.source),
+          },
+      value: entry.value,
+    })),
   };
 }
 
@@ -159,12 +256,72 @@ function formatBehaviorHandlers(
   }));
 }
 
-export function renderElementContextPrompt(
+// Flags only when set; `valid` is implied by an empty `validity`.
+function formatFormFieldForPrompt(field: FormFieldInfo): Record<string, unknown> {
+  return {
+    selector: field.selector,
+    type: field.type,
+    name: field.name,
+    label: field.label,
+    value: field.value,
+    checked: field.checked,
+    required: field.required || null,
+    disabled: field.disabled || null,
+    readonly: field.readOnly || null,
+    invalid: field.validity.length > 0 ? field.validity : null,
+    message: field.validationMessage,
+  };
+}
+
+// `["div.modal z=50 (position: fixed)", …]`, innermost first.
+function formatStackingContextsForPrompt(
+  contexts: readonly StackingContextInfo[]
+): string[] {
+  return contexts.map((c) => `${c.selector} z=${c.zIndex} (${c.reason})`);
+}
+
+// `{ "p-4": ["padding-top", …] }`, only for classes that currently win.
+function formatUtilitySettersForPrompt(
+  utilities: readonly UtilityClass[]
+): Record<string, readonly string[]> {
+  return Object.fromEntries(
+    utilities.filter((u) => u.sets.length > 0).map((u) => [u.className, u.sets])
+  );
+}
+
+// `{ "--brand-500": "#3b82f6 (brand-500)" }`: the token, when known, follows the value.
+function formatVariablesForPrompt(
+  variables: readonly CustomPropertyValue[]
+): Record<string, string> {
+  return Object.fromEntries(
+    variables.map((v) => [v.name, v.token === null ? v.value : `${v.value} (${v.token})`])
+  );
+}
+
+function formatRuleSummariesForPrompt(
+  rules: readonly MatchedRuleSummary[]
+): Record<string, unknown>[] {
+  return rules.map((rule) => ({
+    selector: rule.selector,
+    origin: rule.origin,
+    specificity: rule.specificity,
+    important: rule.importantCount > 0 ? rule.importantCount : null,
+    file: rule.href,
+    line: rule.line,
+    conditions: rule.conditions.length > 0 ? rule.conditions : null,
+    layer: rule.layer,
+    wins: rule.wins,
+  }));
+}
+
+/**
+ * Build the renderer-neutral prompt document for one element: named sections
+ * of `key → JSON value` entries, in prompt order.
+ */
+export function buildElementPromptDocument(
   context: ElementContextV2
-): string {
+): ElementPromptDocument {
   const selectionId = deriveSelectionId(context);
-  const checksum = promptChecksum(stringifyForPrompt(context, false));
-  const lines: string[] = [];
   const s = context.selection;
   const dom = context.dom;
   const react = context.react;
@@ -177,192 +334,394 @@ export function renderElementContextPrompt(
       message: "React debug info unavailable.",
     };
 
-  const section = (name: string, fn: () => void) => {
-    lines.push(`[section:${name}]`);
-    fn();
-    lines.push(`[end:${name}]`);
-  };
+  const sections: PromptSection[] = [];
 
-  lines.push(`<ai_grab_selection v="2" sel_id="${selectionId}" checksum="${checksum}">`);
-
-  section("meta", () => {
-    maybeAddLine(lines, "version", 2, { dropNull: false });
-    maybeAddLine(lines, "sel_id", selectionId, { dropNull: false });
-    maybeAddLine(lines, "checksum", checksum, { dropNull: false });
-    maybeAddLine(lines, "react_available", react !== null);
-    maybeAddLine(lines, "react_inspector_status", reactDebug.inspectorStatus);
-    maybeAddLine(lines, "react_build", reactDebug.buildType);
-    maybeAddLine(lines, "react_message", reactDebug.message, { dropNull: true });
-    maybeAddLine(
-      lines,
-      "source_hint_present",
-      s.nearestSource !== null
-    );
-    maybeAddLine(
-      lines,
-      "tests_present",
-      Boolean(context.tests && context.tests.hints.length > 0)
-    );
-  });
+  sections.push(
+    buildSection("meta", (section) => {
+      section.add("version", 2, { dropNull: false });
+      section.add("sel_id", selectionId, { dropNull: false });
+      // Filled in by `sealElementPromptDocument`.
+      section.add("checksum", "", { dropNull: false });
+      section.add("instance_id", s.instanceId, { dropNull: false });
+      section.add("react_available", react !== null);
+      section.add("react_inspector_status", reactDebug.inspectorStatus);
+      section.add("react_build", reactDebug.buildType);
+      section.add("react_message", reactDebug.message, { dropNull: true });
+      section.add("source_hint_present", s.nearestSource !== null);
+      section.add(
+        "tests_present",
+        Boolean(context.tests && context.tests.hints.length > 0)
+      );
+      if (context.redaction) {
+        section.add("redacted_values", context.redaction.total, { dropNull: false });
+        section.add("redaction_reasons", context.redaction.byReason);
+      }
+    }, "required")
+  );
 
-  section("selection", () => {
-    maybeAddLine(lines, "tag", s.tag, { dropNull: false });
-    maybeAddLine(
-      lines,
-      "bounding_box",
-      {
-        x: Math.round(s.boundingBox.x),
-        y: Math.round(s.boundingBox.y),
-        w: Math.round(s.boundingBox.width),
-        h: Math.round(s.boundingBox.height),
-      },
-      { dropNull: false }
-    );
-    maybeAddLine(
-      lines,
-      "identity",
-      {
-        id: s.identity.id,
-        dataTestId: s.identity.dataTestId,
-        role: s.identity.role,
-        classes: s.identity.classes,
-      },
-      { dropNull: false }
+  sections.push(
+    buildSection("selection", (section) => {
+      section.add("tag", s.tag, { dropNull: false });
+      section.add(
+        "bounding_box",
+        {
+          x: Math.round(s.boundingBox.x),
+          y: Math.round(s.boundingBox.y),
+          w: Math.round(s.boundingBox.width),
+          h: Math.round(s.boundingBox.height),
+        },
+        { dropNull: false }
+      );
+      section.add(
+        "identity",
+        {
+          id: s.identity.id,
+          dataTestId: s.identity.dataTestId,
+          role: s.identity.role,
+          classes: s.identity.classes,
+        },
+        { dropNull: false }
+      );
+      section.add("accessible_name", s.fingerprint.parts.accessibleName);
+      section.add("component", s.componentDisplayName, { dropNull: true });
+      section.add("nearest_source", formatSourceForPrompt(s.nearestSource));
+      section.add("is_server_component", s.isLikelyServerComponent);
+    }, "required")
+  );
+
+  const component = context.component;
+  if (component) {
+    sections.push(
+      buildSection(
+        "component",
+        (section) => {
+          section.add("name", component.displayName, { dropNull: false });
+          section.add("source", formatSourceForPrompt(component.source));
+          section.add("bounding_box", {
+            x: Math.round(component.boundingBox.x),
+            y: Math.round(component.boundingBox.y),
+            w: Math.round(component.boundingBox.width),
+            h: Math.round(component.boundingBox.height),
+          });
+          section.add("host_elements", component.totalHostElements);
+          section.add("host_selectors", component.hostSelectors);
+          section.add(
+            "note",
+            "A whole component was selected: the selection box and sel_id cover all of it; " +
+              "dom, styling, layout and the other DOM sections describe its first host element."
+          );
+        },
+        "high"
+      )
     );
-    maybeAddLine(lines, "component", s.componentDisplayName, { dropNull: true });
-    maybeAddLine(lines, "nearest_source", formatSourceForPrompt(s.nearestSource));
-    maybeAddLine(lines, "is_server_component", s.isLikelyServerComponent);
-  });
+  }
 
-  section("dom", () => {
-    maybeAddLine(lines, "snippet", dom.snippet, { dropNull: false });
-    maybeAddLine(lines, "parents", dom.parents);
-    maybeAddLine(lines, "siblings", dom.siblings);
-    maybeAddLine(lines, "children", dom.children);
-    maybeAddLine(lines, "selectors", dom.selectors);
-  });
+  sections.push(
+    buildSection("dom", (section) => {
+      section.add("snippet", dom.snippet, { dropNull: false, priority: "high" });
+      section.add("parents", dom.parents);
+      section.add("shadow_hosts", dom.shadowHostChain);
+      section.add("frames", dom.frameChain, { priority: "high" });
+      section.add("siblings", dom.siblings, { priority: "low" });
+      section.add("children", dom.children, { priority: "low" });
+      section.add("selectors", formatSelectorsForPrompt(dom.selectors), { priority: "high" });
+    })
+  );
 
-  section("react", () => {
-    maybeAddLine(
-      lines,
-      "status",
-      {
-        available: react !== null,
-        inspectorStatus: reactDebug.inspectorStatus,
-        build: reactDebug.buildType,
-        message: reactDebug.message,
-      },
-      { dropNull: true }
-    );
-    if (react !== null) {
-      maybeAddLine(lines, "owner_index", react.ownerIndex, { dropNull: false });
-      maybeAddLine(lines, "stack", formatReactStack(react), { allowEmpty: true });
-      maybeAddLine(lines, "owner_props", formatPropsSnapshot(react.ownerProps), {
-        allowEmpty: true,
-      });
-      maybeAddLine(lines, "owner_state", formatStateSnapshot(react.ownerState), {
-        allowEmpty: true,
-      });
-      maybeAddLine(
-        lines,
-        "owner_contexts",
-        formatContextSnapshot(react.ownerContexts),
-        { allowEmpty: true }
+  const visibility = context.visibility;
+  sections.push(
+    buildSection("visibility", (section) => {
+      section.add("verdict", visibility.verdict, { dropNull: false, priority: "high" });
+      section.add("reasons", visibility.reasons, { priority: "high" });
+      section.add("viewport", visibility.viewport);
+      section.add("visible_ratio", visibility.visibleRatio);
+      section.add("occlusion", visibility.occlusion, { priority: "low" });
+      section.add("opacity", visibility.opacity === 1 ? null : visibility.opacity);
+      section.add("visibility", visibility.visibility === "visible" ? null : visibility.visibility);
+    })
+  );
+
+  const a11y = context.accessibility;
+  sections.push(
+    buildSection("accessibility", (section) => {
+      section.add("role", a11y.role, { priority: "high" });
+      section.add("role_source", a11y.roleSource);
+      section.add("name", a11y.name, { dropNull: false, priority: "high" });
+      section.add("name_source", a11y.nameSource);
+      section.add("description", a11y.description);
+      section.add("states", a11y.states, { priority: "high" });
+      section.add("labels", a11y.labels);
+      section.add("focus", a11y.focus);
+      section.add("hidden", a11y.hidden);
+      section.add("tree", a11y.tree, { priority: "low" });
+    })
+  );
+
+  sections.push(
+    buildSection("react", (section) => {
+      section.add(
+        "status",
+        {
+          available: react !== null,
+          inspectorStatus: reactDebug.inspectorStatus,
+          build: reactDebug.buildType,
+          message: reactDebug.message,
+        },
+        { dropNull: true, priority: "high" }
       );
-    }
-  });
+      if (react !== null) {
+        section.add("owner_index", react.ownerIndex, { dropNull: false, priority: "high" });
+        section.add("stack", formatReactStack(react), { allowEmpty: true });
+        section.add("owner_props", formatPropsSnapshot(react.ownerProps), {
+          allowEmpty: true,
+        });
+        section.add("owner_state", formatStateSnapshot(react.ownerState), {
+          allowEmpty: true,
+          priority: "low",
+        });
+        section.add("owner_contexts", formatContextSnapshot(react.ownerContexts), {
+          allowEmpty: true,
+          priority: "low",
+        });
+        section.add("prop_lineage", formatPropLineage(react));
+        section.add("frame_snapshots", formatFrameSnapshots(react), { priority: "low" });
+      }
+    })
+  );
 
-  section("styling", () => {
-    maybeAddLine(lines, "layout", style.layout, { dropNull: true, allowEmpty: false });
-    maybeAddLine(lines, "spacing", style.spacing, { dropNull: true, allowEmpty: false });
-    maybeAddLine(lines, "size", style.size, { dropNull: true, allowEmpty: false });
-    maybeAddLine(lines, "typography", style.typography, {
-      dropNull: true,
-      allowEmpty: false,
-    });
-    maybeAddLine(lines, "colors", style.colors, { dropNull: true, allowEmpty: false });
-    maybeAddLine(lines, "clickable", style.clickable, { dropNull: false });
-  });
+  sections.push(
+    buildSection("styling", (section) => {
+      if (style.computedDiff) {
+        // Every non-default value, already including the sampled groups.
+        section.add("size", style.size, { dropNull: true, allowEmpty: false });
+        section.add("computed", style.computedDiff.groups);
+        section.add("computed_total", style.computedDiff.total);
+      } else {
+        section.add("layout", style.layout, { dropNull: true, allowEmpty: false });
+        section.add("spacing", style.spacing, { dropNull: true, allowEmpty: false });
+        section.add("size", style.size, { dropNull: true, allowEmpty: false });
+        section.add("typography", style.typography, {
+          dropNull: true,
+          allowEmpty: false,
+        });
+        section.add("colors", style.colors, { dropNull: true, allowEmpty: false });
+      }
+      section.add("clickable", style.clickable, { dropNull: false, priority: "high" });
+      if (style.utilityClasses) {
+        const utilities = style.utilityClasses;
+        section.add("utility_framework", utilities.framework, { priority: "high" });
+        section.add("class", utilities.classAttribute, { priority: "high" });
+        section.add("utility_groups", utilities.groups);
+        section.add("utility_sets", formatUtilitySettersForPrompt(utilities.utilities));
+        section.add("utility_variants", utilities.variants, { priority: "low" });
+      }
+      section.add("rules", formatRuleSummariesForPrompt(style.ruleSummaries ?? []));
+      if (style.tokens) {
+        section.add("token_matches", style.tokens.tokenMatches, { priority: "high" });
+        section.add(
+          "variable_refs",
+          style.tokens.references.map((ref) => ({
+            property: ref.property,
+            declaration: ref.declaration,
+            resolved: ref.resolved,
+          }))
+        );
+        section.add("variables", formatVariablesForPrompt(style.tokens.variables), {
+          priority: "low",
+        });
+      }
+    })
+  );
 
-  section("behavior", () => {
-    maybeAddLine(lines, "inference_level", context.behavior.inferenceLevel, {
-      dropNull: false,
-    });
-    maybeAddLine(lines, "handlers", formatBehaviorHandlers(context.behavior.handlers), {
-      allowEmpty: true,
-    });
-  });
+  const layout = context.layout;
+  sections.push(
+    buildSection("layout", (section) => {
+      section.add("parent", layout.parent, { priority: "high" });
+      section.add("containing_block", layout.containingBlock, { priority: "high" });
+      section.add("scroll_container", layout.scrollContainer);
+      section.add("clipping", layout.clippingAncestors);
+      section.add("stacking", formatStackingContextsForPrompt(layout.stackingContexts));
+    })
+  );
 
-  section("app", () => {
-    maybeAddLine(
-      lines,
-      "url",
-      {
-        full: app.url,
-        pathname: app.pathname,
-        search: app.search,
-        hash: app.hash,
-      },
-      { dropNull: true }
-    );
-    maybeAddLine(
-      lines,
-      "routing",
-      {
-        framework: app.framework,
-        routePatternGuess: app.routePatternGuess,
-        routeParamsGuess: app.routeParamsGuess,
-        pageComponent: formatSourceForPrompt(app.pageComponent),
-        layoutComponents: app.layoutComponents.map((loc) => formatSourceForPrompt(loc)),
-      },
-      { dropNull: true, allowEmpty: true }
+  sections.push(
+    buildSection("behavior", (section) => {
+      section.add("inference_level", context.behavior.inferenceLevel, {
+        dropNull: false,
+        priority: "high",
+      });
+      section.add("handlers", formatBehaviorHandlers(context.behavior.handlers), {
+        allowEmpty: true,
+      });
+    })
+  );
+
+  const form = context.form;
+  if (form) {
+    sections.push(
+      buildSection("form", (section) => {
+        section.add("form", form.form, { priority: "high" });
+        section.add("field", form.field ? formatFormFieldForPrompt(form.field) : null, {
+          priority: "high",
+        });
+        section.add("fields", form.fields.map(formatFormFieldForPrompt));
+        section.add("total_fields", form.totalFields, { priority: "low" });
+        section.add("library", form.library, { priority: "high" });
+      })
     );
-    maybeAddLine(lines, "data_sources", app.dataSources, { allowEmpty: true });
-  });
+  }
+
+  sections.push(
+    buildSection("app", (section) => {
+      section.add(
+        "url",
+        {
+          full: app.url,
+          pathname: app.pathname,
+          search: app.search,
+          hash: app.hash,
+        },
+        { dropNull: true, priority: "high" }
+      );
+      section.add(
+        "routing",
+        {
+          framework: app.framework,
+          routePatternGuess: app.routePatternGuess,
+          routeParamsGuess: app.routeParamsGuess,
+          pageComponent: formatSourceForPrompt(app.pageComponent),
+          layoutComponents: app.layoutComponents.map((loc) => formatSourceForPrompt(loc)),
+        },
+        { dropNull: true, allowEmpty: true }
+      );
+      section.add("data_sources", app.dataSources, { allowEmpty: true, priority: "low" });
+    })
+  );
 
   if (context.tests) {
-    section("tests", () => {
-      maybeAddLine(lines, "hints", context.tests?.hints ?? [], { allowEmpty: true });
-    });
+    sections.push(
+      buildSection("tests", (section) => {
+        section.add("hints", context.tests?.hints ?? [], { allowEmpty: true });
+      }, "low")
+    );
   }
 
-  lines.push(`<ai_grab_selection_end sel_id="${selectionId}" checksum="${checksum}"/>`);
-  return lines.join("\n");
+  return sealElementPromptDocument(selectionId, sections);
 }
 
-export function renderSessionPrompt(session: GrabrSession): string {
-  const checksum = promptChecksum(stringifyForPrompt(session, false));
-  const lines: string[] = [];
-  lines.push(`<ai_grab_session id="${session.id}" checksum="${checksum}">`);
-  const section = (name: string, fn: () => void) => {
-    lines.push(`[section:${name}]`);
-    fn();
-    lines.push(`[end:${name}]`);
-  };
-
-  section("meta", () => {
-    maybeAddLine(lines, "created_at", session.createdAt, { dropNull: false });
-    maybeAddLine(lines, "url", session.url, { dropNull: false });
-    maybeAddLine(lines, "instruction", session.userInstruction ?? "(none)", {
+/**
+ * Build the renderer-neutral prompt document for a whole session.
+ */
+export function buildSessionPromptDocument(session: GrabrSession): SessionPromptDocument {
+  const meta = buildSection("meta", (section) => {
+    section.add("created_at", session.createdAt, { dropNull: false });
+    section.add("url", session.url, { dropNull: false });
+    section.add("instruction", session.userInstruction ?? "(none)", {
       dropNull: false,
     });
-    maybeAddLine(
-      lines,
+    section.add(
       "summary",
       session.summary ?? `Session with ${session.elements.length} elements.`,
       { dropNull: false }
     );
-    maybeAddLine(lines, "element_count", session.elements.length, { dropNull: false });
-  });
+    section.add("element_count", session.elements.length, { dropNull: false });
+    if (session.screenshots) {
+      // The images travel next to the prompt (AgentSendOptions.screenshots).
+      section.add("screenshots_attached", session.screenshots.length, { dropNull: false });
+    }
+    if (session.redaction) {
+      section.add("redacted_values", session.redaction.total, { dropNull: false });
+      section.add("redaction_reasons", session.redaction.byReason);
+    }
+  }, "required");
 
-  section("elements", () => {
-    session.elements.forEach((ctx, idx) => {
-      lines.push(`[element:${idx}]`);
-      lines.push(renderElementContextPrompt(ctx));
-      lines.push(`[end:element:${idx}]`);
-    });
-  });
+  return sealSessionPromptDocument(
+    session.id,
+    meta,
+    session.elements.map((ctx) => buildElementPromptDocument(ctx))
+  );
+}
+
+// Render in the `grabr-v2` (`[section:x]` / `key=json`) format.
+export function renderElementContextPrompt(
+  context: ElementContextV2,
+  budget: PromptBudget | null = null
+): string {
+  return renderElementWith(grabrV2PromptRenderer, buildElementPromptDocument(context), budget);
+}
+
+// Render in the `grabr-v2` (`[section:x]` / `key=json`) format.
+export function renderSessionPrompt(
+  session: GrabrSession,
+  budget: PromptBudget | null = null
+): string {
+  return renderSessionWith(grabrV2PromptRenderer, buildSessionPromptDocument(session), budget);
+}
 
-  lines.push(`<ai_grab_session_end id="${session.id}" checksum="${checksum}"/>`);
-  return lines.join("\n");
+function renderSessionWith(
+  renderer: PromptRenderer,
+  document: SessionPromptDocument,
+  budget: PromptBudget | null
+): string {
+  const render = (doc: SessionPromptDocument) => renderer.renderSession(doc);
+  return render(budget ? applyPromptBudgetToSession(document, budget, render) : document);
+}
+
+function renderElementWith(
+  renderer: PromptRenderer,
+  document: ElementPromptDocument,
+  budget: PromptBudget | null
+): string {
+  const render = (doc: ElementPromptDocument) => renderer.renderElement(doc);
+  return render(budget ? applyPromptBudgetToElement(document, budget, render) : document);
+}
+
+function resolvePromptRenderer(
+  format: PromptFormat,
+  registry: PromptRendererRegistry
+): PromptRenderer {
+  const renderer = registry.get(format);
+  if (!renderer) {
+    throw new Error(
+      `Unknown prompt format "${format}". Available: ${registry
+        .list()
+        .map((r) => r.id)
+        .join(", ")}`
+    );
+  }
+  return renderer;
+}
+
+/**
+ * Render a session with the renderer registered for `format`
+ * (`grabr-v2`, `markdown`, `xml`, `json` or a custom id). With a `budget`,
+ * low-priority entries are shrunk or dropped until the output fits.
+ */
+export function renderSessionPromptAs(
+  session: GrabrSession,
+  format: PromptFormat,
+  registry: PromptRendererRegistry = defaultPromptRendererRegistry,
+  budget: PromptBudget | null = null
+): string {
+  return renderSessionWith(
+    resolvePromptRenderer(format, registry),
+    buildSessionPromptDocument(session),
+    budget
+  );
+}
+
+/**
+ * Render a single element context with the renderer registered for `format`.
+ */
+export function renderElementContextPromptAs(
+  context: ElementContextV2,
+  format: PromptFormat,
+  registry: PromptRendererRegistry = defaultPromptRendererRegistry,
+  budget: PromptBudget | null = null
+): string {
+  return renderElementWith(
+    resolvePromptRenderer(format, registry),
+    buildElementPromptDocument(context),
+    budget
+  );
 }
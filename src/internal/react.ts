@@ -19,14 +19,24 @@ import {
 import { getSource } from "bippy/source";
 
 import { isLayoutLikeFromPath } from "./heuristics";
-import { toSerializableValue } from "./serializable";
+import { buildPreferredSelector } from "./dom";
+import { isElementNode } from "./shadow";
+import { resolveSourceLocation } from "./source-maps";
+import { inspectFiberHooks } from "./hooks";
+import { hasTruncationMarker, summarizeReactChildren, toSerializableValue } from "./serializable";
 import type {
   BehaviorContext,
   BehaviorInferenceLevel,
+  BoundingBox,
   ComponentFlags,
+  ComponentSelectionInfo,
+  ComponentSnapshot,
   EventHandlerInfo,
   EventKind,
   PropHighlight,
+  PropLineage,
+  PropLineageStep,
+  PropNamePattern,
   PropsSnapshot,
   ReactBuildType,
   ReactComponentFrame,
@@ -38,7 +48,10 @@ import type {
   StateSnapshotEntry,
   ContextSnapshot,
   ContextEntry,
+  FormLibraryState,
   GrabrRuntimeConfig,
+  SerializableValue,
+  SerializationLimits,
 } from "./schema";
 
 type SourceLike = {
@@ -75,18 +88,39 @@ function toSourceLocation(
   };
 }
 
+// Through the page's source maps when `config.sourceMaps` is set.
+async function resolveFiberSource(
+  fiber: Fiber,
+  buildType: ReactBuildType,
+  config: GrabrRuntimeConfig
+): Promise<SourceLocation | null> {
+  try {
+    const location = toSourceLocation(await getSource(fiber), buildType);
+    return location && config.sourceMaps
+      ? await resolveSourceLocation(location, config.sourceMaps)
+      : location;
+  } catch {
+    return null;
+  }
+}
+
 function classifyPropHighlight(
   name: string,
   value: unknown
 ): PropHighlight["reason"] | null {
+  // Undefined props carry nothing.
+  if (value === undefined) {
+    return null;
+  }
+  // Shown by name; `on*` handlers are detailed in the behavior block too.
+  if (typeof value === "function") {
+    return "function";
+  }
   const lower = name.toLowerCase();
-  if (
-    lower === "label" ||
-    lower === "title" ||
-    lower === "placeholder" ||
-    lower === "text" ||
-    lower === "children"
-  ) {
+  if (lower === "children") {
+    return "children";
+  }
+  if (lower === "label" || lower === "title" || lower === "placeholder" || lower === "text") {
     return "text";
   }
   if (
@@ -136,9 +170,49 @@ function getAnyRenderer(): ReactRenderer | null {
   return first.done ? null : first.value;
 }
 
-function detectReactBuildTypeSafe(): ReactBuildType {
+type DevToolsHookLike = {
+  readonly renderers?: Map<unknown, ReactRenderer>;
+};
+
+/**
+ * Renderers registered on the devtools hook of the iframe window that owns
+ * `element`, or null when the element lives in this window. A frame runs its
+ * own React copy, which registers with its own hook (if any).
+ */
+function getFrameRenderers(element: Element): ReactRenderer[] | null {
+  const view = element.ownerDocument.defaultView;
+  if (!view || typeof window === "undefined" || view === window) {
+    return null;
+  }
+  try {
+    const hook = (view as unknown as { readonly __REACT_DEVTOOLS_GLOBAL_HOOK__?: DevToolsHookLike })
+      .__REACT_DEVTOOLS_GLOBAL_HOOK__;
+    return hook?.renderers ? Array.from(hook.renderers.values()) : [];
+  } catch {
+    return [];
+  }
+}
+
+function getRendererForElement(element: Element): ReactRenderer | null {
+  const frameRenderers = getFrameRenderers(element);
+  return frameRenderers ? frameRenderers[0] ?? null : getAnyRenderer();
+}
+
+// Prefers the frame's own renderers; bippy falls back to the `__reactFiber$`
+// key React stores on every host node, whichever renderer created it.
+function resolveHostFiber(element: Element): Fiber | null {
+  for (const renderer of getFrameRenderers(element) ?? []) {
+    const fiber = renderer.findFiberByHostInstance?.(element) ?? null;
+    if (fiber) {
+      return fiber;
+    }
+  }
+  return getFiberFromHostInstance(element);
+}
+
+function detectReactBuildTypeSafe(element: Element): ReactBuildType {
   try {
-    const renderer = getAnyRenderer();
+    const renderer = getRendererForElement(element);
     if (!renderer) {
       return "unknown";
     }
@@ -154,7 +228,13 @@ function detectReactBuildTypeSafe(): ReactBuildType {
 }
 
 export function getReactDebugInfoForElement(element: Element): ReactDebugInfo {
-  const buildType = detectReactBuildTypeSafe();
+  const buildType = detectReactBuildTypeSafe(element);
+
+  // Inside an iframe the hook checks below describe the wrong window; the
+  // fiber lookup alone decides.
+  if (getFrameRenderers(element) !== null) {
+    return getFrameReactDebugInfo(element, buildType);
+  }
 
   if (!hasRDTHook()) {
     return {
@@ -175,7 +255,7 @@ export function getReactDebugInfoForElement(element: Element): ReactDebugInfo {
   }
 
   try {
-    const hostFiber = getFiberFromHostInstance(element);
+    const hostFiber = resolveHostFiber(element);
     if (!hostFiber) {
       return {
         buildType,
@@ -199,6 +279,28 @@ export function getReactDebugInfoForElement(element: Element): ReactDebugInfo {
   };
 }
 
+function getFrameReactDebugInfo(
+  element: Element,
+  buildType: ReactBuildType
+): ReactDebugInfo {
+  try {
+    if (resolveHostFiber(element)) {
+      return { buildType, inspectorStatus: "ok", message: null };
+    }
+  } catch {
+    return {
+      buildType,
+      inspectorStatus: "error",
+      message: "Failed to access React fiber for this element inside an iframe.",
+    };
+  }
+  return {
+    buildType,
+    inspectorStatus: "no-fiber",
+    message: "No React fiber associated with this element (non-React DOM in an iframe).",
+  };
+}
+
 const MAX_REACT_SNAPSHOT_ENTRIES = 12;
 
 function limitEntries<T>(
@@ -208,66 +310,380 @@ function limitEntries<T>(
   return entries.length > limit ? entries.slice(0, limit) : entries;
 }
 
-function snapshotProps(fiber: Fiber): PropsSnapshot {
-  const highlighted: PropHighlight[] = [];
+const DEFAULT_MAX_PROPS = 12;
+
+// Capture order: props most likely to identify what the user sees first.
+const PROP_REASON_ORDER: readonly PropHighlight["reason"][] = [
+  "text",
+  "test-id",
+  "aria-label",
+  "design",
+  "children",
+  "other",
+  "function",
+];
+
+function matchesPropName(name: string, patterns: readonly PropNamePattern[] | undefined): boolean {
+  return (patterns ?? []).some((pattern) => {
+    if (typeof pattern === "string") return pattern === name;
+    pattern.lastIndex = 0;
+    return pattern.test(name);
+  });
+}
+
+// Text children stay as they are; element trees become a JSX-like outline.
+function serializeProp(
+  reason: PropHighlight["reason"],
+  value: unknown,
+  limits: SerializationLimits
+): SerializableValue {
+  if (reason === "children" && typeof value !== "string" && typeof value !== "number") {
+    return summarizeReactChildren(value, limits);
+  }
+  return toSerializableValue(value, 0, limits);
+}
+
+/**
+ * The props of `fiber` that `config.props` keeps, listed (`include`) props
+ * first, then by `PROP_REASON_ORDER`; props past `maxProps` are named in
+ * `omitted`.
+ */
+export function snapshotProps(fiber: Fiber, config: GrabrRuntimeConfig): PropsSnapshot {
+  const options = config.props;
+  const candidates: { name: string; value: unknown; reason: PropHighlight["reason"]; listed: boolean }[] = [];
   let totalProps = 0;
   traverseProps(fiber, (name, next) => {
     totalProps += 1;
-    const serial = toSerializableValue(next, 0);
-    const reason = classifyPropHighlight(name, serial);
-    if (reason !== null) {
-      highlighted.push({
-        name,
-        value: serial,
-        reason,
-      });
+    if (matchesPropName(name, options.exclude)) return;
+    const listed = matchesPropName(name, options.include);
+    const reason = classifyPropHighlight(name, next);
+    const captured =
+      listed ||
+      options.mode === "all" ||
+      (options.mode === "highlighted" && reason !== null);
+    if (captured) {
+      candidates.push({ name, value: next, reason: reason ?? "other", listed });
     }
   });
+  // Stable: props of equal rank keep their declaration order.
+  candidates.sort(
+    (a, b) =>
+      Number(b.listed) - Number(a.listed) ||
+      PROP_REASON_ORDER.indexOf(a.reason) - PROP_REASON_ORDER.indexOf(b.reason)
+  );
+  const maxProps = options.maxProps ?? DEFAULT_MAX_PROPS;
   return {
     totalProps,
-    highlighted: limitEntries(highlighted, MAX_REACT_SNAPSHOT_ENTRIES),
+    highlighted: candidates.slice(0, maxProps).map(({ name, value, reason }) => {
+      const serialized = serializeProp(reason, value, config.serialization);
+      return { name, value: serialized, reason, truncated: hasTruncationMarker(serialized) };
+    }),
+    omitted: candidates.slice(maxProps).map((candidate) => candidate.name),
   };
 }
 
-function snapshotState(fiber: Fiber): StateSnapshot {
-  const entries: StateSnapshotEntry[] = [];
-  let index = 0;
-  traverseState(fiber, (next) => {
-    const value = toSerializableValue(next, 0);
-    entries.push({
-      hookIndex: index,
-      value,
-    });
-    index += 1;
-  });
+// traverseState / traverseContexts hand out React's internal list nodes
+// (hook objects and context dependencies); only the held value is useful.
+function readListNodeValue(node: unknown, key: "memoizedState" | "memoizedValue"): unknown {
+  if (typeof node === "object" && node !== null && key in node) {
+    return (node as { readonly [k: string]: unknown })[key];
+  }
+  return node;
+}
+
+function snapshotState(
+  fiber: Fiber,
+  renderer: ReactRenderer | null,
+  config: GrabrRuntimeConfig
+): StateSnapshot {
+  const hooks = inspectFiberHooks(fiber, renderer);
+  const entries: StateSnapshotEntry[] = hooks
+    .filter((hook) => !config.hideHookKinds.includes(hook.kind))
+    .map((hook) => ({
+      hookIndex: hook.hookIndex,
+      kind: hook.kind,
+      name: hook.name,
+      customHookPath: hook.customHookPath,
+      value: toSerializableValue(hook.value, 0, config.serialization),
+    }));
   return {
-    totalHooks: index,
+    totalHooks: hooks.length,
     entries: limitEntries(entries, MAX_REACT_SNAPSHOT_ENTRIES),
   };
 }
 
-function snapshotContexts(fiber: Fiber): ContextSnapshot {
-  const entries: ContextEntry[] = [];
-  let index = 0;
+// Stable across React versions; React 19 renders the context itself as the
+// provider, older versions `Context.Provider` (`{ _context }`).
+const CONTEXT_PROVIDER_TAG = 10;
+
+type ContextObject = { readonly displayName?: unknown };
+
+function findContextProvider(fiber: Fiber, context: ContextObject): Fiber | null {
+  for (let current = fiber.return; current; current = current.return) {
+    if (current.tag !== CONTEXT_PROVIDER_TAG) continue;
+    const type = current.type as { readonly _context?: unknown } | null;
+    if (type === context || type?._context === context) {
+      return current;
+    }
+  }
+  return null;
+}
+
+function findCompositeAncestor(fiber: Fiber): Fiber | null {
+  for (let current = fiber.return; current; current = current.return) {
+    if (isCompositeFiber(current)) return current;
+  }
+  return null;
+}
+
+// The component that rendered the provider, i.e. where its value is set.
+// Development builds record it as `_debugOwner`; production builds only
+// have the nearest composite ancestor, which may merely wrap the provider
+// (`<Layout><Ctx.Provider value={…}>` rendered by `App` reports `Layout`).
+function findProviderOwner(providerFiber: Fiber): Fiber | null {
+  const owner = providerFiber._debugOwner;
+  // React 19 may record a server component (plain info object) instead.
+  if (owner && typeof owner.tag === "number" && isCompositeFiber(owner)) {
+    return owner;
+  }
+  return findCompositeAncestor(providerFiber);
+}
+
+/**
+ * Context values `fiber` reads, each with the context's name and the
+ * component rendering its nearest provider (`isDefault` when there is none).
+ */
+export async function snapshotContexts(
+  fiber: Fiber,
+  config: GrabrRuntimeConfig,
+  buildType: ReactBuildType
+): Promise<ContextSnapshot> {
+  const dependencies: { readonly context: ContextObject | null; readonly value: unknown }[] = [];
   traverseContexts(fiber, (next) => {
-    const value = toSerializableValue(next, 0);
-    entries.push({
-      index,
-      value,
+    const context = asRecord(asRecord(next)?.["context"]) as ContextObject | null;
+    dependencies.push({ context, value: readListNodeValue(next, "memoizedValue") });
+  });
+  const entries: ContextEntry[] = await Promise.all(
+    limitEntries(dependencies, MAX_REACT_SNAPSHOT_ENTRIES).map(async ({ context, value }, index) => {
+      const providerFiber = context ? findContextProvider(fiber, context) : null;
+      const component = providerFiber ? findProviderOwner(providerFiber) : null;
+      const displayName = context?.displayName;
+      return {
+        index,
+        displayName: typeof displayName === "string" && displayName.length > 0 ? displayName : null,
+        isDefault: context !== null && providerFiber === null,
+        provider: providerFiber
+          ? {
+              componentName: component ? (getDisplayName(component) ?? null) : null,
+              source: component ? await resolveFiberSource(component, buildType, config) : null,
+            }
+          : null,
+        value: toSerializableValue(value, 0, config.serialization),
+      };
+    })
+  );
+  return { totalContexts: dependencies.length, entries };
+}
+
+type UnknownRecord = { readonly [key: string]: unknown };
+
+function asRecord(value: unknown): UnknownRecord | null {
+  return typeof value === "object" && value !== null ? (value as UnknownRecord) : null;
+}
+
+function asBoolean(value: unknown): boolean | null {
+  return typeof value === "boolean" ? value : null;
+}
+
+// react-hook-form keeps its state on the `control` object: returned by
+// `useForm` (held in a ref), passed down by `FormProvider` and `control` props.
+function findReactHookFormControl(candidate: unknown): UnknownRecord | null {
+  const value = asRecord(candidate);
+  if (!value) return null;
+  const current = asRecord(value["current"]);
+  const candidates = [value, asRecord(value["control"]), current, asRecord(current?.["control"])];
+  for (const inner of candidates) {
+    if (inner && "_formValues" in inner && "_formState" in inner) return inner;
+  }
+  return null;
+}
+
+// The Formik bag: `FormikContext` value, `useFormik` result, `formik` prop.
+function findFormikBag(candidate: unknown): UnknownRecord | null {
+  const value = asRecord(candidate);
+  return value &&
+    "values" in value &&
+    "touched" in value &&
+    typeof value["setFieldValue"] === "function" &&
+    typeof value["handleSubmit"] === "function"
+    ? value
+    : null;
+}
+
+/**
+ * Form library state held by `candidate` (a prop, hook or context value), or
+ * null when it is neither a react-hook-form control nor a Formik bag.
+ */
+export function readFormLibraryState(
+  candidate: unknown,
+  limits: SerializationLimits
+): FormLibraryState | null {
+  const control = findReactHookFormControl(candidate);
+  if (control) {
+    const state = asRecord(control["_formState"]) ?? {};
+    return {
+      library: "react-hook-form",
+      values: toSerializableValue(control["_formValues"], 0, limits),
+      errors: toSerializableValue(state["errors"], 0, limits),
+      touched: toSerializableValue(state["touchedFields"], 0, limits),
+      dirty: asBoolean(state["isDirty"]),
+      submitting: asBoolean(state["isSubmitting"]),
+      submitCount: typeof state["submitCount"] === "number" ? state["submitCount"] : null,
+      valid: asBoolean(state["isValid"]),
+    };
+  }
+  const bag = findFormikBag(candidate);
+  if (bag) {
+    return {
+      library: "formik",
+      values: toSerializableValue(bag["values"], 0, limits),
+      errors: toSerializableValue(bag["errors"], 0, limits),
+      touched: toSerializableValue(bag["touched"], 0, limits),
+      dirty: asBoolean(bag["dirty"]),
+      submitting: asBoolean(bag["isSubmitting"]),
+      submitCount: typeof bag["submitCount"] === "number" ? bag["submitCount"] : null,
+      valid: asBoolean(bag["isValid"]),
+    };
+  }
+  return null;
+}
+
+// Where a fiber may hold form state: `control`/`formik` props, provider
+// `value` props, hook state and the contexts it reads.
+function listFormStateCandidates(fiber: Fiber): unknown[] {
+  const candidates: unknown[] = [];
+  const props = asRecord(fiber.memoizedProps);
+  if (props) {
+    candidates.push(props["control"], props["formik"], props["value"]);
+  }
+  if (isCompositeFiber(fiber)) {
+    traverseState(fiber, (next) => {
+      candidates.push(readListNodeValue(next, "memoizedState"));
+    });
+    traverseContexts(fiber, (next) => {
+      candidates.push(readListNodeValue(next, "memoizedValue"));
     });
-    index += 1;
+  }
+  return candidates;
+}
+
+/**
+ * react-hook-form or Formik state reachable from the element's fibers,
+ * nearest first. Null without a React slice (React inspection off or
+ * unavailable) or when no form library state is found.
+ */
+export function buildFormLibraryState(
+  element: Element,
+  reactSlice: ReactTreeSlice | null,
+  limits: SerializationLimits
+): FormLibraryState | null {
+  if (!reactSlice) {
+    return null;
+  }
+  try {
+    const hostFiber = resolveHostFiber(element);
+    if (!hostFiber) {
+      return null;
+    }
+    for (const fiber of getFiberStack(getLatestFiber(hostFiber))) {
+      for (const candidate of listFormStateCandidates(fiber)) {
+        const state = readFormLibraryState(candidate, limits);
+        if (state) return state;
+      }
+    }
+  } catch {
+    return null;
+  }
+  return null;
+}
+
+type ValueLocation = Pick<PropLineageStep, "via" | "name">;
+
+// Objects and functions are matched by identity under any name; primitives
+// only under the same prop name, since `true` or `"md"` match by chance.
+function findValueInFiber(fiber: Fiber, propName: string, value: unknown): ValueLocation | null {
+  const byIdentity = (typeof value === "object" && value !== null) || typeof value === "function";
+  let found: ValueLocation | null = null;
+  traverseProps(fiber, (name, next) => {
+    if (found === null && Object.is(next, value) && (byIdentity || name === propName)) {
+      found = { via: "prop", name };
+    }
   });
-  return {
-    totalContexts: index,
-    entries: limitEntries(entries, MAX_REACT_SNAPSHOT_ENTRIES),
-  };
+  if (found !== null || !byIdentity) {
+    return found;
+  }
+  let hookIndex = 0;
+  traverseState(fiber, (next) => {
+    if (found === null && Object.is(readListNodeValue(next, "memoizedState"), value)) {
+      found = { via: "state", name: `state[${hookIndex}]` };
+    }
+    hookIndex += 1;
+  });
+  let contextIndex = 0;
+  traverseContexts(fiber, (next) => {
+    if (found === null && Object.is(readListNodeValue(next, "memoizedValue"), value)) {
+      const displayName = asRecord(asRecord(next)?.["context"])?.["displayName"];
+      found = {
+        via: "context",
+        name: typeof displayName === "string" ? displayName : `context[${contextIndex}]`,
+      };
+    }
+    contextIndex += 1;
+  });
+  return found;
+}
+
+// Walks the composite frames above the owner for each captured owner prop.
+// Gaps are fine (a grandparent may pass an element as children); state or a
+// context ends the trace, since that is where the value lives.
+export function buildPropLineage(
+  fibers: readonly Fiber[],
+  stack: readonly ReactComponentFrame[],
+  ownerIndex: number,
+  ownerProps: PropsSnapshot
+): PropLineage[] {
+  const values = asRecord(fibers[ownerIndex]?.memoizedProps);
+  if (!values) {
+    return [];
+  }
+  const lineage: PropLineage[] = [];
+  for (const { name } of ownerProps.highlighted) {
+    const value = values[name];
+    if (value === undefined || value === null) continue;
+    const steps: PropLineageStep[] = [];
+    for (let index = ownerIndex + 1; index < fibers.length; index += 1) {
+      const fiber = fibers[index];
+      if (!fiber || !isCompositeFiber(fiber)) continue;
+      const found = findValueInFiber(fiber, name, value);
+      if (!found) continue;
+      steps.push({ frameIndex: index, displayName: stack[index]?.displayName ?? null, ...found });
+      if (found.via !== "prop") break;
+    }
+    if (steps.length > 0) {
+      lineage.push({ prop: name, steps });
+    }
+  }
+  return lineage;
 }
 
 // Build ReactTreeSlice for a host DOM element (best-effort).
+// With `component`, the stack starts at that component instead of the
+// element's host fiber, making it the owner.
 export async function buildReactTreeSlice(
   element: Element,
   config: GrabrRuntimeConfig,
-  debugInfo: ReactDebugInfo
+  debugInfo: ReactDebugInfo,
+  component: ResolvedComponent | null = null
 ): Promise<ReactTreeSlice | null> {
   if (config.reactInspectorMode === "off") {
     return null;
@@ -279,7 +695,7 @@ export async function buildReactTreeSlice(
 
   let hostFiber: Fiber | null = null;
   try {
-    hostFiber = getFiberFromHostInstance(element);
+    hostFiber = component ? component.fiber : resolveHostFiber(element);
   } catch {
     return null;
   }
@@ -295,15 +711,25 @@ export async function buildReactTreeSlice(
   const maxFrames = config.maxReactStackFrames;
   const takenFibers = stackFibers.slice(0, maxFrames);
   const sources: Array<SourceLocation | null> = await Promise.all(
-    takenFibers.map(async (fiber) => {
-      try {
-        const location = await getSource(fiber);
-        return toSourceLocation(location, debugInfo.buildType);
-      } catch {
-        return null;
-      }
-    })
+    takenFibers.map((fiber) => resolveFiberSource(fiber, debugInfo.buildType, config))
+  );
+  // Nearest composite "owner" for props/state/context snapshots, then its
+  // composite ancestors up to `reactSnapshotDepth`.
+  const compositeIndexes = takenFibers.flatMap((fiber, index) =>
+    isCompositeFiber(fiber) ? [index] : []
   );
+  const ownerIndex = compositeIndexes[0] ?? null;
+  const renderer = getRendererForElement(element);
+  const snapshots = new Map<number, ComponentSnapshot>();
+  for (const index of compositeIndexes.slice(0, config.reactSnapshotDepth)) {
+    const fiber = takenFibers[index]!;
+    snapshots.set(index, {
+      props: snapshotProps(fiber, config),
+      state: snapshotState(fiber, renderer, config),
+      contexts: await snapshotContexts(fiber, config, debugInfo.buildType),
+    });
+  }
+
   const stack: ReactComponentFrame[] = takenFibers.map((fiber, index) => {
     const displayName = getDisplayName(fiber) ?? null;
     const source = sources[index] ?? null;
@@ -331,63 +757,146 @@ export async function buildReactTreeSlice(
       isHost,
       source,
       flags,
+      snapshot: snapshots.get(index) ?? null,
     };
   });
 
-  // Nearest composite "owner" for props/state/context snapshots
-  let ownerIndex: number | null = null;
-  for (let i = 0; i < takenFibers.length; i += 1) {
-    const fiber = takenFibers[i];
-    if (!fiber) continue;
-    if (isCompositeFiber(fiber)) {
-      ownerIndex = i;
-      break;
-    }
-  }
-  if (ownerIndex === null) {
-    return {
-      stack,
-      ownerIndex,
-      ownerProps: null,
-      ownerState: null,
-      ownerContexts: null,
-    };
-  }
-
-  const ownerFiber = takenFibers[ownerIndex];
-  if (!ownerFiber) {
+  const owner = ownerIndex === null ? null : snapshots.get(ownerIndex) ?? null;
+  if (ownerIndex === null || !owner) {
     return {
       stack,
       ownerIndex: null,
       ownerProps: null,
       ownerState: null,
       ownerContexts: null,
+      propLineage: [],
     };
   }
 
-  const ownerProps = snapshotProps(ownerFiber);
-  const ownerState = snapshotState(ownerFiber);
-  const ownerContexts = snapshotContexts(ownerFiber);
-
   return {
     stack,
     ownerIndex,
-    ownerProps,
-    ownerState,
-    ownerContexts,
+    ownerProps: owner.props,
+    ownerState: owner.state,
+    ownerContexts: owner.contexts,
+    propLineage: buildPropLineage(takenFibers, stack, ownerIndex, owner.props),
+  };
+}
+
+// Component selection
+
+const MAX_COMPONENT_HOST_SELECTORS = 10;
+
+// A composite fiber picked in component selection mode, with the top-level
+// DOM elements it renders.
+export type ResolvedComponent = {
+  readonly fiber: Fiber;
+  readonly displayName: string | null;
+  readonly hosts: readonly Element[];
+};
+
+// Host elements directly under `fiber`: the walk stops at each host fiber,
+// so nested elements are not repeated. Portals count as rendered here.
+function collectHostElements(fiber: Fiber): Element[] {
+  const hosts: Element[] = [];
+  const visit = (node: Fiber | null): void => {
+    for (let current = node; current; current = current.sibling) {
+      if (isHostFiber(current) && isElementNode(current.stateNode)) {
+        hosts.push(current.stateNode);
+      } else {
+        visit(current.child);
+      }
+    }
+  };
+  visit(fiber.child);
+  return hosts;
+}
+
+/** Composite fibers above `element`, nearest first. Empty without React. */
+function getComponentAncestors(element: Element): Fiber[] {
+  try {
+    const hostFiber = resolveHostFiber(element);
+    return hostFiber ? getFiberStack(getLatestFiber(hostFiber)).filter(isCompositeFiber) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Number of components above `element`; component depths go up to this minus one. */
+export function countComponentAncestors(element: Element): number {
+  return getComponentAncestors(element).length;
+}
+
+/**
+ * The `depth`-th component above `element` (0 is the nearest) and the host
+ * elements it renders. Null when React is unavailable, there is no such
+ * component, or it renders no DOM elements.
+ */
+export function resolveComponentAt(element: Element, depth: number): ResolvedComponent | null {
+  const fiber = getComponentAncestors(element)[depth];
+  if (!fiber) {
+    return null;
+  }
+  const hosts = collectHostElements(fiber);
+  if (hosts.length === 0) {
+    return null;
+  }
+  return { fiber, displayName: getDisplayName(fiber) ?? null, hosts };
+}
+
+/** True when both resolve to the same component instance (either fiber of its pair). */
+export function isSameComponent(a: ResolvedComponent, b: ResolvedComponent): boolean {
+  return a.fiber === b.fiber || a.fiber === b.fiber.alternate;
+}
+
+/** Union of the boxes of `elements`, in viewport coordinates. */
+export function unionBoundingBox(elements: readonly Element[]): BoundingBox {
+  let left = Infinity;
+  let top = Infinity;
+  let right = -Infinity;
+  let bottom = -Infinity;
+  for (const element of elements) {
+    const rect = element.getBoundingClientRect();
+    left = Math.min(left, rect.left);
+    top = Math.min(top, rect.top);
+    right = Math.max(right, rect.right);
+    bottom = Math.max(bottom, rect.bottom);
+  }
+  if (left > right || top > bottom) {
+    return { x: 0, y: 0, width: 0, height: 0 };
+  }
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+export async function buildComponentSelectionInfo(
+  component: ResolvedComponent,
+  config: GrabrRuntimeConfig,
+  buildType: ReactBuildType
+): Promise<ComponentSelectionInfo> {
+  return {
+    displayName: component.displayName,
+    source: await resolveFiberSource(component.fiber, buildType, config),
+    hostSelectors: component.hosts
+      .slice(0, MAX_COMPONENT_HOST_SELECTORS)
+      .map((host) => buildPreferredSelector(host)),
+    totalHostElements: component.hosts.length,
+    boundingBox: unionBoundingBox(component.hosts),
   };
 }
 
 // Behavior: event handlers from owner + host fiber props (speculative).
+// With `component` set, `reactSlice` was built from the component's fiber
+// and `element` is its first host.
 export function buildBehaviorContext(
   element: Element,
-  reactSlice: ReactTreeSlice | null
+  reactSlice: ReactTreeSlice | null,
+  component: ResolvedComponent | null = null
 ): BehaviorContext {
   const handlers: EventHandlerInfo[] = [];
 
   let hostFiber: Fiber | null = null;
   try {
-    hostFiber = getFiberFromHostInstance(element);
+    hostFiber = resolveHostFiber(element);
   } catch {
     hostFiber = null;
   }
@@ -423,23 +932,34 @@ export function buildBehaviorContext(
   };
 
   if (hostFiber) {
-    const stackFibers = getFiberStack(getLatestFiber(hostFiber));
-    const source =
-      reactSlice && reactSlice.stack.length > 0
-        ? reactSlice.stack[0]?.source ?? null
-        : null;
-    const componentName =
-      reactSlice && reactSlice.stack.length > 0
-        ? reactSlice.stack[0]?.displayName ?? null
-        : null;
-    recordHandlersFromFiber(hostFiber, componentName, source);
-
-    if (reactSlice && reactSlice.ownerIndex !== null) {
-      const ownerFrame = reactSlice.stack[reactSlice.ownerIndex];
-      const ownerSource = ownerFrame?.source ?? null;
-      const ownerName = ownerFrame?.displayName ?? null;
-      const ownerCompositeFiber = stackFibers[reactSlice.ownerIndex] ?? null;
-      recordHandlersFromFiber(ownerCompositeFiber, ownerName, ownerSource);
+    // The fibers `reactSlice.stack` was built from.
+    const stackFibers = getFiberStack(getLatestFiber(component ? component.fiber : hostFiber));
+    const recordOwnerHandlers = () => {
+      if (reactSlice && reactSlice.ownerIndex !== null) {
+        const ownerFrame = reactSlice.stack[reactSlice.ownerIndex];
+        const ownerSource = ownerFrame?.source ?? null;
+        const ownerName = ownerFrame?.displayName ?? null;
+        const ownerCompositeFiber = stackFibers[reactSlice.ownerIndex] ?? null;
+        recordHandlersFromFiber(ownerCompositeFiber, ownerName, ownerSource);
+      }
+    };
+
+    if (component) {
+      // The component is the selection: its own handlers come first. The
+      // host is not part of the stack, so there is no frame to credit.
+      recordOwnerHandlers();
+      recordHandlersFromFiber(hostFiber, null, null);
+    } else {
+      const source =
+        reactSlice && reactSlice.stack.length > 0
+          ? reactSlice.stack[0]?.source ?? null
+          : null;
+      const componentName =
+        reactSlice && reactSlice.stack.length > 0
+          ? reactSlice.stack[0]?.displayName ?? null
+          : null;
+      recordHandlersFromFiber(hostFiber, componentName, source);
+      recordOwnerHandlers();
     }
   }
 
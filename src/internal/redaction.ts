@@ -0,0 +1,541 @@
+import type {
+  AccessibilityInfo,
+  AccessibilityNode,
+  ContextSnapshot,
+  DomNeighborhood,
+  DomNodeSummary,
+  ElementContextV2,
+  FormContext,
+  FormFieldInfo,
+  PropsSnapshot,
+  RedactionConfig,
+  RedactionDetector,
+  RedactionSummary,
+  SerializableObject,
+  SerializableValue,
+  StateSnapshot,
+} from "./schema";
+
+// ---------------------------------------------------------------------------
+// Built-in detectors
+// ---------------------------------------------------------------------------
+
+function passesLuhnCheck(candidate: string): boolean {
+  const digits = candidate.replace(/[^0-9]/g, "");
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i -= 1) {
+    let digit = digits.charCodeAt(i) - 48;
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+const jwtDetector: RedactionDetector = {
+  id: "jwt",
+  pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g,
+};
+
+const emailDetector: RedactionDetector = {
+  id: "email",
+  pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+};
+
+const cardNumberDetector: RedactionDetector = {
+  id: "card-number",
+  pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+  validate: passesLuhnCheck,
+};
+
+const apiKeyDetector: RedactionDetector = {
+  id: "api-key",
+  pattern:
+    /\b(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{16,}|\bsk-[A-Za-z0-9_-]{20,}|\bgh[pousr]_[A-Za-z0-9]{30,}|\bAKIA[0-9A-Z]{16}\b|\bxox[abprs]-[A-Za-z0-9-]{10,}|\bAIza[0-9A-Za-z_-]{35}|\bBearer\s+[A-Za-z0-9._~+/-]{16,}=*/g,
+};
+
+export const defaultRedactionConfig: RedactionConfig = {
+  enabled: true,
+  keyPatterns: [
+    /token/i,
+    /passw(?:or)?d|^pwd$/i,
+    /secret/i,
+    /authorization/i,
+    /api[-_]?key/i,
+    /cookie/i,
+    /session[-_]?id/i,
+    /credential/i,
+  ],
+  detectors: [jwtDetector, emailDetector, cardNumberDetector, apiKeyDetector],
+  queryParamPatterns: [/^code$/i, /^state$/i, /^sig(?:nature)?$/i],
+  redactors: [],
+};
+
+export function formatRedactionMarker(reason: string): string {
+  return `[redacted:${reason}]`;
+}
+
+const REDACTION_MARKER_PATTERN = /^\[redacted:[^\]]+\]$/;
+
+// ---------------------------------------------------------------------------
+// Redaction pass
+// ---------------------------------------------------------------------------
+
+/**
+ * One redaction pass over user data. Counts every replacement so the prompt
+ * can say how much was withheld.
+ */
+export class RedactionPass {
+  private readonly config: RedactionConfig;
+  private readonly counts: { [reason: string]: number } = {};
+  private total = 0;
+
+  constructor(config: RedactionConfig) {
+    this.config = config;
+  }
+
+  summary(): RedactionSummary {
+    return { total: this.total, byReason: { ...this.counts } };
+  }
+
+  private record(reason: string): string {
+    this.total += 1;
+    this.counts[reason] = (this.counts[reason] ?? 0) + 1;
+    return formatRedactionMarker(reason);
+  }
+
+  private isSensitiveKey(key: string): boolean {
+    return this.config.keyPatterns.some((pattern) => {
+      pattern.lastIndex = 0;
+      return pattern.test(key);
+    });
+  }
+
+  private runCustomRedactors(value: string, key: string | null, path: string): string | null {
+    for (const redactor of this.config.redactors) {
+      const reason = redactor.redact({ value, key, path });
+      if (reason !== null) {
+        return reason;
+      }
+    }
+    return null;
+  }
+
+  /** Redact detector matches inside free text (snippets, names, URLs). */
+  text(value: string, path: string = "$", key: string | null = null): string {
+    if (!this.config.enabled || value.length === 0) {
+      return value;
+    }
+    if (REDACTION_MARKER_PATTERN.test(value)) {
+      return value;
+    }
+    const customReason = this.runCustomRedactors(value, key, path);
+    if (customReason !== null) {
+      return this.record(customReason);
+    }
+    let out = value;
+    for (const detector of this.config.detectors) {
+      const pattern = new RegExp(
+        detector.pattern.source,
+        detector.pattern.flags.includes("g") ? detector.pattern.flags : `${detector.pattern.flags}g`
+      );
+      out = out.replace(pattern, (match) => {
+        if (detector.validate && !detector.validate(match)) {
+          return match;
+        }
+        return this.record(detector.id);
+      });
+    }
+    return out;
+  }
+
+  nullableText(value: string | null, path?: string): string | null {
+    return value === null ? null : this.text(value, path);
+  }
+
+  /** Redact a snapshot value: sensitive keys are withheld, strings are scanned. */
+  value(value: SerializableValue | null, key: string | null, path: string = "$"): SerializableValue | null {
+    if (!this.config.enabled || value === null) {
+      return value;
+    }
+    if (key !== null && this.isSensitiveKey(key)) {
+      return this.record("sensitive-key");
+    }
+    if (typeof value === "string") {
+      return this.text(value, path, key);
+    }
+    if (typeof value !== "object") {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(
+        (item: SerializableValue, index: number) =>
+          this.value(item, null, `${path}[${index}]`) ?? null
+      );
+    }
+    const out: { [k: string]: SerializableValue } = {};
+    for (const [childKey, child] of Object.entries(value as SerializableObject)) {
+      out[childKey] = this.value(child, childKey, `${path}.${childKey}`) ?? null;
+    }
+    return out;
+  }
+
+  /** Scrub query/fragment parameters, then scan what is left for detector matches. */
+  url(value: string): string {
+    if (!this.config.enabled || value.length === 0) {
+      return value;
+    }
+    const hashIndex = value.indexOf("#");
+    const beforeHash = hashIndex >= 0 ? value.slice(0, hashIndex) : value;
+    const hash = hashIndex >= 0 ? value.slice(hashIndex) : "";
+    const queryIndex = beforeHash.indexOf("?");
+    const base = queryIndex >= 0 ? beforeHash.slice(0, queryIndex) : beforeHash;
+    const query = queryIndex >= 0 ? beforeHash.slice(queryIndex) : "";
+
+    // Fragments only look like parameters for OAuth-style `#access_token=...`.
+    const scrubbedHash = hash.includes("=") ? this.params(hash) : this.text(hash);
+    return `${this.text(base)}${this.params(query)}${scrubbedHash}`;
+  }
+
+  // Scrub a `?a=b&c=d` / `#a=b` parameter list.
+  private params(raw: string): string {
+    if (raw.length <= 1) {
+      return raw;
+    }
+    const prefix = raw[0] === "?" || raw[0] === "#" ? raw[0] : "";
+    const body = raw.slice(prefix.length);
+    const parts = body.split("&").map((part) => {
+      const eq = part.indexOf("=");
+      if (eq < 0) {
+        return this.text(part);
+      }
+      const name = part.slice(0, eq);
+      const rawValue = part.slice(eq + 1);
+      let decodedName = name;
+      try {
+        decodedName = decodeURIComponent(name.replace(/\+/g, " "));
+      } catch {
+        // Keep the raw name when it is not valid percent-encoding.
+      }
+      if (
+        rawValue.length > 0 &&
+        (this.isSensitiveKey(decodedName) ||
+          this.config.queryParamPatterns.some((pattern) => {
+            pattern.lastIndex = 0;
+            return pattern.test(decodedName);
+          }))
+      ) {
+        return `${name}=${this.record("query-param")}`;
+      }
+      let decodedValue = rawValue;
+      try {
+        decodedValue = decodeURIComponent(rawValue.replace(/\+/g, " "));
+      } catch {
+        return `${name}=${this.text(rawValue)}`;
+      }
+      const scrubbed = this.text(decodedValue);
+      return scrubbed === decodedValue ? part : `${name}=${scrubbed}`;
+    });
+    return `${prefix}${parts.join("&")}`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Element context redaction
+// ---------------------------------------------------------------------------
+
+function redactNodeSummary(
+  pass: RedactionPass,
+  node: DomNodeSummary | null
+): DomNodeSummary | null {
+  if (!node) return node;
+  return { ...node, textSnippet: pass.nullableText(node.textSnippet) };
+}
+
+// `attr="value"`, `name="…"` and `text="…"` parts of generated selectors.
+const SELECTOR_VALUE_PATTERN = /([A-Za-z][\w-]*)="((?:[^"\\]|\\.)*)"/g;
+const URL_ATTRIBUTES = new Set(["href", "src", "action"]);
+
+/**
+ * Scrub the quoted values inside a selector: attribute values, role names
+ * and text copy page content verbatim. URL attributes get the URL pass,
+ * sensitive attribute names are withheld.
+ */
+function redactSelector(pass: RedactionPass, selector: string, path: string): string {
+  return selector.replace(SELECTOR_VALUE_PATTERN, (match, key: string, quoted: string) => {
+    const value = quoted.replace(/\\a /g, "\n").replace(/\\(.)/g, "$1");
+    const scrubbed = URL_ATTRIBUTES.has(key)
+      ? pass.url(value)
+      : (pass.value(value, key, path) as string);
+    if (scrubbed === value) {
+      return match;
+    }
+    return `${key}="${scrubbed.replace(/["\\]/g, "\\$&")}"`;
+  });
+}
+
+type UrlParts = {
+  readonly pathname: string;
+  readonly search: string;
+  readonly hash: string;
+};
+
+// Path, `?query` and `#fragment` of a URL, split the way `RedactionPass.url`
+// splits it.
+function splitUrl(url: string): UrlParts {
+  const hashIndex = url.indexOf("#");
+  const beforeHash = hashIndex >= 0 ? url.slice(0, hashIndex) : url;
+  const queryIndex = beforeHash.indexOf("?");
+  const base = queryIndex >= 0 ? beforeHash.slice(0, queryIndex) : beforeHash;
+  const scheme = base.indexOf("://");
+  const pathStart = scheme >= 0 ? base.indexOf("/", scheme + 3) : 0;
+  return {
+    pathname: pathStart >= 0 ? base.slice(pathStart) : "",
+    search: queryIndex >= 0 ? beforeHash.slice(queryIndex) : "",
+    hash: hashIndex >= 0 ? url.slice(hashIndex) : "",
+  };
+}
+
+function redactDom(pass: RedactionPass, dom: DomNeighborhood): DomNeighborhood {
+  return {
+    ...dom,
+    snippet: pass.text(dom.snippet, "$.dom.snippet"),
+    selectors: {
+      preferred: redactSelector(pass, dom.selectors.preferred, "$.dom.selectors.preferred"),
+      all: dom.selectors.all.map((selector, i) =>
+        redactSelector(pass, selector, `$.dom.selectors.all[${i}]`)
+      ),
+      ranked: dom.selectors.ranked.map((candidate, i) => ({
+        ...candidate,
+        selector: redactSelector(pass, candidate.selector, `$.dom.selectors.ranked[${i}]`),
+      })),
+    },
+    parents: dom.parents.map((p) => redactNodeSummary(pass, p)!),
+    siblings: {
+      ...dom.siblings,
+      previous: redactNodeSummary(pass, dom.siblings.previous),
+      next: redactNodeSummary(pass, dom.siblings.next),
+    },
+    children: {
+      ...dom.children,
+      samples: dom.children.samples.map((c) => redactNodeSummary(pass, c)!),
+    },
+    shadowHostChain: dom.shadowHostChain.map((host) => redactNodeSummary(pass, host)!),
+    frameChain: dom.frameChain.map((frame) => ({
+      ...frame,
+      url: frame.url === null ? null : pass.url(frame.url),
+    })),
+  };
+}
+
+function redactAccessibility(
+  pass: RedactionPass,
+  info: AccessibilityInfo
+): AccessibilityInfo {
+  const redactNode = (node: AccessibilityNode): AccessibilityNode => ({
+    ...node,
+    name: pass.nullableText(node.name),
+  });
+  return {
+    ...info,
+    name: pass.nullableText(info.name, "$.accessibility.name"),
+    description: pass.nullableText(info.description, "$.accessibility.description"),
+    labels: info.labels.map((label) => ({ ...label, text: pass.nullableText(label.text) })),
+    tree: {
+      ancestors: info.tree.ancestors.map(redactNode),
+      children: info.tree.children.map(redactNode),
+    },
+  };
+}
+
+function redactProps(pass: RedactionPass, props: PropsSnapshot): PropsSnapshot {
+  return {
+    ...props,
+    highlighted: props.highlighted.map((h) => ({
+      ...h,
+      value: pass.value(h.value, h.name, `$.props.${h.name}`),
+    })),
+  };
+}
+
+function redactState(pass: RedactionPass, state: StateSnapshot): StateSnapshot {
+  return {
+    ...state,
+    entries: state.entries.map((entry) => ({
+      ...entry,
+      // A custom hook's name (`useAuthToken`) says as much as a prop name would.
+      value: pass.value(
+        entry.value,
+        entry.customHookPath[entry.customHookPath.length - 1] ?? null,
+        `$.state[${entry.hookIndex}]`
+      ),
+    })),
+  };
+}
+
+function redactContexts(pass: RedactionPass, contexts: ContextSnapshot): ContextSnapshot {
+  return {
+    ...contexts,
+    entries: contexts.entries.map((entry) => ({
+      ...entry,
+      value: pass.value(entry.value, entry.displayName, `$.contexts[${entry.index}]`),
+    })),
+  };
+}
+
+function redactFormField(pass: RedactionPass, field: FormFieldInfo, path: string): FormFieldInfo {
+  return {
+    ...field,
+    label: pass.nullableText(field.label),
+    // The field name doubles as the key, so `token`/`secret` fields are withheld.
+    value: pass.value(field.value, field.name, `${path}.value`) as string | null,
+  };
+}
+
+function redactForm(pass: RedactionPass, form: FormContext | null): FormContext | null {
+  if (!form) return form;
+  const library = form.library;
+  return {
+    ...form,
+    form: form.form
+      ? { ...form.form, action: form.form.action === null ? null : pass.url(form.form.action) }
+      : null,
+    field: form.field ? redactFormField(pass, form.field, "$.form.field") : null,
+    fields: form.fields.map((field, i) => redactFormField(pass, field, `$.form.fields[${i}]`)),
+    library: library
+      ? {
+          ...library,
+          values: pass.value(library.values, null, "$.form.library.values"),
+          errors: pass.value(library.errors, null, "$.form.library.errors"),
+          touched: pass.value(library.touched, null, "$.form.library.touched"),
+        }
+      : null,
+  };
+}
+
+/**
+ * Apply the configured redaction to the user-data parts of an element context
+ * (DOM text, form values, props/state/context values, URL) and record what
+ * was withheld.
+ */
+export function redactElementContext(
+  context: ElementContextV2,
+  config: RedactionConfig
+): ElementContextV2 {
+  if (!config.enabled) {
+    return context;
+  }
+  const pass = new RedactionPass(config);
+  const react = context.react
+    ? {
+        ...context.react,
+        stack: context.react.stack.map((frame) =>
+          frame.snapshot
+            ? {
+                ...frame,
+                snapshot: {
+                  props: redactProps(pass, frame.snapshot.props),
+                  state: redactState(pass, frame.snapshot.state),
+                  contexts: redactContexts(pass, frame.snapshot.contexts),
+                },
+              }
+            : frame
+        ),
+        ownerProps: context.react.ownerProps && redactProps(pass, context.react.ownerProps),
+        ownerState: context.react.ownerState && redactState(pass, context.react.ownerState),
+        ownerContexts:
+          context.react.ownerContexts && redactContexts(pass, context.react.ownerContexts),
+      }
+    : null;
+
+  const routeParamsGuess = context.app.routeParamsGuess
+    ? Object.fromEntries(
+        Object.entries(context.app.routeParamsGuess).map(([key, value]) => [
+          key,
+          pass.text(value),
+        ])
+      )
+    : null;
+
+  const fingerprint = context.selection.fingerprint;
+
+  // `pathname`, `search` and `hash` repeat parts of `url`: they are cut from
+  // the scrubbed URL, so each value is redacted (and counted) once.
+  const url = pass.url(context.app.url);
+  const original = splitUrl(context.app.url);
+  const scrubbed = splitUrl(url);
+
+  return {
+    ...context,
+    // The hash stays as captured; only the readable parts are scrubbed.
+    selection: {
+      ...context.selection,
+      fingerprint: {
+        ...fingerprint,
+        parts: {
+          ...fingerprint.parts,
+          selector: redactSelector(
+            pass,
+            fingerprint.parts.selector,
+            "$.selection.fingerprint.parts.selector"
+          ),
+          accessibleName: pass.nullableText(fingerprint.parts.accessibleName),
+        },
+      },
+    },
+    dom: redactDom(pass, context.dom),
+    accessibility: redactAccessibility(pass, context.accessibility),
+    form: redactForm(pass, context.form),
+    component: context.component && {
+      ...context.component,
+      hostSelectors: context.component.hostSelectors.map((selector, i) =>
+        redactSelector(pass, selector, `$.component.hostSelectors[${i}]`)
+      ),
+    },
+    styling: context.styling.ruleSummaries
+      ? {
+          ...context.styling,
+          ruleSummaries: context.styling.ruleSummaries.map((rule) => ({
+            ...rule,
+            href: rule.href === null ? null : pass.url(rule.href),
+          })),
+        }
+      : context.styling,
+    react,
+    app: {
+      ...context.app,
+      url,
+      pathname:
+        original.pathname === context.app.pathname
+          ? scrubbed.pathname
+          : pass.text(context.app.pathname),
+      search:
+        original.search === context.app.search ? scrubbed.search : pass.url(context.app.search),
+      hash: original.hash === context.app.hash ? scrubbed.hash : pass.url(context.app.hash),
+      routeParamsGuess,
+    },
+    redaction: pass.summary(),
+  };
+}
+
+export function mergeRedactionSummaries(
+  summaries: readonly (RedactionSummary | undefined)[]
+): RedactionSummary {
+  const byReason: { [reason: string]: number } = {};
+  let total = 0;
+  for (const summary of summaries) {
+    if (!summary) continue;
+    total += summary.total;
+    for (const [reason, count] of Object.entries(summary.byReason)) {
+      byReason[reason] = (byReason[reason] ?? 0) + count;
+    }
+  }
+  return { total, byReason };
+}
@@ -6,7 +6,9 @@
  */
 
 // Serializable values we may emit in props/state/context snapshots.
-// This avoids dumping arbitrary functions or cyclic references.
+// Values JSON cannot carry are replaced by placeholder objects tagged with
+// `$type` (e.g. `{"$type":"Function","name":"onSave"}`); cut-off content
+// leaves a `$truncated` marker and back-references become `{"$ref":"cycle"}`.
 export type SerializablePrimitive = string | number | boolean | null;
 
 export interface SerializableObject {
@@ -34,6 +36,24 @@ export interface SelectionIdentity {
   readonly classes: readonly string[];
 }
 
+// Inputs of the element fingerprint; none depend on scroll position,
+// viewport size or capture time.
+export interface SelectionFingerprintParts {
+  // Composite component names, nearest first.
+  readonly componentPath: readonly string[];
+  // `file:line:col` of the nearest source location.
+  readonly source: string | null;
+  readonly selector: string;
+  readonly testId: string | null;
+  readonly role: string | null;
+  readonly accessibleName: string | null;
+}
+
+export interface SelectionFingerprint {
+  readonly hash: string;
+  readonly parts: SelectionFingerprintParts;
+}
+
 export interface SelectionInfo {
   readonly tag: string;
   readonly boundingBox: BoundingBox;
@@ -41,6 +61,23 @@ export interface SelectionInfo {
   readonly componentDisplayName: string | null;
   readonly nearestSource: SourceLocation | null;
   readonly isLikelyServerComponent: boolean | null;
+  // Same element across scrolls, resizes and reloads → same fingerprint.
+  readonly fingerprint: SelectionFingerprint;
+  // Unique per capture: tells re-captures of one element apart.
+  readonly instanceId: string;
+}
+
+// A React component selected as a whole (component selection mode). The
+// DOM-based blocks (`dom`, `styling`, `layout`, …) describe its first host
+// element.
+export interface ComponentSelectionInfo {
+  readonly displayName: string | null;
+  readonly source: SourceLocation | null;
+  // Top-level DOM elements the component renders, in tree order (capped).
+  readonly hostSelectors: readonly string[];
+  readonly totalHostElements: number;
+  // Union of the host elements' boxes.
+  readonly boundingBox: BoundingBox;
 }
 
 // DOM neighborhood
@@ -65,14 +102,123 @@ export interface ChildSummary {
   readonly samples: readonly DomNodeSummary[];
 }
 
+export type SelectorStrategy =
+  | "test-id"
+  | "id"
+  | "role-name"
+  | "attribute"
+  | "text"
+  | "class"
+  | "path";
+
+// `css` selectors work with querySelector; `role` (`role=button[name="Save"]`)
+// and `text` (`text="Save"`) use the Playwright locator syntax.
+export type SelectorSyntax = "css" | "role" | "text";
+
+export interface RankedSelector {
+  readonly selector: string;
+  readonly strategy: SelectorStrategy;
+  readonly syntax: SelectorSyntax;
+  // Matches exactly the selected element in its document.
+  readonly unique: boolean;
+  readonly matchCount: number;
+  // 0–1: how likely the selector survives unrelated DOM/style changes.
+  readonly score: number;
+}
+
+// A same-origin iframe enclosing the selected element.
+export interface FrameSummary {
+  // Selector for the frame element within its own (parent) document.
+  readonly selector: string;
+  readonly url: string | null;
+}
+
 export interface DomNeighborhood {
   readonly snippet: string;
   readonly parents: readonly DomNodeSummary[];
   readonly siblings: SiblingSummary;
   readonly children: ChildSummary;
   readonly selectors: {
+    // Best unique CSS selector.
     readonly preferred: string;
+    // CSS selectors from `ranked`, best first.
     readonly all: readonly string[];
+    // Best first: unique before non-unique, then by score.
+    readonly ranked: readonly RankedSelector[];
+  };
+  // Shadow hosts enclosing the element, innermost first; empty in the light DOM.
+  readonly shadowHostChain: readonly DomNodeSummary[];
+  // Frames enclosing the element, innermost first; empty in the top document.
+  // The other DOM fields are relative to the innermost frame's document.
+  readonly frameChain: readonly FrameSummary[];
+}
+
+// Accessibility snapshot: what assistive technology is likely to announce.
+// Computed in the page without a browser accessibility tree, so it follows
+// the accname algorithm closely but not exhaustively.
+
+// Where the accessible name came from, in accname precedence order.
+export type AccessibleNameSource =
+  | "aria-labelledby"
+  | "aria-label"
+  | "value"
+  | "label"
+  | "alt"
+  | "title"
+  | "placeholder"
+  | "contents";
+
+// ARIA tri-state values (`aria-pressed`, `aria-checked`).
+export type AriaTristate = boolean | "mixed";
+
+export interface AriaStates {
+  // null when the attribute is absent (the state does not apply).
+  readonly expanded: boolean | null;
+  readonly pressed: AriaTristate | null;
+  readonly checked: AriaTristate | null;
+  // `aria-disabled` or a natively disabled control (including fieldsets).
+  readonly disabled: boolean;
+  // `aria-invalid`; "grammar"/"spelling" are kept as-is.
+  readonly invalid: boolean | "grammar" | "spelling";
+}
+
+export interface AccessibilityLabel {
+  // `label` covers both `<label for>` and wrapping labels.
+  readonly kind: "label" | "aria-labelledby" | "aria-describedby";
+  readonly id: string | null;
+  readonly text: string | null;
+}
+
+export interface FocusInfo {
+  readonly focusable: boolean;
+  // The `tabindex` attribute, when present and numeric.
+  readonly tabIndex: number | null;
+  // Reachable with Tab: focusable and not `tabindex="-1"`.
+  readonly inTabOrder: boolean;
+}
+
+export interface AccessibilityNode {
+  readonly role: string | null;
+  readonly name: string | null;
+}
+
+export interface AccessibilityInfo {
+  // Explicit `role` or the element's implicit role.
+  readonly role: string | null;
+  readonly roleSource: "explicit" | "implicit" | null;
+  readonly name: string | null;
+  readonly nameSource: AccessibleNameSource | null;
+  readonly description: string | null;
+  readonly states: AriaStates;
+  readonly labels: readonly AccessibilityLabel[];
+  readonly focus: FocusInfo;
+  // `aria-hidden="true"` or `hidden` on the element or an ancestor.
+  readonly hidden: boolean;
+  // Nearest ancestors and descendants that have a role, skipping generic
+  // wrappers; ancestors innermost first.
+  readonly tree: {
+    readonly ancestors: readonly AccessibilityNode[];
+    readonly children: readonly AccessibilityNode[];
   };
 }
 
@@ -109,26 +255,77 @@ export interface PropHighlight {
     | "children"
     | "test-id"
     | "aria-label"
+    | "function"
     | "other";
+  // The value hit a serialization limit and carries `$truncated` / `…(N more chars)` markers.
+  readonly truncated: boolean;
 }
 
 export interface PropsSnapshot {
   readonly totalProps: number;
+  // Captured props, in `props.mode` order; see `PropsCaptureOptions`.
   readonly highlighted: readonly PropHighlight[];
+  // Props that would have been captured but fell past `props.maxProps`.
+  readonly omitted: readonly string[];
 }
 
+// What a hook is, from the dispatcher call that created it or, failing
+// that, from the shape of its state. `class-state` is a class component's
+// `this.state`.
+export type HookKind =
+  | "state"
+  | "reducer"
+  | "ref"
+  | "memo"
+  | "callback"
+  | "effect"
+  | "layout-effect"
+  | "insertion-effect"
+  | "imperative-handle"
+  | "id"
+  | "transition"
+  | "deferred-value"
+  | "sync-external-store"
+  | "optimistic"
+  | "action-state"
+  | "effect-event"
+  | "class-state"
+  | "unknown";
+
 export interface StateSnapshotEntry {
+  // Position of the hook's first node in the fiber's hook list.
   readonly hookIndex: number;
+  readonly kind: HookKind;
+  // Primitive hook called, e.g. `useState`; null when not known.
+  readonly name: string | null;
+  // Custom hooks around the call, outermost first, e.g. `["useCart", "useLocalStorage"]`.
+  readonly customHookPath: readonly string[];
+  // State for state-like hooks, `current` for refs, the memoized value for
+  // memo/callback, dependencies for effects.
   readonly value: SerializableValue | null;
 }
 
 export interface StateSnapshot {
+  // Hook calls (or one for class state), including hidden kinds.
   readonly totalHooks: number;
   readonly entries: readonly StateSnapshotEntry[];
 }
 
+export interface ContextProviderInfo {
+  // Component that renders the provider, e.g. `ThemeRoot`.
+  readonly componentName: string | null;
+  readonly source: SourceLocation | null;
+}
+
 export interface ContextEntry {
   readonly index: number;
+  // The context's `displayName`; null when it has none.
+  readonly displayName: string | null;
+  // True when no provider is above the owner and the value is the
+  // `createContext` default.
+  readonly isDefault: boolean;
+  // Nearest provider above the owner; null when `isDefault`.
+  readonly provider: ContextProviderInfo | null;
   readonly value: SerializableValue | null;
 }
 
@@ -137,11 +334,38 @@ export interface ContextSnapshot {
   readonly entries: readonly ContextEntry[];
 }
 
+export interface ComponentSnapshot {
+  readonly props: PropsSnapshot;
+  readonly state: StateSnapshot;
+  readonly contexts: ContextSnapshot;
+}
+
 export interface ReactComponentFrame {
   readonly displayName: string | null;
   readonly isHost: boolean;
   readonly source: SourceLocation | null;
   readonly flags: ComponentFlags;
+  // Set for the first `reactSnapshotDepth` composite frames, owner included;
+  // null for host frames and composite frames further up.
+  readonly snapshot: ComponentSnapshot | null;
+}
+
+export interface PropLineageStep {
+  // Index into `ReactTreeSlice.stack`.
+  readonly frameIndex: number;
+  readonly displayName: string | null;
+  readonly via: "prop" | "state" | "context";
+  // Prop name, `state[<hookIndex>]`, or the context's displayName
+  // (`context[<index>]` when it has none).
+  readonly name: string;
+}
+
+export interface PropLineage {
+  // Owner prop being traced.
+  readonly prop: string;
+  // Ancestor frames holding the same value, nearest first; the last step is
+  // where the value first appears.
+  readonly steps: readonly PropLineageStep[];
 }
 
 export interface ReactTreeSlice {
@@ -150,14 +374,285 @@ export interface ReactTreeSlice {
   readonly ownerProps: PropsSnapshot | null;
   readonly ownerState: StateSnapshot | null;
   readonly ownerContexts: ContextSnapshot | null;
+  // Owner props found higher up the stack; props with no match are left out.
+  readonly propLineage: readonly PropLineage[];
 }
 
 // Styling / layout information
 export interface MatchedRuleSummary {
+  // The most specific selector of the rule's list that matches the element;
+  // `style` for the inline style attribute.
   readonly selector: string;
   readonly origin: "author" | "user-agent" | "inline" | "unknown";
+  // `a,b,c` (ids, classes/attributes/pseudo-classes, types); `inline` for
+  // the style attribute.
   readonly specificity: string;
   readonly importantCount: number;
+  // Stylesheet URL, or the dev server's module id for injected `<style>` tags.
+  readonly href: string | null;
+  // 1-based line within an inline `<style>` element; null for linked sheets.
+  readonly line: number | null;
+  // Enclosing at-rules, outermost first: `@media (min-width: 600px)`, ….
+  readonly conditions: readonly string[];
+  readonly layer: string | null;
+  // Properties (longhands) for which this rule's declaration wins the cascade.
+  readonly wins: readonly string[];
+}
+
+// Layout ancestry
+export interface LayoutParentInfo {
+  readonly kind: "flex" | "grid";
+  // The flex/grid container (`display: contents` wrappers skipped).
+  readonly selector: string;
+  readonly display: string;
+  // Container properties, e.g. `{ "flex-direction": "row", "gap": "8px" }`.
+  readonly container: { readonly [property: string]: string };
+  // The element's item properties (`flex-grow`, `grid-area`, …).
+  readonly item: { readonly [property: string]: string };
+  // false for absolutely positioned children, which the container ignores.
+  readonly participates: boolean;
+}
+
+export interface ContainingBlockInfo {
+  // `absolute` or `fixed`.
+  readonly position: string;
+  // null for the viewport / initial containing block.
+  readonly selector: string | null;
+  // What makes the ancestor the containing block: `position: relative`,
+  // `transform: …`, `viewport`, ….
+  readonly reason: string;
+}
+
+export interface ScrollContainerInfo {
+  readonly selector: string;
+  readonly overflowX: string;
+  readonly overflowY: string;
+  readonly scrollTop: number;
+  readonly scrollLeft: number;
+  // Whether its content currently overflows.
+  readonly scrollable: boolean;
+}
+
+export interface ClippingAncestor {
+  readonly selector: string;
+  // `hidden`, `clip`, `auto`, … (`<x> <y>` when they differ).
+  readonly overflow: string;
+  readonly clipPath: string | null;
+  // The element's box extends past this ancestor's box.
+  readonly clipsElement: boolean;
+}
+
+export interface StackingContextInfo {
+  readonly selector: string;
+  readonly zIndex: string;
+  // What creates the stacking context, e.g. `position: fixed`, `opacity: 0.9`.
+  readonly reason: string;
+}
+
+export interface LayoutAncestry {
+  readonly parent: LayoutParentInfo | null;
+  // Only for absolutely/fixed positioned elements.
+  readonly containingBlock: ContainingBlockInfo | null;
+  // null when the document scrolls.
+  readonly scrollContainer: ScrollContainerInfo | null;
+  // Innermost first.
+  readonly clippingAncestors: readonly ClippingAncestor[];
+  // Innermost first, starting with the element itself when it creates one.
+  readonly stackingContexts: readonly StackingContextInfo[];
+}
+
+// Visibility
+export type ViewportPlacement = "inside" | "partial" | "outside";
+
+export interface OcclusionInfo {
+  // Points hit-tested inside the visible part of the box.
+  readonly samples: number;
+  // Points where another element is on top.
+  readonly covered: number;
+  // The covering elements, most points first.
+  readonly coveredBy: readonly string[];
+}
+
+export interface VisibilityReport {
+  readonly verdict: "visible" | "partially-visible" | "hidden";
+  // What hides the element, e.g. `display: none on div.panel`,
+  // `covered at 9/9 points by div.backdrop`.
+  readonly reasons: readonly string[];
+  readonly zeroSize: boolean;
+  readonly viewport: ViewportPlacement;
+  // Share of the box inside the viewport and every clipping ancestor (0–1).
+  readonly visibleRatio: number;
+  // Innermost ancestor that cuts part of the box off.
+  readonly clippedBy: string | null;
+  // null when nothing of the element is visible to sample.
+  readonly occlusion: OcclusionInfo | null;
+  // The element itself or the ancestor with `display: none`.
+  readonly displayNone: string | null;
+  // Computed (inherited) `visibility`.
+  readonly visibility: string | null;
+  // Product of the element's and its ancestors' opacity.
+  readonly opacity: number;
+  // Nearest self-or-ancestor with `aria-hidden="true"` / `inert`.
+  readonly ariaHidden: string | null;
+  readonly inert: string | null;
+}
+
+// Forms
+export interface FormInfo {
+  readonly selector: string;
+  readonly name: string | null;
+  readonly action: string | null;
+  // `get`, `post` or `dialog`.
+  readonly method: string;
+  readonly noValidate: boolean;
+}
+
+export interface FormFieldInfo {
+  readonly selector: string;
+  readonly tag: string;
+  // `type` of inputs and buttons, `select-one`/`select-multiple` for selects.
+  readonly type: string | null;
+  readonly name: string | null;
+  readonly label: string | null;
+  // Current value, redacted; never read for password inputs.
+  readonly value: string | null;
+  // Checkboxes and radios only.
+  readonly checked: boolean | null;
+  readonly required: boolean;
+  readonly disabled: boolean;
+  readonly readOnly: boolean;
+  // null when the control is barred from constraint validation.
+  readonly valid: boolean | null;
+  // The `ValidityState` flags that are set, e.g. `valueMissing`.
+  readonly validity: readonly string[];
+  readonly validationMessage: string | null;
+}
+
+export type FormLibrary = "react-hook-form" | "formik";
+
+// Form library state found on the element's fibers (props, hooks, contexts).
+export interface FormLibraryState {
+  readonly library: FormLibrary;
+  readonly values: SerializableValue | null;
+  readonly errors: SerializableValue | null;
+  readonly touched: SerializableValue | null;
+  readonly dirty: boolean | null;
+  readonly submitting: boolean | null;
+  readonly submitCount: number | null;
+  readonly valid: boolean | null;
+}
+
+export interface FormContext {
+  // null for controls outside any form.
+  readonly form: FormInfo | null;
+  // null when the selected element is the form itself.
+  readonly field: FormFieldInfo | null;
+  // The form's other controls, in document order.
+  readonly fields: readonly FormFieldInfo[];
+  readonly totalFields: number;
+  readonly library: FormLibraryState | null;
+}
+
+// Utility CSS (Tailwind and similar).
+export type UtilityConcern =
+  | "layout"
+  | "spacing"
+  | "sizing"
+  | "typography"
+  | "color"
+  | "border"
+  | "effects"
+  | "interaction"
+  | "other";
+
+export interface UtilityClass {
+  // As written in the class attribute, e.g. `md:hover:!bg-blue-500`.
+  readonly className: string;
+  // Without variants and `!`, e.g. `bg-blue-500`.
+  readonly utility: string;
+  // Outermost first: `["md", "hover"]`.
+  readonly variants: readonly string[];
+  readonly important: boolean;
+  readonly concern: UtilityConcern;
+  // Longhands whose winning declaration comes from this class; empty for
+  // variants that are not active right now.
+  readonly sets: readonly string[];
+}
+
+export interface UtilityClassInfo {
+  // `tailwind` when variant/arbitrary-value syntax or `--tw-*` properties
+  // show up; `utility` for other atomic CSS.
+  readonly framework: "tailwind" | "utility";
+  // The full class attribute, untruncated: the string to edit.
+  readonly classAttribute: string;
+  readonly utilities: readonly UtilityClass[];
+  // Non-utility classes (component names, hashed module classes).
+  readonly otherClasses: readonly string[];
+  readonly groups: { readonly [concern in UtilityConcern]?: readonly string[] };
+  // Variant → classes using it, e.g. `{ "hover": ["hover:bg-blue-600"] }`.
+  readonly variants: { readonly [variant: string]: readonly string[] };
+}
+
+// Design tokens: token name → raw value, e.g.
+// `{ "brand-500": "#3b82f6", "space-2": "8px" }`.
+export interface DesignTokenTable {
+  readonly [token: string]: string;
+}
+
+// A winning declaration that reads custom properties.
+export interface VariableReference {
+  // Longhand property, e.g. `background-color`.
+  readonly property: string;
+  // As authored, e.g. `var(--brand-500)`.
+  readonly declaration: string;
+  readonly variables: readonly string[];
+  // Computed value on the element.
+  readonly resolved: string | null;
+}
+
+export interface CustomPropertyValue {
+  readonly name: string;
+  readonly value: string;
+  // Token from `designTokens` whose value equals this one.
+  readonly token: string | null;
+}
+
+export interface TokenMatch {
+  readonly property: string;
+  readonly value: string;
+  readonly token: string;
+}
+
+export interface DesignTokenInfo {
+  readonly references: readonly VariableReference[];
+  // Custom properties in scope on the element; referenced ones first.
+  readonly variables: readonly CustomPropertyValue[];
+  // Captured raw values found in `designTokens`; empty without a table.
+  readonly tokenMatches: readonly TokenMatch[];
+}
+
+// Groups used by the computed-style diff.
+export type ComputedStyleCategory =
+  | "layout"
+  | "box"
+  | "border"
+  | "background"
+  | "typography"
+  | "effects"
+  | "overflow"
+  | "interaction"
+  | "animation"
+  | "other";
+
+// Every computed property whose value differs from a pristine element of
+// the same tag (rendered in a hidden frame, so no page CSS applies).
+export interface ComputedStyleDiff {
+  readonly baselineTag: string;
+  // Non-default properties found; `groups` may hold fewer when capped.
+  readonly total: number;
+  readonly groups: {
+    readonly [category in ComputedStyleCategory]?: { readonly [property: string]: string };
+  };
 }
 
 export interface StyleFrame {
@@ -193,11 +688,21 @@ export interface StyleFrame {
   readonly clickable: boolean;
 
   /**
-   * Reserved for future deep CSS rule analysis (e.g. matched CSS rules).
-   * Currently left empty by the implementation, but modeled here so schema
-   * can be extended without breaking compatibility.
+   * Author rules matching the element (and its inline style), highest
+   * cascade precedence first. Cross-origin stylesheets cannot be read and
+   * are skipped; user-agent rules are not visible to the page.
    */
   readonly ruleSummaries?: readonly MatchedRuleSummary[];
+
+  // Present with `styleCaptureMode: "computed-diff"`; null when no baseline
+  // could be built.
+  readonly computedDiff?: ComputedStyleDiff | null;
+
+  // Custom properties behind the captured values.
+  readonly tokens?: DesignTokenInfo;
+
+  // Null when the element has no utility classes.
+  readonly utilityClasses?: UtilityClassInfo | null;
 }
 
 // Behavior / event hints: explicitly inferred/speculative.
@@ -288,17 +793,46 @@ export interface ReactDebugInfo {
   readonly message: string | null;
 }
 
+// Redaction bookkeeping: how many values were replaced by `[redacted:reason]`.
+export interface RedactionSummary {
+  readonly total: number;
+  readonly byReason: { readonly [reason: string]: number };
+}
+
 // Main element context schema
 export interface ElementContextV2 {
   readonly version: 2;
   readonly selection: SelectionInfo;
   readonly dom: DomNeighborhood;
+  readonly accessibility: AccessibilityInfo;
+  readonly layout: LayoutAncestry;
+  readonly visibility: VisibilityReport;
+  // Form-associated elements and forms only.
+  readonly form: FormContext | null;
+  // Set when a component rather than a DOM element was selected.
+  readonly component: ComponentSelectionInfo | null;
   readonly react: ReactTreeSlice | null;
   readonly reactDebug: ReactDebugInfo;
   readonly styling: StyleFrame;
   readonly behavior: BehaviorContext;
   readonly app: AppContext;
   readonly tests?: TestsBlock;
+  readonly redaction?: RedactionSummary;
+}
+
+// An image of one selected element, rendered in-page.
+export interface ElementScreenshot {
+  // `SelectionInfo.instanceId` of the element it shows.
+  readonly instanceId: string;
+  readonly dataUrl: string;
+  readonly mimeType: string;
+  // Image size in pixels.
+  readonly width: number;
+  readonly height: number;
+  // Viewport CSS pixels: the element's bounding box plus padding.
+  readonly region: BoundingBox;
+  // Image pixels per CSS pixel.
+  readonly scale: number;
 }
 
 // Session & agent integration
@@ -309,12 +843,122 @@ export interface GrabrSession {
   readonly userInstruction: string | null;
   readonly summary: string | null;
   readonly elements: readonly ElementContextV2[];
+  readonly redaction?: RedactionSummary;
+  // Present when `config.screenshot` is set; elements whose capture failed
+  // have no entry.
+  readonly screenshots?: readonly ElementScreenshot[];
+}
+
+// ---------------------------------------------------------------------------
+// Prompt rendering
+// ---------------------------------------------------------------------------
+
+// Built-in renderer ids; custom renderers may register any other id.
+export type PromptFormat = "grabr-v2" | "markdown" | "xml" | "json" | (string & {});
+
+// Budget order: `low` entries are shrunk/dropped first, `required` never.
+export type PromptPriority = "required" | "high" | "medium" | "low";
+
+export interface PromptEntry {
+  readonly key: string;
+  readonly value: SerializableValue;
+  // Defaults to `medium` when omitted.
+  readonly priority?: PromptPriority;
+}
+
+export interface PromptSection {
+  readonly name: string;
+  readonly entries: readonly PromptEntry[];
+}
+
+// Renderer-neutral prompt content for one element, in prompt order.
+export interface ElementPromptDocument {
+  readonly selectionId: string;
+  readonly checksum: string;
+  readonly sections: readonly PromptSection[];
+}
+
+export interface SessionPromptDocument {
+  readonly sessionId: string;
+  readonly checksum: string;
+  readonly meta: PromptSection;
+  readonly elements: readonly ElementPromptDocument[];
+}
+
+export interface PromptRenderer {
+  readonly id: PromptFormat;
+  readonly label: string;
+  renderSession(document: SessionPromptDocument): string;
+  renderElement(document: ElementPromptDocument): string;
+}
+
+export interface PromptRendererRegistry {
+  get(id: PromptFormat): PromptRenderer | null;
+  list(): readonly PromptRenderer[];
+}
+
+export interface TokenEstimator {
+  readonly id: string;
+  estimate(text: string): number;
+}
+
+// Either or both limits may be set; the rendered prompt must satisfy all.
+export interface PromptBudget {
+  readonly maxTokens?: number;
+  readonly maxChars?: number;
+  // Defaults to a ~4 chars/token approximation.
+  readonly estimator?: TokenEstimator;
+}
+
+// Result of reading a rendered grabr-v2 prompt back (`parseSessionPrompt`).
+export type PromptIntegrity = "ok" | "tampered" | "truncated";
+
+export interface PromptParseIssue {
+  readonly kind: "tampered" | "truncated" | "malformed";
+  // "session", "element:0", "element:0.dom", …
+  readonly location: string;
+  readonly message: string;
+}
+
+export interface ParsedPromptSection extends PromptSection {
+  // false when the text ended (or another block began) before `[end:<name>]`.
+  readonly complete: boolean;
+}
+
+export interface ParsedPromptElement {
+  readonly selectionId: string;
+  // As declared in the block header.
+  readonly checksum: string;
+  // Recomputed from the block text.
+  readonly computedChecksum: string;
+  readonly integrity: PromptIntegrity;
+  readonly sections: readonly ParsedPromptSection[];
+}
+
+export interface ParsedSessionPrompt {
+  // null when the text only held bare `<ai_grab_selection>` blocks.
+  readonly sessionId: string | null;
+  readonly checksum: string | null;
+  readonly computedChecksum: string | null;
+  readonly integrity: PromptIntegrity;
+  readonly meta: ParsedPromptSection | null;
+  readonly elements: readonly ParsedPromptElement[];
+  readonly issues: readonly PromptParseIssue[];
+}
+
+// Passed by the client to `AgentProvider.sendContext` so every provider
+// renders with the configured `promptFormat`.
+export interface AgentSendOptions {
+  readonly promptFormat: PromptFormat;
+  renderPrompt(format?: PromptFormat): string;
+  // `session.screenshots`, for providers that can carry images.
+  readonly screenshots: readonly ElementScreenshot[];
 }
 
 export interface AgentProvider {
   readonly id: string;
   readonly label: string;
-  sendContext(session: GrabrSession): Promise<void>;
+  sendContext(session: GrabrSession, options?: AgentSendOptions): Promise<void>;
   onSuccess?(session: GrabrSession): void;
   onError?(session: GrabrSession, error: Error): void;
 }
@@ -340,6 +984,22 @@ export interface GrabrInitOptions {
   readonly hotkey?: string | false;
 }
 
+// ---------------------------------------------------------------------------
+// Runtime validation (JSON Schema)
+// ---------------------------------------------------------------------------
+
+export interface SchemaValidationIssue {
+  // Path into the validated value, e.g. `$.elements[0].selection.tag`.
+  readonly path: string;
+  // The JSON Schema keyword that failed (`type`, `required`, `enum`, ...).
+  readonly keyword: string;
+  readonly message: string;
+}
+
+export type SchemaValidationResult<T> =
+  | { readonly ok: true; readonly value: T }
+  | { readonly ok: false; readonly issues: readonly SchemaValidationIssue[] };
+
 // ---------------------------------------------------------------------------
 // Heuristic strategy interfaces (framework & data sources)
 // ---------------------------------------------------------------------------
@@ -370,15 +1030,131 @@ export interface DataSourceDetectionStrategy {
 
 export type ReactInspectorMode = "best-effort" | "required" | "off";
 
+// What the overlay selects: DOM elements, or React components (all host
+// elements a component renders). `C` switches while selecting.
+export type SelectionMode = "element" | "component";
+
+// Selects a component instead of the element itself: the `depth`-th
+// component above the element, 0 being the nearest.
+export interface ComponentTarget {
+  readonly depth: number;
+}
+
+export interface ScreenshotOptions {
+  // CSS pixels of surroundings around the bounding box. Default 16.
+  readonly padding?: number;
+  // Longest image side in pixels. Default 1600.
+  readonly maxDimension?: number;
+  // Default `image/png`.
+  readonly mimeType?: "image/png" | "image/jpeg" | "image/webp";
+  // 0–1, for jpeg/webp. Default 0.92.
+  readonly quality?: number;
+}
+
+export interface SourceMapOptions {
+  // Absolute path prefixes removed from resolved file names, e.g. the
+  // checkout path on the build machine (`/home/ci/app/`).
+  readonly stripPrefixes?: readonly string[];
+  // Per-request timeout in milliseconds. Default 3000.
+  readonly timeoutMs?: number;
+  // Defaults to the global `fetch`.
+  readonly fetch?: (url: string, init?: RequestInit) => Promise<Response>;
+}
+
+// `sampled`: the fixed property groups of StyleFrame. `computed-diff`: also
+// every computed property that differs from the tag's default.
+export type StyleCaptureMode = "sampled" | "computed-diff";
+
 export interface GrabrHeuristics {
   readonly frameworkStrategies: readonly FrameworkDetectionStrategy[];
   readonly dataSourceStrategies: readonly DataSourceDetectionStrategy[];
 }
 
+// Depth/breadth limits applied when converting props/state/context values.
+export interface SerializationLimits {
+  readonly maxDepth: number;
+  readonly maxArrayItems: number;
+  readonly maxObjectKeys: number;
+  readonly maxStringLength: number;
+}
+
+// Which owner props are captured. `highlighted` keeps props with a value,
+// text/design/test-id props first; `all` keeps every prop, `undefined` ones
+// included; `listed` keeps only props matching `include`.
+export type PropsCaptureMode = "highlighted" | "all" | "listed";
+
+// A string pattern matches a prop name exactly.
+export type PropNamePattern = string | RegExp;
+
+export interface PropsCaptureOptions {
+  readonly mode: PropsCaptureMode;
+  // Always captured (and listed first), whatever the mode.
+  readonly include?: readonly PropNamePattern[];
+  // Never captured; wins over `include`.
+  readonly exclude?: readonly PropNamePattern[];
+  // Defaults to 12; names of props past it go to `omitted`.
+  readonly maxProps?: number;
+}
+
+// A value detector: every match of `pattern` inside a string is replaced by
+// `[redacted:<id>]`, unless `validate` rejects the match.
+export interface RedactionDetector {
+  readonly id: string;
+  readonly pattern: RegExp;
+  validate?(match: string): boolean;
+}
+
+export interface RedactionInput {
+  readonly value: string;
+  // Object key / prop name holding the value, when there is one.
+  readonly key: string | null;
+  readonly path: string;
+}
+
+// Custom redactor: return a reason to withhold the whole value, or null.
+export interface CustomRedactor {
+  readonly id: string;
+  redact(input: RedactionInput): string | null;
+}
+
+export interface RedactionConfig {
+  readonly enabled: boolean;
+  // Values stored under matching keys/prop names are withheld entirely.
+  readonly keyPatterns: readonly RegExp[];
+  readonly detectors: readonly RedactionDetector[];
+  // Query/fragment parameters whose values are always scrubbed
+  // (in addition to parameters matching `keyPatterns`).
+  readonly queryParamPatterns: readonly RegExp[];
+  readonly redactors: readonly CustomRedactor[];
+}
+
 export interface GrabrRuntimeConfig {
   readonly reactInspectorMode: ReactInspectorMode;
   readonly maxReactStackFrames: number;
+  // Composite frames, starting at the owner, whose props/state/contexts are
+  // captured in `stack[i].snapshot`.
+  readonly reactSnapshotDepth: number;
+  readonly styleCaptureMode: StyleCaptureMode;
+  // Initial overlay selection mode.
+  readonly selectionMode: SelectionMode;
+  // Maps raw captured values back to token names; null disables matching.
+  readonly designTokens: DesignTokenTable | null;
   readonly heuristics: GrabrHeuristics;
+  readonly serialization: SerializationLimits;
+  readonly props: PropsCaptureOptions;
+  readonly redaction: RedactionConfig;
+  readonly promptFormat: PromptFormat;
+  // Custom renderers, registered next to the built-ins (same id replaces).
+  readonly promptRenderers: readonly PromptRenderer[];
+  // null renders everything.
+  readonly promptBudget: PromptBudget | null;
+  // Element screenshots attached to the session; null disables them.
+  readonly screenshot: ScreenshotOptions | null;
+  // Hook kinds left out of `ownerState`, e.g. `["effect", "ref"]`.
+  readonly hideHookKinds: readonly HookKind[];
+  // Maps bundled source locations back to original files through same-origin
+  // source maps; null (the default) disables it.
+  readonly sourceMaps: SourceMapOptions | null;
 }
 
 // ---------------------------------------------------------------------------
@@ -387,6 +1163,9 @@ export interface GrabrRuntimeConfig {
 
 export interface InspectorEngine {
   readonly config: Readonly<GrabrRuntimeConfig>;
-  getElementContext(selectedElement: Element): Promise<ElementContextV2>;
+  getElementContext(
+    selectedElement: Element,
+    component?: ComponentTarget
+  ): Promise<ElementContextV2>;
 }
 
@@ -0,0 +1,284 @@
+// In-page element screenshots: the element's subtree is cloned with its
+// computed styles inlined, wrapped in an SVG `<foreignObject>` and drawn to
+// a canvas. No extension or browser permission is involved.
+
+import type { BoundingBox, ElementScreenshot, ScreenshotOptions } from "./schema";
+import { getComposedParent } from "./shadow";
+
+const XHTML_NAMESPACE = "http://www.w3.org/1999/xhtml";
+
+// Inlining copies every computed property of every node; past this size
+// the capture is skipped rather than stalling the page.
+const MAX_SCREENSHOT_NODES = 1500;
+
+export const defaultScreenshotOptions: Required<ScreenshotOptions> = {
+  padding: 16,
+  maxDimension: 1600,
+  mimeType: "image/png",
+  quality: 0.92,
+};
+
+export type ScreenshotPlan = {
+  // Viewport CSS pixels: the bounding box grown by the padding.
+  readonly region: BoundingBox;
+  readonly scale: number;
+  // Output size in image pixels.
+  readonly width: number;
+  readonly height: number;
+};
+
+/**
+ * Crop region and output size for a bounding box: device-pixel sharp, but
+ * never longer than `maxDimension` on either side.
+ */
+export function planScreenshot(
+  box: BoundingBox,
+  options: Required<ScreenshotOptions>,
+  devicePixelRatio: number
+): ScreenshotPlan {
+  const region: BoundingBox = {
+    x: box.x - options.padding,
+    y: box.y - options.padding,
+    width: box.width + options.padding * 2,
+    height: box.height + options.padding * 2,
+  };
+  const longest = Math.max(region.width, region.height, 1);
+  const density = devicePixelRatio > 0 ? devicePixelRatio : 1;
+  const scale = Math.min(density, options.maxDimension / longest);
+  return {
+    region,
+    scale,
+    width: Math.max(1, Math.round(region.width * scale)),
+    height: Math.max(1, Math.round(region.height * scale)),
+  };
+}
+
+/** Decode a base64 data URL (as in `ElementScreenshot.dataUrl`) into a Blob. */
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const match = /^data:([^;,]+)(;base64)?,(.*)$/s.exec(dataUrl);
+  if (!match) {
+    throw new Error("Invalid data URL: expected data:<mime>[;base64],<payload>");
+  }
+  const [, mimeType, base64, payload] = match;
+  if (!base64) {
+    return new Blob([decodeURIComponent(payload!)], { type: mimeType });
+  }
+  const binary = atob(payload!);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+function isTransparent(color: string): boolean {
+  return color === "transparent" || /^rgba\(.*,\s*0\)$/.test(color);
+}
+
+// The first opaque background behind `el`, so the padding shows what the
+// element sits on rather than a transparent frame.
+function findBackdropColor(el: Element): string {
+  let current: Element | null = getComposedParent(el);
+  while (current) {
+    const view = current.ownerDocument.defaultView;
+    const color = view?.getComputedStyle(current).backgroundColor ?? "";
+    if (color.length > 0 && !isTransparent(color)) {
+      return color;
+    }
+    current = getComposedParent(current);
+  }
+  return "rgb(255, 255, 255)";
+}
+
+function copyComputedStyle(source: Element, clone: Element, view: Window): void {
+  const target = (clone as Partial<ElementCSSInlineStyle>).style;
+  if (!target) return;
+  const computed = view.getComputedStyle(source);
+  for (let i = 0; i < computed.length; i += 1) {
+    const property = computed.item(i);
+    target.setProperty(
+      property,
+      computed.getPropertyValue(property),
+      computed.getPropertyPriority(property)
+    );
+  }
+}
+
+// Live state that cloneNode does not carry over.
+function copyLiveState(source: Element, clone: Element): void {
+  const tag = source.localName;
+  if (tag === "input") {
+    const input = source as HTMLInputElement;
+    clone.setAttribute("value", input.value);
+    if (input.checked) clone.setAttribute("checked", "");
+    else clone.removeAttribute("checked");
+  } else if (tag === "textarea") {
+    clone.textContent = (source as HTMLTextAreaElement).value;
+  } else if (tag === "select") {
+    const selected = (source as HTMLSelectElement).selectedIndex;
+    Array.from(clone.querySelectorAll("option")).forEach((option, i) => {
+      if (i === selected) option.setAttribute("selected", "");
+      else option.removeAttribute("selected");
+    });
+  }
+}
+
+// SVG images cannot fetch anything, so canvases and same-origin images are
+// inlined as data URLs. Tainted (cross-origin) ones render blank.
+function inlineMedia(source: Element, clone: Element): Element {
+  try {
+    if (source.localName === "canvas") {
+      const img = clone.ownerDocument.createElementNS(XHTML_NAMESPACE, "img");
+      img.setAttribute("src", (source as HTMLCanvasElement).toDataURL());
+      img.setAttribute("style", clone.getAttribute("style") ?? "");
+      return img;
+    }
+    if (source.localName === "img") {
+      const image = source as HTMLImageElement;
+      if (image.complete && image.naturalWidth > 0) {
+        const canvas = source.ownerDocument.createElement("canvas");
+        canvas.width = image.naturalWidth;
+        canvas.height = image.naturalHeight;
+        canvas.getContext("2d")?.drawImage(image, 0, 0);
+        clone.setAttribute("src", canvas.toDataURL());
+        clone.removeAttribute("srcset");
+      }
+    }
+  } catch {
+    // Cross-origin pixels: leave the element as is.
+  }
+  return clone;
+}
+
+// Children as rendered: an open shadow root's content instead of the light
+// DOM, and a slot's assigned nodes instead of its fallback.
+function renderedChildren(source: Element): Node[] {
+  if (source.shadowRoot) {
+    return Array.from(source.shadowRoot.childNodes);
+  }
+  if (source.localName === "slot") {
+    const assigned = (source as HTMLSlotElement).assignedNodes({ flatten: true });
+    if (assigned.length > 0) return assigned;
+  }
+  return Array.from(source.childNodes);
+}
+
+const SKIPPED_TAGS = new Set(["script", "noscript", "template", "style", "link"]);
+
+class SubtreeCloner {
+  private readonly view: Window;
+  private nodes = 0;
+
+  constructor(view: Window) {
+    this.view = view;
+  }
+
+  // null when the subtree exceeds MAX_SCREENSHOT_NODES.
+  clone(source: Element): Element | null {
+    this.nodes += 1;
+    if (this.nodes > MAX_SCREENSHOT_NODES) {
+      return null;
+    }
+    const copy = source.cloneNode(false) as Element;
+    copy.removeAttribute("id");
+    copyComputedStyle(source, copy, this.view);
+    copyLiveState(source, copy);
+    for (const child of renderedChildren(source)) {
+      if (child.nodeType === 1) {
+        if (SKIPPED_TAGS.has((child as Element).localName)) continue;
+        const childCopy = this.clone(child as Element);
+        if (!childCopy) return null;
+        copy.appendChild(childCopy);
+      } else if (child.nodeType === 3) {
+        copy.appendChild(child.cloneNode(false));
+      }
+    }
+    return inlineMedia(source, copy);
+  }
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to render the element snapshot image."));
+    img.src = src;
+  });
+}
+
+/**
+ * Render `el` (plus `padding` of its backdrop) to an image.
+ *
+ * Best effort: web fonts, pseudo-elements and cross-origin images are not
+ * reproduced. Returns null when the element is too large or the browser
+ * refuses to rasterize the snapshot.
+ */
+export async function captureElementScreenshot(
+  el: Element,
+  instanceId: string,
+  partialOptions: ScreenshotOptions = {}
+): Promise<ElementScreenshot | null> {
+  const options: Required<ScreenshotOptions> = { ...defaultScreenshotOptions, ...partialOptions };
+  const view = el.ownerDocument.defaultView;
+  if (!view || typeof XMLSerializer === "undefined") {
+    return null;
+  }
+  const rect = el.getBoundingClientRect();
+  if (rect.width <= 0 || rect.height <= 0) {
+    return null;
+  }
+  const plan = planScreenshot(
+    { x: rect.left, y: rect.top, width: rect.width, height: rect.height },
+    options,
+    view.devicePixelRatio
+  );
+
+  try {
+    const copy = new SubtreeCloner(view).clone(el) as HTMLElement | null;
+    if (!copy) {
+      return null;
+    }
+    // The copy is laid out at the wrapper's origin, at its captured size.
+    copy.style.setProperty("position", "relative");
+    copy.style.setProperty("inset", "auto");
+    copy.style.setProperty("margin", "0");
+    copy.style.setProperty("transform", "none");
+    copy.style.setProperty("width", `${rect.width}px`);
+    copy.style.setProperty("height", `${rect.height}px`);
+    copy.style.setProperty("box-sizing", "border-box");
+
+    const wrapper = el.ownerDocument.createElementNS(XHTML_NAMESPACE, "div") as HTMLElement;
+    wrapper.style.cssText = [
+      `width:${plan.region.width}px`,
+      `height:${plan.region.height}px`,
+      `padding:${options.padding}px`,
+      "box-sizing:border-box",
+      "overflow:hidden",
+      `background:${findBackdropColor(el)}`,
+    ].join(";");
+    wrapper.appendChild(copy);
+
+    const markup = new XMLSerializer().serializeToString(wrapper);
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${plan.region.width}" height="${plan.region.height}">` +
+      `<foreignObject x="0" y="0" width="100%" height="100%">${markup}</foreignObject></svg>`;
+    const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+
+    const canvas = document.createElement("canvas");
+    canvas.width = plan.width;
+    canvas.height = plan.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      return null;
+    }
+    ctx.scale(plan.scale, plan.scale);
+    ctx.drawImage(image, 0, 0, plan.region.width, plan.region.height);
+    const dataUrl = canvas.toDataURL(options.mimeType, options.quality);
+    // Browsers fall back to PNG for types they cannot encode.
+    const mimeType = /^data:(image\/[^;,]+)/.exec(dataUrl)?.[1];
+    return mimeType ? { instanceId, dataUrl, mimeType, ...plan } : null;
+  } catch {
+    // Tainted canvas (Safari taints every foreignObject draw) or a decode failure.
+    return null;
+  }
+}
@@ -0,0 +1,520 @@
+import type { RankedSelector, SelectorStrategy, SelectorSyntax } from "./schema";
+
+import { computeAccessibleName, getElementRole, getRoleQuerySelector } from "./accessibility";
+import { SHADOW_BOUNDARY, getChildContainer, getQueryRoot, getShadowHostChain } from "./shadow";
+
+// Robustness of each strategy when its selector is unique.
+const STRATEGY_SCORES: { readonly [S in SelectorStrategy]: number } = {
+  "test-id": 1,
+  id: 0.9,
+  "role-name": 0.85,
+  attribute: 0.75,
+  text: 0.6,
+  class: 0.5,
+  path: 0.3,
+};
+
+// A selector that also matches other elements is a weak hint at best.
+const NON_UNIQUE_FACTOR = 0.4;
+const MAX_RANKED_SELECTORS = 8;
+const MAX_ATTRIBUTE_VALUE = 80;
+const MAX_TEXT_SELECTOR = 40;
+const MAX_CLASSES_IN_SELECTOR = 3;
+const MAX_PATH_DEPTH = 8;
+// Upper bound on nodes one role or text match scan visits; past it the
+// selector is left unevaluated.
+const MAX_MATCH_SCAN = 5000;
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const CDATA_SECTION_NODE = 4;
+
+const TEST_ID_ATTRIBUTES = ["data-testid", "data-test-id", "data-test", "data-cy", "data-qa"];
+
+// Attributes authors set on purpose, in order of preference.
+const STABLE_ATTRIBUTES = [
+  "name",
+  "aria-label",
+  "placeholder",
+  "alt",
+  "title",
+  "for",
+  "href",
+  "type",
+];
+
+// Framework-managed data attributes that change with state or build.
+const VOLATILE_DATA_ATTRIBUTE =
+  /^data-(?:state|active|selected|disabled|highlighted|orientation|side|align|headlessui-state|radix-|reactroot|v-|rbd-|focus|hover|pressed|open|checked)/;
+
+const GENERATED_ID_PATTERNS: readonly RegExp[] = [
+  /^:[^:]+:$/, // React useId (`:r1:`)
+  /^«[^»]+»$/, // React 19 useId
+  /^(?:radix|headlessui|react-aria|mui|downshift|rc-tabs|ember)[-_:]/i,
+  /[0-9a-f]{8}-[0-9a-f]{4}-/i, // uuid
+  /\d{4,}/,
+];
+
+const HASHED_CLASS_PATTERNS: readonly RegExp[] = [
+  /^css-[a-z0-9]{4,}(?:-[\w-]+)?$/i, // emotion
+  /^sc-[a-z0-9]{4,}$/i, // styled-components
+  /^jsx-\d+$/, // styled-jsx
+  /^(?:svelte|astro)-[a-z0-9]{4,}$/i,
+  /__[A-Za-z0-9_-]{5,}$/, // CSS modules (`Button_primary__a1B2c`)
+  /^_[A-Za-z0-9]{5,}$/, // minified CSS modules / vanilla-extract
+  /^(?=(?:[A-Za-z]*\d){2})(?=[A-Za-z0-9]*[A-Za-z])[A-Za-z0-9]{6,}$/, // bare hash
+];
+
+const UTILITY_CLASS_WORDS = new Set([
+  "flex",
+  "grid",
+  "block",
+  "inline",
+  "inline-block",
+  "inline-flex",
+  "inline-grid",
+  "contents",
+  "hidden",
+  "relative",
+  "absolute",
+  "fixed",
+  "sticky",
+  "static",
+  "truncate",
+  "underline",
+  "italic",
+  "uppercase",
+  "lowercase",
+  "capitalize",
+  "container",
+  "sr-only",
+  "grow",
+  "shrink",
+  "transition",
+  "antialiased",
+  "visible",
+  "invisible",
+  "border",
+  "rounded",
+  "shadow",
+]);
+
+// Classes toggled with UI state (`active`, `is-open`, `tab--selected`).
+const STATE_CLASS_PATTERN =
+  /^(?:is|has)-|(?:^|[-_])(?:active|selected|current|open|opened|closed|expanded|collapsed|checked|disabled|pressed|focus|focused|hover|hovered|loading|visible|hidden)$/i;
+
+const UTILITY_CLASS_PREFIX =
+  /^-?(?:p|px|py|pt|pr|pb|pl|ps|pe|m|mx|my|mt|mr|mb|ml|ms|me|w|h|size|min-w|min-h|max-w|max-h|gap|gap-x|gap-y|space-x|space-y|text|bg|from|via|to|border|border-[trblxy]|rounded|rounded-[trbl]{1,2}|shadow|font|leading|tracking|z|top|left|right|bottom|inset|inset-x|inset-y|grid-cols|grid-rows|col-span|col-start|col-end|row-span|opacity|ring|ring-offset|duration|ease|delay|animate|translate-x|translate-y|scale|rotate|skew-x|skew-y|order|basis|grow|shrink|flex|items|justify|content|self|place-items|place-content|place-self|overflow|overflow-x|overflow-y|cursor|select|fill|stroke|outline|divide-x|divide-y|divide|object|aspect|decoration|underline-offset|line-clamp|whitespace|break|list|align|columns|auto-cols|auto-rows|backdrop|blur|brightness|drop-shadow|transition|will-change|pointer-events|resize|snap|scroll-m|scroll-p|accent|caret|indent)-/;
+
+/** True for class names a build tool generated (CSS modules, CSS-in-JS hashes). */
+export function isHashedClassName(name: string): boolean {
+  return HASHED_CLASS_PATTERNS.some((pattern) => pattern.test(name));
+}
+
+/** True for atomic/utility classes (Tailwind-style) that describe looks, not identity. */
+export function isUtilityClassName(name: string): boolean {
+  if (/[:[\]/!.]/.test(name)) {
+    // Variants (`hover:`), arbitrary values (`w-[3px]`), fractions, `!important`.
+    return true;
+  }
+  return UTILITY_CLASS_WORDS.has(name) || UTILITY_CLASS_PREFIX.test(name);
+}
+
+/** True for class names that track UI state (`active`, `is-open`, `item--selected`). */
+export function isStateClassName(name: string): boolean {
+  return STATE_CLASS_PATTERN.test(name);
+}
+
+export function isGeneratedId(id: string): boolean {
+  return GENERATED_ID_PATTERNS.some((pattern) => pattern.test(id));
+}
+
+function quoteAttributeValue(value: string): string {
+  return `"${value.replace(/["\\]/g, "\\$&").replace(/\n/g, "\\a ")}"`;
+}
+
+function escapeIdent(value: string): string {
+  if (typeof CSS !== "undefined" && typeof CSS.escape === "function") {
+    return CSS.escape(value);
+  }
+  return value.replace(/[^A-Za-z0-9_-]/g, (ch) => `\\${ch}`);
+}
+
+function normalizeText(text: string | null): string {
+  return (text ?? "").replace(/\s+/g, " ").trim();
+}
+
+// Deepest elements under `root` whose whole text equals `text`, in document
+// order. One pass over the tree: each element's text is built from its
+// children's, whitespace collapsed, and given up once it is longer than
+// `text` could be. Null past MAX_MATCH_SCAN nodes.
+function findTextMatches(root: ParentNode, text: string): Element[] | null {
+  // A collapsed text may keep one leading and one trailing space.
+  const limit = text.length + 2;
+  const matches: Element[] = [];
+  let scanned = 0;
+  const visit = (node: Node): string | null => {
+    scanned += 1;
+    if (node.nodeType === TEXT_NODE || node.nodeType === CDATA_SECTION_NODE) {
+      const value = (node.nodeValue ?? "").replace(/\s+/g, " ");
+      return value.length > limit ? null : value;
+    }
+    let collected: string | null = "";
+    let childMatches = false;
+    for (const child of Array.from(node.childNodes)) {
+      if (scanned > MAX_MATCH_SCAN) return null;
+      const childText = visit(child);
+      if (child.nodeType === ELEMENT_NODE && childText?.trim() === text) {
+        childMatches = true;
+      }
+      collected =
+        collected === null || childText === null
+          ? null
+          : (collected + childText).replace(/\s+/g, " ");
+      if (collected !== null && collected.length > limit) collected = null;
+    }
+    // A child with the same text is deeper; ancestors see it the same way,
+    // so matches never nest.
+    if (node.nodeType === ELEMENT_NODE && !childMatches && collected?.trim() === text) {
+      matches.push(node as Element);
+    }
+    return collected;
+  };
+  for (const child of Array.from(root.childNodes)) {
+    visit(child);
+  }
+  return scanned > MAX_MATCH_SCAN ? null : matches;
+}
+
+type Candidate = {
+  readonly selector: string;
+  readonly strategy: SelectorStrategy;
+  readonly syntax: SelectorSyntax;
+  // Extra robustness penalty (0–1) within the strategy, e.g. for long paths.
+  readonly penalty?: number;
+};
+
+/**
+ * Rank candidates: unique before non-unique, then by score. Duplicate
+ * selectors keep their best entry.
+ */
+export function rankSelectors(selectors: readonly RankedSelector[]): RankedSelector[] {
+  const best = new Map<string, RankedSelector>();
+  for (const candidate of selectors) {
+    const existing = best.get(candidate.selector);
+    if (!existing || candidate.score > existing.score) {
+      best.set(candidate.selector, candidate);
+    }
+  }
+  return Array.from(best.values()).sort((a, b) => {
+    if (a.unique !== b.unique) return a.unique ? -1 : 1;
+    return b.score - a.score;
+  });
+}
+
+export function scoreSelector(
+  strategy: SelectorStrategy,
+  unique: boolean,
+  penalty: number = 0
+): number {
+  const base = STRATEGY_SCORES[strategy] * (1 - penalty);
+  const score = unique ? base : base * NON_UNIQUE_FACTOR;
+  return Math.round(score * 100) / 100;
+}
+
+class SelectorEngine {
+  private readonly el: Element;
+  private readonly root: ParentNode;
+  private readonly tag: string;
+
+  constructor(el: Element, root: ParentNode) {
+    this.el = el;
+    this.root = root;
+    this.tag = el.tagName.toLowerCase();
+  }
+
+  run(): RankedSelector[] {
+    const candidates: Candidate[] = [
+      ...this.testIdCandidates(),
+      ...this.idCandidates(),
+      ...this.roleNameCandidates(),
+      ...this.attributeCandidates(),
+      ...this.textCandidates(),
+      ...this.classCandidates(),
+      ...this.pathCandidates(),
+    ];
+    const ranked: RankedSelector[] = [];
+    for (const candidate of candidates) {
+      const matchCount = this.countMatches(candidate);
+      if (matchCount === null) continue;
+      const unique = matchCount === 1 && this.matchesSelf(candidate);
+      ranked.push({
+        selector: candidate.selector,
+        strategy: candidate.strategy,
+        syntax: candidate.syntax,
+        unique,
+        matchCount,
+        score: scoreSelector(candidate.strategy, unique, candidate.penalty ?? 0),
+      });
+    }
+    return rankSelectors(ranked).slice(0, MAX_RANKED_SELECTORS);
+  }
+
+  // null when the selector cannot be evaluated (invalid CSS, exotic roots).
+  private countMatches(candidate: Candidate): number | null {
+    try {
+      switch (candidate.syntax) {
+        case "css":
+          return this.root.querySelectorAll(candidate.selector).length;
+        case "role":
+          return this.roleMatches()?.length ?? null;
+        case "text":
+          return this.textMatches()?.length ?? null;
+      }
+    } catch {
+      return null;
+    }
+  }
+
+  private matchesSelf(candidate: Candidate): boolean {
+    switch (candidate.syntax) {
+      case "css":
+        return this.root.querySelector(candidate.selector) === this.el;
+      case "role":
+        return this.roleMatches()?.[0] === this.el;
+      case "text":
+        return this.textMatches()?.[0] === this.el;
+    }
+  }
+
+  private testIdCandidates(): Candidate[] {
+    const out: Candidate[] = [];
+    for (const attr of TEST_ID_ATTRIBUTES) {
+      const value = this.el.getAttribute(attr)?.trim();
+      if (value) {
+        out.push({
+          selector: `[${attr}=${quoteAttributeValue(value)}]`,
+          strategy: "test-id",
+          syntax: "css",
+        });
+      }
+    }
+    return out;
+  }
+
+  private idCandidates(): Candidate[] {
+    const id = this.el.id;
+    if (!id || /\s/.test(id) || isGeneratedId(id)) {
+      return [];
+    }
+    return [{ selector: `#${escapeIdent(id)}`, strategy: "id", syntax: "css" }];
+  }
+
+  private roleNameCandidates(): Candidate[] {
+    const role = getElementRole(this.el);
+    const name = computeAccessibleName(this.el);
+    if (role === null || name === null) {
+      return [];
+    }
+    return [
+      {
+        selector: `role=${role}[name=${quoteAttributeValue(name)}]`,
+        strategy: "role-name",
+        syntax: "role",
+      },
+    ];
+  }
+
+  private roleMatchCache: Element[] | null | undefined;
+
+  // Only elements that can carry the role are queried, and names are only
+  // computed for those that do. Null past MAX_MATCH_SCAN candidates.
+  private roleMatches(): Element[] | null {
+    if (this.roleMatchCache === undefined) {
+      const role = getElementRole(this.el);
+      const name = computeAccessibleName(this.el);
+      const candidates =
+        role === null ? [] : Array.from(this.root.querySelectorAll(getRoleQuerySelector(role)));
+      this.roleMatchCache =
+        candidates.length > MAX_MATCH_SCAN
+          ? null
+          : candidates.filter(
+              (candidate) =>
+                getElementRole(candidate) === role && computeAccessibleName(candidate) === name
+            );
+    }
+    return this.roleMatchCache;
+  }
+
+  private attributeCandidates(): Candidate[] {
+    const out: Candidate[] = [];
+    const names = [
+      ...STABLE_ATTRIBUTES,
+      ...this.el
+        .getAttributeNames()
+        .filter(
+          (attr) =>
+            attr.startsWith("data-") &&
+            !TEST_ID_ATTRIBUTES.includes(attr) &&
+            !VOLATILE_DATA_ATTRIBUTE.test(attr)
+        ),
+    ];
+    for (const attr of names) {
+      const value = this.el.getAttribute(attr);
+      if (value === null || value.trim().length === 0 || value.length > MAX_ATTRIBUTE_VALUE) {
+        continue;
+      }
+      out.push({
+        selector: `${this.tag}[${attr}=${quoteAttributeValue(value)}]`,
+        strategy: "attribute",
+        syntax: "css",
+        // `type="button"` and friends rarely single anything out.
+        penalty: attr === "type" ? 0.3 : 0,
+      });
+    }
+    return out;
+  }
+
+  private textCandidates(): Candidate[] {
+    const text = normalizeText(this.el.textContent);
+    if (text.length === 0 || text.length > MAX_TEXT_SELECTOR) {
+      return [];
+    }
+    return [{ selector: `text=${quoteAttributeValue(text)}`, strategy: "text", syntax: "text" }];
+  }
+
+  private textMatchCache: Element[] | null | undefined;
+
+  private textMatches(): Element[] | null {
+    if (this.textMatchCache === undefined) {
+      this.textMatchCache = findTextMatches(this.root, normalizeText(this.el.textContent));
+    }
+    return this.textMatchCache;
+  }
+
+  private classCandidates(): Candidate[] {
+    const stable = Array.from(this.el.classList).filter(
+      (name) =>
+        name.length > 0 &&
+        !isHashedClassName(name) &&
+        !isUtilityClassName(name) &&
+        !isStateClassName(name)
+    );
+    if (stable.length === 0) {
+      return [];
+    }
+    const classes = stable.slice(0, MAX_CLASSES_IN_SELECTOR).map((name) => `.${escapeIdent(name)}`);
+    return [{ selector: `${this.tag}${classes.join("")}`, strategy: "class", syntax: "css" }];
+  }
+
+  // `anchor > … > tag:nth-of-type(n)`, anchored at the nearest ancestor with a
+  // unique test id or id. Without one within MAX_PATH_DEPTH the path is
+  // relative and may match elsewhere too.
+  private pathCandidates(): Candidate[] {
+    const segments: string[] = [];
+    let current: Element | null = this.el;
+    while (current && segments.length < MAX_PATH_DEPTH) {
+      if (current !== this.el) {
+        const anchor = this.uniqueAnchor(current);
+        if (anchor !== null) {
+          segments.unshift(anchor);
+          break;
+        }
+      }
+      segments.unshift(nthOfTypeSegment(current));
+      current = current.parentElement;
+    }
+    return [
+      {
+        selector: segments.join(" > "),
+        strategy: "path",
+        syntax: "css",
+        penalty: Math.min(0.5, segments.length * 0.05),
+      },
+    ];
+  }
+
+  private uniqueAnchor(el: Element): string | null {
+    const testId = el.getAttribute("data-testid")?.trim();
+    const id = el.id;
+    const options = [
+      testId ? `[data-testid=${quoteAttributeValue(testId)}]` : null,
+      id && !/\s/.test(id) && !isGeneratedId(id) ? `#${escapeIdent(id)}` : null,
+    ];
+    for (const selector of options) {
+      if (selector === null) continue;
+      try {
+        if (this.root.querySelectorAll(selector).length === 1) return selector;
+      } catch {
+        // Ignore selectors the engine rejects.
+      }
+    }
+    return null;
+  }
+}
+
+function nthOfTypeSegment(el: Element): string {
+  const tag = el.tagName.toLowerCase();
+  const parent = getChildContainer(el);
+  if (!parent) {
+    return tag;
+  }
+  let index = 0;
+  let sameTag = 0;
+  for (const sibling of Array.from(parent.children)) {
+    if (sibling.tagName !== el.tagName) continue;
+    sameTag += 1;
+    if (sibling === el) index = sameTag;
+  }
+  return sameTag > 1 ? `${tag}:nth-of-type(${index})` : tag;
+}
+
+function rankWithinRoot(el: Element, root: ParentNode | null): RankedSelector[] {
+  return root ? new SelectorEngine(el, root).run() : [];
+}
+
+/**
+ * Generate selectors for `el` with several strategies, check each against
+ * the document (or shadow root) it lives in and rank them by uniqueness and
+ * robustness. Hashed and utility class names are never used.
+ *
+ * Inside open shadow roots, CSS selectors are prefixed with the host chain,
+ * one segment per root: `app-shell >>> settings-card >>> button.save`. They
+ * count as unique only when every segment is unique within its own root.
+ */
+export function buildRankedSelectors(el: Element): RankedSelector[] {
+  const local = rankWithinRoot(el, getQueryRoot(el));
+  const hosts = getShadowHostChain(el);
+  if (hosts.length === 0) {
+    return local;
+  }
+
+  const prefix: string[] = [];
+  let prefixUnique = true;
+  for (const host of hosts.slice().reverse()) {
+    const hostSelectors = rankWithinRoot(host, getQueryRoot(host)).filter(
+      (candidate) => candidate.syntax === "css"
+    );
+    const best = hostSelectors[0];
+    prefix.push(best ? best.selector : host.tagName.toLowerCase());
+    prefixUnique = prefixUnique && best !== undefined && best.unique;
+  }
+
+  return rankSelectors(
+    local.map((candidate) => {
+      if (candidate.syntax !== "css") {
+        return candidate;
+      }
+      const unique = candidate.unique && prefixUnique;
+      return {
+        ...candidate,
+        selector: [...prefix, candidate.selector].join(` ${SHADOW_BOUNDARY} `),
+        unique,
+        score:
+          unique === candidate.unique
+            ? candidate.score
+            : Math.round(candidate.score * NON_UNIQUE_FACTOR * 100) / 100,
+      };
+    })
+  );
+}
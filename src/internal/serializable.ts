@@ -1,4 +1,8 @@
-import type { SerializablePrimitive, SerializableValue } from "./schema";
+import type {
+  SerializableObject,
+  SerializableValue,
+  SerializationLimits,
+} from "./schema";
 
 export function truncateText(text: string, limit: number): string {
   const trimmed = text.trim().replace(/\s+/g, " ");
@@ -8,49 +12,435 @@ export function truncateText(text: string, limit: number): string {
   return `${trimmed.slice(0, limit)}…`;
 }
 
-// Serializable-value conversion (best-effort). Returns null when the value
-// should be omitted from snapshots/prompts.
-export function toSerializableValue(
-  value: unknown,
-  depth: number
-): SerializableValue | null {
-  if (depth > 2) {
-    return null;
+export const defaultSerializationLimits: SerializationLimits = {
+  maxDepth: 3,
+  maxArrayItems: 10,
+  maxObjectKeys: 20,
+  maxStringLength: 500,
+};
+
+// Marker keys. `$type` tags a placeholder for a value that JSON cannot carry,
+// `$truncated` says what was left out, `$ref` marks a back-reference.
+const TYPE_KEY = "$type";
+const TRUNCATED_KEY = "$truncated";
+
+const CYCLE_MARKER: SerializableObject = { $ref: "cycle" };
+
+function plural(count: number, noun: string): string {
+  return `${count} more ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function truncationMarker(count: number, noun: string): SerializableObject {
+  return { [TRUNCATED_KEY]: plural(count, noun) };
+}
+
+function serializeString(value: string, limits: SerializationLimits): string {
+  if (value.length <= limits.maxStringLength) {
+    return value;
   }
-  if (value === null) {
+  const omitted = value.length - limits.maxStringLength;
+  return `${value.slice(0, limits.maxStringLength)}…(${plural(omitted, "char")})`;
+}
+
+function serializeNumber(value: number): SerializableValue {
+  if (Number.isFinite(value)) {
+    return value;
+  }
+  return { [TYPE_KEY]: "Number", value: String(value) };
+}
+
+function getFunctionName(fn: unknown): string | null {
+  try {
+    const named = fn as { readonly displayName?: unknown; readonly name?: unknown };
+    const name = typeof named.displayName === "string" ? named.displayName : named.name;
+    return typeof name === "string" && name.length > 0 ? name : null;
+  } catch {
     return null;
   }
-  const t = typeof value;
-  if (t === "string" || t === "number" || t === "boolean") {
-    return value as SerializablePrimitive;
+}
+
+function withName(
+  base: { [key: string]: SerializableValue },
+  key: string,
+  value: string | null
+): SerializableObject {
+  if (value !== null) {
+    base[key] = value;
   }
-  if (Array.isArray(value)) {
-    const items: SerializableValue[] = [];
-    for (let i = 0; i < value.length && i < 5; i += 1) {
-      const converted = toSerializableValue(value[i], depth + 1);
-      if (converted !== null) {
-        items.push(converted);
-      }
+  return base;
+}
+
+const REACT_ELEMENT_TYPES = new Set([
+  "Symbol(react.element)",
+  "Symbol(react.transitional.element)",
+]);
+
+export function isReactElementLike(value: object): boolean {
+  const marker = (value as { readonly $$typeof?: unknown }).$$typeof;
+  return typeof marker === "symbol" && REACT_ELEMENT_TYPES.has(marker.toString());
+}
+
+export function describeReactElementType(type: unknown): string | null {
+  if (typeof type === "string") {
+    return type;
+  }
+  if (typeof type === "function") {
+    return getFunctionName(type);
+  }
+  if (typeof type === "object" && type !== null) {
+    const wrapped = type as {
+      readonly displayName?: unknown;
+      readonly render?: unknown;
+      readonly type?: unknown;
+    };
+    if (typeof wrapped.displayName === "string") {
+      return wrapped.displayName;
     }
-    return items;
+    // forwardRef / memo wrappers
+    return describeReactElementType(wrapped.render ?? wrapped.type ?? null);
   }
-  if (t === "object") {
-    const obj = value as { readonly [key: string]: unknown };
-    const entries = Object.entries(obj);
-    const out: { [key: string]: SerializableValue } = {};
-    let count = 0;
-    for (const [key, v] of entries) {
-      if (count >= 8) {
+  if (typeof type === "symbol") {
+    return type.description ?? null;
+  }
+  return null;
+}
+
+function serializeReactElement(value: object): SerializableObject {
+  const element = value as { readonly type?: unknown; readonly key?: unknown };
+  const out: { [key: string]: SerializableValue } = {
+    [TYPE_KEY]: "ReactElement",
+    type: describeReactElementType(element.type) ?? "Unknown",
+  };
+  if (typeof element.key === "string") {
+    out["key"] = element.key;
+  }
+  return out;
+}
+
+type DomNodeLike = {
+  readonly nodeType: number;
+  readonly nodeName: string;
+};
+
+function isDomNodeLike(value: object): value is DomNodeLike {
+  const node = value as Partial<DomNodeLike>;
+  return typeof node.nodeType === "number" && typeof node.nodeName === "string";
+}
+
+function serializeDomNode(node: DomNodeLike): SerializableObject {
+  // ELEMENT_NODE; checked structurally so nodes from other frames work too.
+  if (node.nodeType === 1) {
+    const el = node as unknown as Element;
+    const out: { [key: string]: SerializableValue } = {
+      [TYPE_KEY]: "Element",
+      tag: el.tagName.toLowerCase(),
+    };
+    if (el.id) {
+      out["id"] = el.id;
+    }
+    const className = typeof el.getAttribute === "function" ? el.getAttribute("class") : null;
+    if (className) {
+      out["className"] = className;
+    }
+    return out;
+  }
+  return { [TYPE_KEY]: "Node", nodeName: node.nodeName };
+}
+
+function isWindowLike(value: object): boolean {
+  const candidate = value as { readonly window?: unknown; readonly document?: unknown };
+  try {
+    return candidate.window === value && typeof candidate.document === "object";
+  } catch {
+    return false;
+  }
+}
+
+function getConstructorName(value: object): string | null {
+  const proto: unknown = Object.getPrototypeOf(value);
+  // `Object.getPrototypeOf(proto) === null` also matches another realm's
+  // Object.prototype, e.g. props of a component rendered inside an iframe.
+  if (proto === null || proto === Object.prototype || Object.getPrototypeOf(proto) === null) {
+    return null;
+  }
+  const ctor = (proto as { readonly constructor?: unknown }).constructor;
+  return typeof ctor === "function" ? getFunctionName(ctor) : null;
+}
+
+// Built-in type from the `[object Tag]` brand. Unlike `instanceof`, this
+// also recognizes values created in another realm (a same-origin iframe).
+function getBuiltinTag(value: object): string {
+  return Object.prototype.toString.call(value).slice(8, -1);
+}
+
+const WEAK_TAGS = new Set(["WeakMap", "WeakSet", "WeakRef"]);
+
+function isTypedArrayLike(value: object): value is ArrayBufferView & { readonly length: number } {
+  return ArrayBuffer.isView(value) && getBuiltinTag(value) !== "DataView";
+}
+
+class ValueSerializer {
+  private readonly limits: SerializationLimits;
+  private readonly ancestors = new Set<object>();
+
+  constructor(limits: SerializationLimits) {
+    this.limits = limits;
+  }
+
+  serialize(value: unknown, depth: number): SerializableValue {
+    switch (typeof value) {
+      case "string":
+        return serializeString(value, this.limits);
+      case "number":
+        return serializeNumber(value);
+      case "boolean":
+        return value;
+      case "undefined":
+        return { [TYPE_KEY]: "Undefined" };
+      case "bigint":
+        return { [TYPE_KEY]: "BigInt", value: value.toString() };
+      case "symbol":
+        return withName({ [TYPE_KEY]: "Symbol" }, "description", value.description ?? null);
+      case "function":
+        return withName({ [TYPE_KEY]: "Function" }, "name", getFunctionName(value));
+      default:
         break;
+    }
+    if (value === null) {
+      return null;
+    }
+    const obj = value as object;
+    if (this.ancestors.has(obj)) {
+      return CYCLE_MARKER;
+    }
+    this.ancestors.add(obj);
+    try {
+      return this.serializeObject(obj, depth);
+    } catch (error) {
+      // Proxies, throwing getters and revoked objects all land here.
+      return withName(
+        { [TYPE_KEY]: "Unreadable" },
+        "reason",
+        error instanceof Error ? error.message : null
+      );
+    } finally {
+      this.ancestors.delete(obj);
+    }
+  }
+
+  private serializeObject(value: object, depth: number): SerializableValue {
+    if (isReactElementLike(value)) {
+      return serializeReactElement(value);
+    }
+    if (isDomNodeLike(value)) {
+      return serializeDomNode(value);
+    }
+    if (isWindowLike(value)) {
+      return { [TYPE_KEY]: "Window" };
+    }
+    const tag = getBuiltinTag(value);
+    if (tag === "Date") {
+      const date = value as Date;
+      const time = date.getTime();
+      return {
+        [TYPE_KEY]: "Date",
+        value: Number.isNaN(time) ? "Invalid Date" : date.toISOString(),
+      };
+    }
+    if (tag === "RegExp") {
+      return { [TYPE_KEY]: "RegExp", value: String(value) };
+    }
+    if (tag === "Error") {
+      const error = value as Error;
+      return { [TYPE_KEY]: "Error", name: error.name, message: error.message };
+    }
+    if (tag === "Promise") {
+      return { [TYPE_KEY]: "Promise" };
+    }
+    if (WEAK_TAGS.has(tag)) {
+      return { [TYPE_KEY]: getConstructorName(value) ?? tag };
+    }
+    if (tag === "ArrayBuffer") {
+      return { [TYPE_KEY]: "ArrayBuffer", byteLength: (value as ArrayBuffer).byteLength };
+    }
+    if (isTypedArrayLike(value)) {
+      return { [TYPE_KEY]: getConstructorName(value) ?? "TypedArray", length: value.length };
+    }
+
+    if (Array.isArray(value)) {
+      if (depth >= this.limits.maxDepth) {
+        return { [TYPE_KEY]: "Array", length: value.length, [TRUNCATED_KEY]: "max depth" };
+      }
+      return this.serializeList(value, depth, "item");
+    }
+    if (tag === "Map") {
+      const map = value as Map<unknown, unknown>;
+      if (depth >= this.limits.maxDepth) {
+        return { [TYPE_KEY]: "Map", size: map.size, [TRUNCATED_KEY]: "max depth" };
       }
-      const converted = toSerializableValue(v, depth + 1);
-      if (converted !== null) {
-        out[key] = converted;
-        count += 1;
+      return {
+        [TYPE_KEY]: "Map",
+        size: map.size,
+        entries: this.serializeList(Array.from(map.entries()), depth, "entry"),
+      };
+    }
+    if (tag === "Set") {
+      const set = value as Set<unknown>;
+      if (depth >= this.limits.maxDepth) {
+        return { [TYPE_KEY]: "Set", size: set.size, [TRUNCATED_KEY]: "max depth" };
       }
+      return {
+        [TYPE_KEY]: "Set",
+        size: set.size,
+        values: this.serializeList(Array.from(set.values()), depth, "value"),
+      };
+    }
+
+    const className = getConstructorName(value);
+    if (depth >= this.limits.maxDepth) {
+      const placeholder: { [key: string]: SerializableValue } = {
+        [TYPE_KEY]: className === null ? "Object" : "Instance",
+        keys: Object.keys(value).length,
+        [TRUNCATED_KEY]: "max depth",
+      };
+      return withName(placeholder, "className", className);
+    }
+    const fields = this.serializeRecord(value, depth);
+    if (className === null) {
+      return fields;
+    }
+    return { [TYPE_KEY]: "Instance", className, value: fields };
+  }
+
+  private serializeList(
+    items: readonly unknown[],
+    depth: number,
+    noun: string
+  ): SerializableValue[] {
+    const out: SerializableValue[] = [];
+    const limit = Math.min(items.length, this.limits.maxArrayItems);
+    for (let i = 0; i < limit; i += 1) {
+      out.push(this.serialize(items[i], depth + 1));
+    }
+    if (items.length > limit) {
+      out.push(truncationMarker(items.length - limit, noun));
     }
     return out;
   }
-  return null;
+
+  private serializeRecord(value: object, depth: number): SerializableObject {
+    const record = value as { readonly [key: string]: unknown };
+    const keys = Object.keys(record);
+    const out: { [key: string]: SerializableValue } = {};
+    const limit = Math.min(keys.length, this.limits.maxObjectKeys);
+    for (let i = 0; i < limit; i += 1) {
+      const key = keys[i]!;
+      out[key] = this.serialize(record[key], depth + 1);
+    }
+    if (keys.length > limit) {
+      out[TRUNCATED_KEY] = plural(keys.length - limit, "key");
+    }
+    return out;
+  }
+}
+
+/**
+ * Convert an arbitrary runtime value into JSON-safe data for snapshots and
+ * prompts.
+ *
+ * Values JSON cannot represent become typed placeholders instead of being
+ * dropped (`{"$type":"Function","name":"onSave"}`, `{"$type":"Map","size":3,…}`,
+ * `{"$ref":"cycle"}`), and anything cut by `limits` leaves a `$truncated`
+ * marker. `null` in the output therefore always means the value was `null`.
+ */
+export function toSerializableValue(
+  value: unknown,
+  depth: number,
+  limits: SerializationLimits = defaultSerializationLimits
+): SerializableValue {
+  return new ValueSerializer(limits).serialize(value, depth);
 }
 
+const STRING_TRUNCATION = /…\(\d+ more chars?\)$/;
+
+/** Whether `toSerializableValue` cut anything from `value`. */
+export function hasTruncationMarker(value: SerializableValue | null): boolean {
+  if (typeof value === "string") {
+    return STRING_TRUNCATION.test(value);
+  }
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+  if (Array.isArray(value)) {
+    return value.some(hasTruncationMarker);
+  }
+  const record = value as SerializableObject;
+  return TRUNCATED_KEY in record || Object.values(record).some(hasTruncationMarker);
+}
+
+const MAX_CHILD_TEXT = 40;
+
+// Arrays (and nested arrays) are flattened; null, undefined and booleans
+// render nothing, as in React.
+function flattenChildren(children: unknown, out: unknown[]): unknown[] {
+  if (Array.isArray(children)) {
+    for (const child of children) flattenChildren(child, out);
+  } else if (children !== null && children !== undefined && typeof children !== "boolean") {
+    out.push(children);
+  }
+  return out;
+}
+
+function outlineChildList(items: readonly unknown[], depth: number, limits: SerializationLimits): string {
+  const shown = items.slice(0, limits.maxArrayItems).map((item) => outlineChild(item, depth, limits));
+  const hidden = items.length - shown.length;
+  return hidden > 0 ? `${shown.join("")}…${hidden} more` : shown.join("");
+}
+
+function outlineChild(child: unknown, depth: number, limits: SerializationLimits): string {
+  if (typeof child === "string" || typeof child === "number" || typeof child === "bigint") {
+    return JSON.stringify(truncateText(String(child), MAX_CHILD_TEXT));
+  }
+  if (typeof child === "function") {
+    return `{${getFunctionName(child) ?? "function"}()}`;
+  }
+  if (typeof child !== "object" || child === null) {
+    return `{${typeof child}}`;
+  }
+  if (!isReactElementLike(child)) {
+    return `{${getConstructorName(child) ?? (Array.isArray(child) ? "Array" : "Object")}}`;
+  }
+  const element = child as {
+    readonly type?: unknown;
+    readonly key?: unknown;
+    readonly props?: { readonly children?: unknown } | null;
+  };
+  const name = describeReactElementType(element.type) ?? "Unknown";
+  const key = typeof element.key === "string" ? ` key="${element.key}"` : "";
+  const inner = flattenChildren(element.props?.children, []);
+  if (inner.length === 0) {
+    return `<${name}${key}/>`;
+  }
+  const body =
+    depth + 1 >= limits.maxDepth
+      ? `…${inner.length} ${inner.length === 1 ? "child" : "children"}`
+      : outlineChildList(inner, depth + 1, limits);
+  return `<${name}${key}>${body}</${name}>`;
+}
+
+/**
+ * JSX-like outline of a React `children` value, e.g.
+ * `<Card><Title/>"Total"<List>…3 children</List></Card>`. Elements below
+ * `limits.maxDepth` collapse to a child count, lists stop after
+ * `maxArrayItems` and the whole outline after `maxStringLength`.
+ */
+export function summarizeReactChildren(
+  children: unknown,
+  limits: SerializationLimits = defaultSerializationLimits
+): string {
+  try {
+    return serializeString(outlineChildList(flattenChildren(children, []), 0, limits), limits);
+  } catch {
+    return "{unreadable}";
+  }
+}
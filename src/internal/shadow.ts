@@ -0,0 +1,75 @@
+// Helpers for walking the composed tree: open shadow roots are entered and
+// left like any other parent/child boundary.
+
+// Marks a shadow boundary in selector paths: `my-card >>> button.save`.
+export const SHADOW_BOUNDARY = ">>>";
+
+export function isElementNode(value: unknown): value is Element {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { readonly nodeType?: unknown }).nodeType === 1
+  );
+}
+
+// DOCUMENT_FRAGMENT_NODE with a host: a shadow root.
+export function isShadowRoot(value: unknown): value is ShadowRoot {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { readonly nodeType?: unknown }).nodeType === 11 &&
+    isElementNode((value as { readonly host?: unknown }).host)
+  );
+}
+
+/**
+ * The element an event really happened on. `event.target` is retargeted to
+ * the outermost shadow host; the composed path still starts at the
+ * innermost element inside open shadow roots.
+ */
+export function getComposedEventTarget(event: Event): Element | null {
+  const path = typeof event.composedPath === "function" ? event.composedPath() : [];
+  for (const entry of path) {
+    if (isElementNode(entry)) {
+      return entry;
+    }
+  }
+  return isElementNode(event.target) ? event.target : null;
+}
+
+/** Parent element, continuing from a shadow root's top level to its host. */
+export function getComposedParent(el: Element): Element | null {
+  if (el.parentElement) {
+    return el.parentElement;
+  }
+  const parent = el.parentNode;
+  return isShadowRoot(parent) ? parent.host : null;
+}
+
+/** The parent node whose `children` include `el` (element or shadow root). */
+export function getChildContainer(el: Element): ParentNode | null {
+  if (el.parentElement) {
+    return el.parentElement;
+  }
+  const parent = el.parentNode;
+  return isShadowRoot(parent) ? parent : null;
+}
+
+/** Shadow hosts enclosing `el`, innermost first; empty in the light DOM. */
+export function getShadowHostChain(el: Element): Element[] {
+  const hosts: Element[] = [];
+  let root = el.getRootNode();
+  while (isShadowRoot(root)) {
+    hosts.push(root.host);
+    root = root.host.getRootNode();
+  }
+  return hosts;
+}
+
+/** The document or shadow root `el` lives in, when it can be queried. */
+export function getQueryRoot(el: Element): ParentNode | null {
+  const root = el.getRootNode();
+  return typeof (root as Partial<ParentNode>).querySelectorAll === "function"
+    ? (root as ParentNode)
+    : null;
+}
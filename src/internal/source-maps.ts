@@ -0,0 +1,363 @@
+// Source map resolution: maps bundled (minified) source locations back to
+// the original files, reading `.map` files from the page's own origin.
+
+import type { SourceLocation, SourceMapOptions } from "./schema";
+
+const DEFAULT_TIMEOUT_MS = 3000;
+
+// [generatedColumn, sourceIndex, originalLine, originalColumn], all 0-based.
+type MappingSegment = readonly [number, number, number, number];
+
+type DecodedSourceMap = {
+  readonly sources: readonly string[];
+  // Indexed by generated line; segments sorted by generated column.
+  readonly lines: readonly (readonly MappingSegment[])[];
+};
+
+// Index maps (`sections`) are flattened into offset sub-maps.
+type LoadedSourceMap = readonly {
+  readonly line: number;
+  readonly column: number;
+  readonly map: DecodedSourceMap;
+}[];
+
+type RawSourceMap = {
+  readonly sources?: readonly (string | null)[];
+  readonly sourceRoot?: string;
+  readonly mappings?: string;
+  readonly sections?: readonly {
+    readonly offset: { readonly line: number; readonly column: number };
+    readonly map: RawSourceMap;
+  }[];
+};
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_VALUES = new Map(Array.from(BASE64, (char, i) => [char, i]));
+
+// Base64 VLQ fields of one segment.
+function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) {
+      throw new Error(`Invalid source map mappings: unexpected character "${char}"`);
+    }
+    value += (digit & 31) * 2 ** shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value - 1) / 2 : value / 2);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+function decodeMappings(mappings: string): MappingSegment[][] {
+  const lines: MappingSegment[][] = [];
+  let sourceIndex = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  for (const line of mappings.split(";")) {
+    const segments: MappingSegment[] = [];
+    let generatedColumn = 0;
+    for (const encoded of line.split(",")) {
+      if (encoded.length === 0) continue;
+      const fields = decodeVlq(encoded);
+      generatedColumn += fields[0] ?? 0;
+      // One-field segments map to nothing.
+      if (fields.length < 4) continue;
+      sourceIndex += fields[1]!;
+      originalLine += fields[2]!;
+      originalColumn += fields[3]!;
+      segments.push([generatedColumn, sourceIndex, originalLine, originalColumn]);
+    }
+    segments.sort((a, b) => a[0] - b[0]);
+    lines.push(segments);
+  }
+  return lines;
+}
+
+function decodeSourceMap(raw: RawSourceMap, mapUrl: string): LoadedSourceMap {
+  if (raw.sections) {
+    return raw.sections.flatMap((section) =>
+      decodeSourceMap(section.map, mapUrl).map((part) => ({
+        line: part.line + section.offset.line,
+        column: part.column + section.offset.column,
+        map: part.map,
+      }))
+    );
+  }
+  const root = raw.sourceRoot ? raw.sourceRoot.replace(/\/?$/, "/") : "";
+  return [
+    {
+      line: 0,
+      column: 0,
+      map: {
+        sources: (raw.sources ?? []).map((source) =>
+          resolveSourceUrl(`${root}${source ?? ""}`, mapUrl)
+        ),
+        lines: decodeMappings(raw.mappings ?? ""),
+      },
+    },
+  ];
+}
+
+// Bundler schemes are kept as-is; plain relative paths resolve against the map.
+function resolveSourceUrl(source: string, mapUrl: string): string {
+  if (/^[a-z][\w+.-]*:/i.test(source) || source.startsWith("/")) {
+    return source;
+  }
+  const mapDirectory = mapUrl.startsWith("data:") ? "" : mapUrl.replace(/[^/]*$/, "");
+  return mapDirectory.length > 0 ? new URL(source, mapDirectory).href : source;
+}
+
+function getPageOrigin(): string | null {
+  const location = (globalThis as { readonly location?: Location }).location;
+  return location?.origin && location.origin !== "null" ? location.origin : null;
+}
+
+function toSameOriginUrl(value: string, origin: string): URL | null {
+  try {
+    const url = new URL(value, `${origin}/`);
+    return url.origin === origin ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+// Network errors, timeouts and 5xx/408/429 responses. A later capture may
+// succeed, so these are not cached.
+class TransientFetchError extends Error {}
+
+// `read` of the response body, with the timeout covering the body as well
+// as the headers. Null for responses that will not change on a retry (404s
+// and other client errors).
+async function fetchWithTimeout<T>(
+  url: string,
+  options: SourceMapOptions,
+  read: (response: Response) => Promise<T>
+): Promise<T | null> {
+  const fetcher = options.fetch ?? globalThis.fetch;
+  if (typeof fetcher !== "function") return null;
+  const controller = typeof AbortController === "function" ? new AbortController() : null;
+  const timer = setTimeout(() => controller?.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  try {
+    let response: Response;
+    try {
+      response = await fetcher(url, controller ? { signal: controller.signal } : undefined);
+    } catch (error) {
+      throw new TransientFetchError(`Failed to fetch ${url}: ${String(error)}`);
+    }
+    if (!response.ok) {
+      const { status } = response;
+      if (status >= 500 || status === 408 || status === 429) {
+        throw new TransientFetchError(`Failed to fetch ${url}: HTTP ${status}`);
+      }
+      return null;
+    }
+    try {
+      return await read(response);
+    } catch (error) {
+      // An abort mid-body is a timeout; anything else (bad JSON) is permanent.
+      if (controller?.signal.aborted) {
+        throw new TransientFetchError(`Timed out reading ${url}`);
+      }
+      throw error;
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const SOURCE_MAPPING_URL = /[#@]\s*sourceMappingURL=([^\s'"*]+)\s*(?:\*\/)?\s*$/;
+
+// The map URL from the `SourceMap` header or the trailing comment; falls
+// back to `<script>.map`.
+async function findSourceMapUrl(
+  scriptUrl: URL,
+  options: SourceMapOptions
+): Promise<string> {
+  const found = await fetchWithTimeout(scriptUrl.href, options, async (response) => {
+    const header = response.headers.get("SourceMap") ?? response.headers.get("X-SourceMap");
+    if (header) {
+      return new URL(header, scriptUrl).href;
+    }
+    const text = await response.text();
+    const match = SOURCE_MAPPING_URL.exec(text.slice(-2048));
+    if (!match) {
+      return null;
+    }
+    return match[1]!.startsWith("data:") ? match[1]! : new URL(match[1]!, scriptUrl).href;
+  });
+  return found ?? `${scriptUrl.href}.map`;
+}
+
+async function readSourceMapJson(
+  mapUrl: string,
+  origin: string,
+  options: SourceMapOptions
+): Promise<RawSourceMap | null> {
+  if (mapUrl.startsWith("data:")) {
+    const comma = mapUrl.indexOf(",");
+    const payload = mapUrl.slice(comma + 1);
+    const json = mapUrl.slice(0, comma).endsWith(";base64")
+      ? new TextDecoder().decode(Uint8Array.from(atob(payload), (c) => c.charCodeAt(0)))
+      : decodeURIComponent(payload);
+    return JSON.parse(json) as RawSourceMap;
+  }
+  const sameOrigin = toSameOriginUrl(mapUrl, origin);
+  if (!sameOrigin) return null;
+  return fetchWithTimeout(
+    sameOrigin.href,
+    options,
+    async (response) => (await response.json()) as RawSourceMap
+  );
+}
+
+// Keyed by script URL. Missing or malformed maps stay cached as null;
+// transient failures are dropped so the next capture retries.
+const sourceMapCache = new Map<string, Promise<LoadedSourceMap | null>>();
+
+function loadSourceMap(
+  scriptUrl: URL,
+  origin: string,
+  options: SourceMapOptions
+): Promise<LoadedSourceMap | null> {
+  const key = scriptUrl.href;
+  let pending = sourceMapCache.get(key);
+  if (!pending) {
+    pending = (async () => {
+      try {
+        const mapUrl = await findSourceMapUrl(scriptUrl, options);
+        const raw = await readSourceMapJson(mapUrl, origin, options);
+        return raw ? decodeSourceMap(raw, mapUrl) : null;
+      } catch (error) {
+        if (error instanceof TransientFetchError && sourceMapCache.get(key) === pending) {
+          sourceMapCache.delete(key);
+        }
+        return null;
+      }
+    })();
+    sourceMapCache.set(key, pending);
+  }
+  return pending;
+}
+
+/** Forget every loaded source map (e.g. after a redeploy). */
+export function clearSourceMapCache(): void {
+  sourceMapCache.clear();
+}
+
+type OriginalPosition = {
+  readonly source: string;
+  readonly line: number;
+  readonly column: number;
+  readonly exact: boolean;
+};
+
+// 0-based generated position → 0-based original position.
+function lookupOriginalPosition(
+  loaded: LoadedSourceMap,
+  line: number,
+  column: number
+): OriginalPosition | null {
+  const parts = loaded.filter((p) => p.line < line || (p.line === line && p.column <= column));
+  const part = parts[parts.length - 1];
+  if (!part) return null;
+  const localLine = line - part.line;
+  const localColumn = localLine === 0 ? column - part.column : column;
+  const segments = part.map.lines[localLine] ?? [];
+  let found: MappingSegment | null = null;
+  for (const segment of segments) {
+    if (segment[0] > localColumn) break;
+    found = segment;
+  }
+  const source = found ? part.map.sources[found[1]] : undefined;
+  if (!found || source === undefined) return null;
+  return { source, line: found[2], column: found[3], exact: found[0] === localColumn };
+}
+
+/**
+ * Turn a source-map `sources` entry into a repo-relative path: drops
+ * `webpack://<namespace>/`, `turbopack:///[project]/`, Vite's `/@fs`,
+ * `file://`, query strings, leading `./` and `../`, the page origin (what
+ * the dev server serves from its root) and `stripPrefixes`. Dependencies
+ * keep their path from `node_modules/`.
+ */
+export function normalizeSourcePath(
+  source: string,
+  stripPrefixes: readonly string[] = []
+): string {
+  let path = source
+    .replace(/^webpack:\/\/[^/]*\//, "")
+    .replace(/^turbopack:\/\/\/(?:\[[^\]]+\]\/)?/, "")
+    .replace(/^file:\/\//, "")
+    .replace(/[?#].*$/, "");
+  const origin = getPageOrigin();
+  if (origin !== null && path.startsWith(`${origin}/`)) {
+    path = path.slice(origin.length);
+    // `/@fs/<absolute path>` is outside the dev server root; the rest is in it.
+    path = path.startsWith("/@fs/") ? path : path.slice(1);
+  }
+  path = path.replace(/^\/@fs(?=\/)/, "");
+  try {
+    path = decodeURI(path);
+  } catch {
+    // Keep malformed escapes as they are.
+  }
+  for (const prefix of stripPrefixes) {
+    if (prefix.length > 0 && path.startsWith(prefix)) {
+      path = path.slice(prefix.length);
+      break;
+    }
+  }
+  const modules = path.lastIndexOf("node_modules/");
+  if (modules >= 0) {
+    return path.slice(modules);
+  }
+  return path.replace(/^(?:\.\.?\/)+/, "");
+}
+
+/**
+ * Resolve a bundled location (a same-origin script URL with line and
+ * column) through the script's source map. Returns the original file,
+ * line and column with `origin: "sourcemap"`, or `location` unchanged when
+ * it is not a script URL or no mapping is found.
+ */
+export async function resolveSourceLocation(
+  location: SourceLocation,
+  options: SourceMapOptions = {}
+): Promise<SourceLocation> {
+  const origin = getPageOrigin();
+  if (origin === null || location.lineNumber === null || !/^https?:|^\//.test(location.fileName)) {
+    return location;
+  }
+  const scriptUrl = toSameOriginUrl(location.fileName, origin);
+  if (!scriptUrl) {
+    return location;
+  }
+  const loaded = await loadSourceMap(scriptUrl, origin, options);
+  if (!loaded) {
+    return location;
+  }
+  // Stack trace positions are 1-based; source maps are 0-based.
+  const position = lookupOriginalPosition(
+    loaded,
+    location.lineNumber - 1,
+    Math.max(0, (location.columnNumber ?? 1) - 1)
+  );
+  if (!position) {
+    return location;
+  }
+  return {
+    fileName: normalizeSourcePath(position.source, options.stripPrefixes),
+    lineNumber: position.line + 1,
+    columnNumber: position.column + 1,
+    confidence: position.exact ? "high" : "medium",
+    origin: "sourcemap",
+  };
+}
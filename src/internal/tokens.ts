@@ -0,0 +1,149 @@
+import type {
+  CustomPropertyValue,
+  DesignTokenInfo,
+  DesignTokenTable,
+  StyleFrame,
+  TokenMatch,
+  VariableReference,
+} from "./schema";
+import type { WinningDeclaration } from "./css-rules";
+
+const MAX_VARIABLES = 40;
+const MAX_REFERENCES = 40;
+
+const VAR_REFERENCE = /var\(\s*(--[^\s,)]+)/g;
+
+/** Custom property names read by a declaration value, in order. */
+export function extractVariableNames(value: string): string[] {
+  const names: string[] = [];
+  for (const match of value.matchAll(VAR_REFERENCE)) {
+    const name = match[1]!;
+    if (!names.includes(name)) names.push(name);
+  }
+  return names;
+}
+
+function hexToRgb(hex: string): string | null {
+  const digits = hex.slice(1);
+  const expanded =
+    digits.length === 3 || digits.length === 4
+      ? Array.from(digits, (d) => d + d).join("")
+      : digits;
+  if (!/^[0-9a-f]{6}([0-9a-f]{2})?$/.test(expanded)) return null;
+  const channel = (i: number) => Number.parseInt(expanded.slice(i, i + 2), 16);
+  const rgb = `${channel(0)},${channel(2)},${channel(4)}`;
+  if (expanded.length === 6) return `rgb(${rgb})`;
+  const alpha = Math.round((channel(6) / 255) * 100) / 100;
+  return alpha === 1 ? `rgb(${rgb})` : `rgba(${rgb},${alpha})`;
+}
+
+/**
+ * Canonical form for comparing token values with computed values: lowercase,
+ * no insignificant whitespace, hex colors as `rgb()`/`rgba()` (the form
+ * `getComputedStyle` reports).
+ */
+export function normalizeTokenValue(value: string): string {
+  const compact = value
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/\s*([(),/])\s*/g, "$1");
+  if (compact.startsWith("#")) {
+    return hexToRgb(compact) ?? compact;
+  }
+  const opaque = /^rgba\((\d+,\d+,\d+),1\)$/.exec(compact);
+  return opaque ? `rgb(${opaque[1]})` : compact;
+}
+
+type TokenLookup = (value: string) => string | null;
+
+function createTokenLookup(table: DesignTokenTable | null): TokenLookup {
+  const byValue = new Map<string, string>();
+  for (const [token, value] of Object.entries(table ?? {})) {
+    const key = normalizeTokenValue(value);
+    // The first token listed for a value wins.
+    if (!byValue.has(key)) byValue.set(key, token);
+  }
+  return (value) => (byValue.size === 0 ? null : byValue.get(normalizeTokenValue(value)) ?? null);
+}
+
+const BOX_SIDES = ["top", "right", "bottom", "left"] as const;
+
+/** Captured style values as `[property, value]` pairs (kebab-case longhands). */
+function listCapturedValues(frame: Omit<StyleFrame, "tokens">): [string, string][] {
+  const pairs: [string, string | null][] = [
+    ["color", frame.colors.color],
+    ["background-color", frame.colors.backgroundColor],
+    ["border-color", frame.colors.borderColor],
+    ["font-family", frame.typography.fontFamily],
+    ["font-size", frame.typography.fontSize],
+    ["font-weight", frame.typography.fontWeight],
+    ["line-height", frame.typography.lineHeight],
+    ["gap", frame.layout.gap],
+  ];
+  for (const base of ["margin", "padding"] as const) {
+    const sides = frame.spacing[base]?.split(" ") ?? [];
+    BOX_SIDES.forEach((side, i) => pairs.push([`${base}-${side}`, sides[i] ?? null]));
+  }
+  const seen = new Set(pairs.map(([property]) => property));
+  for (const group of Object.values(frame.computedDiff?.groups ?? {})) {
+    for (const [property, value] of Object.entries(group ?? {})) {
+      if (!seen.has(property)) pairs.push([property, value]);
+    }
+  }
+  return pairs.filter((pair): pair is [string, string] => pair[1] !== null);
+}
+
+/**
+ * Which custom properties feed the element's styles: `var()` references in
+ * the winning declarations, the custom properties in scope with their
+ * values, and captured raw values that equal a configured design token.
+ */
+export function buildDesignTokenInfo(
+  el: Element,
+  frame: Omit<StyleFrame, "tokens">,
+  winners: readonly WinningDeclaration[],
+  table: DesignTokenTable | null
+): DesignTokenInfo {
+  const view = el.ownerDocument.defaultView;
+  const computed =
+    view && typeof view.getComputedStyle === "function" ? view.getComputedStyle(el) : null;
+  const lookup = createTokenLookup(table);
+
+  const references: VariableReference[] = [];
+  for (const winner of winners) {
+    const variables = extractVariableNames(winner.value);
+    if (variables.length === 0) continue;
+    const resolved = computed?.getPropertyValue(winner.property).trim() ?? "";
+    references.push({
+      property: winner.property,
+      declaration: winner.value,
+      variables,
+      resolved: resolved.length > 0 ? resolved : null,
+    });
+    if (references.length >= MAX_REFERENCES) break;
+  }
+
+  const names = references.flatMap((reference) => reference.variables);
+  if (computed) {
+    for (let i = 0; i < computed.length; i += 1) {
+      const property = computed.item(i);
+      if (property.startsWith("--")) names.push(property);
+    }
+  }
+  const variables: CustomPropertyValue[] = [];
+  for (const name of new Set(names)) {
+    if (variables.length >= MAX_VARIABLES) break;
+    const value = computed?.getPropertyValue(name).trim() ?? "";
+    if (value.length === 0) continue;
+    variables.push({ name, value, token: lookup(value) });
+  }
+
+  const tokenMatches: TokenMatch[] = [];
+  for (const [property, value] of listCapturedValues(frame)) {
+    const token = lookup(value);
+    if (token !== null) tokenMatches.push({ property, value, token });
+  }
+
+  return { references, variables, tokenMatches };
+}
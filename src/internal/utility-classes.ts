@@ -0,0 +1,282 @@
+import type {
+  UtilityClass,
+  UtilityClassInfo,
+  UtilityConcern,
+} from "./schema";
+import type { WinningDeclaration } from "./css-rules";
+import { isUtilityClassName } from "./selectors";
+
+// Checked in order; the first matching prefix decides the concern. `text-`
+// and `border-` are split further in `classifyUtility`.
+const CONCERN_PREFIXES: ReadonlyArray<readonly [UtilityConcern, readonly string[]]> = [
+  [
+    "layout",
+    [
+      "flex",
+      "grid",
+      "block",
+      "inline",
+      "contents",
+      "hidden",
+      "relative",
+      "absolute",
+      "fixed",
+      "sticky",
+      "static",
+      "container",
+      "top-",
+      "left-",
+      "right-",
+      "bottom-",
+      "inset",
+      "z-",
+      "col-",
+      "row-",
+      "auto-cols",
+      "auto-rows",
+      "order-",
+      "basis-",
+      "grow",
+      "shrink",
+      "items-",
+      "justify-",
+      "content-",
+      "self-",
+      "place-",
+      "overflow",
+      "columns-",
+      "float-",
+      "clear-",
+      "align-",
+      "object-",
+      "aspect-",
+      "visible",
+      "invisible",
+      "sr-only",
+    ],
+  ],
+  [
+    "spacing",
+    [
+      "p-",
+      "px-",
+      "py-",
+      "pt-",
+      "pr-",
+      "pb-",
+      "pl-",
+      "ps-",
+      "pe-",
+      "m-",
+      "mx-",
+      "my-",
+      "mt-",
+      "mr-",
+      "mb-",
+      "ml-",
+      "ms-",
+      "me-",
+      "gap",
+      "space-",
+      "scroll-m",
+      "scroll-p",
+    ],
+  ],
+  ["sizing", ["w-", "h-", "size-", "min-w", "min-h", "max-w", "max-h"]],
+  [
+    "typography",
+    [
+      "font-",
+      "leading-",
+      "tracking-",
+      "truncate",
+      "underline",
+      "italic",
+      "uppercase",
+      "lowercase",
+      "capitalize",
+      "antialiased",
+      "whitespace-",
+      "break-",
+      "line-clamp",
+      "decoration-",
+      "indent-",
+      "list-",
+    ],
+  ],
+  ["color", ["bg-", "from-", "via-", "to-", "fill-", "stroke-", "accent-", "caret-"]],
+  ["border", ["border", "rounded", "ring", "outline", "divide"]],
+  [
+    "effects",
+    [
+      "shadow",
+      "opacity-",
+      "blur",
+      "brightness-",
+      "drop-shadow",
+      "backdrop-",
+      "transition",
+      "duration-",
+      "ease-",
+      "delay-",
+      "animate-",
+      "translate-",
+      "scale-",
+      "rotate-",
+      "skew-",
+      "will-change",
+    ],
+  ],
+  ["interaction", ["cursor-", "select-", "pointer-events", "resize", "snap-"]],
+];
+
+const TEXT_TYPOGRAPHY =
+  /^text-(?:xs|sm|base|lg|\d?xl|left|center|right|justify|start|end|wrap|nowrap|balance|pretty|ellipsis|clip)$/;
+
+const BORDER_WIDTH_OR_STYLE =
+  /^border(?:-[xytrblse])?(?:-(?:\d+|solid|dashed|dotted|double|hidden|none|\[[^\]]*px\]))?$/;
+
+function classifyUtility(utility: string): UtilityConcern {
+  if (utility.startsWith("text-")) {
+    return TEXT_TYPOGRAPHY.test(utility) || /^text-\[\d/.test(utility)
+      ? "typography"
+      : "color";
+  }
+  if (utility.startsWith("border") && !BORDER_WIDTH_OR_STYLE.test(utility)) {
+    // `border-red-500`, `border-t-slate-200`.
+    return /^border-(?:collapse|separate|spacing)/.test(utility) ? "layout" : "color";
+  }
+  for (const [concern, prefixes] of CONCERN_PREFIXES) {
+    if (prefixes.some((prefix) => utility === prefix || utility.startsWith(prefix))) {
+      return concern;
+    }
+  }
+  return "other";
+}
+
+// Splits on `:` outside `[...]`, so `[&:hover]:underline` and
+// `bg-[url(a:b)]` stay intact.
+function splitVariants(className: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < className.length; i += 1) {
+    const ch = className[i];
+    if (ch === "[" || ch === "(") depth += 1;
+    else if ((ch === "]" || ch === ")") && depth > 0) depth -= 1;
+    else if (ch === ":" && depth === 0) {
+      parts.push(className.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(className.slice(start));
+  return parts;
+}
+
+/**
+ * Split a utility class into its variants (`md`, `hover`, `dark`, …) and the
+ * utility itself; `!` (either end) marks it important.
+ */
+export function parseUtilityClass(
+  className: string
+): Omit<UtilityClass, "sets"> {
+  const parts = splitVariants(className);
+  let utility = parts.pop() ?? className;
+  let important = false;
+  if (utility.startsWith("!")) {
+    important = true;
+    utility = utility.slice(1);
+  } else if (utility.endsWith("!")) {
+    important = true;
+    utility = utility.slice(0, -1);
+  }
+  const unsigned = utility.startsWith("-") ? utility.slice(1) : utility;
+  return {
+    className,
+    utility,
+    variants: parts,
+    important,
+    concern: classifyUtility(unsigned),
+  };
+}
+
+const CLASS_SELECTOR = /\.((?:\\[0-9a-fA-F]{1,6}\s?|\\.|[\w\u00a0-\uffff-])+)/g;
+const CSS_ESCAPE = /\\(?:([0-9a-fA-F]{1,6})\s?|(.))/g;
+
+// Class names a selector requires, unescaped (`.md\:p-4` → `md:p-4`).
+function selectorClassNames(selector: string): Set<string> {
+  const names = new Set<string>();
+  for (const match of selector.matchAll(CLASS_SELECTOR)) {
+    names.add(
+      match[1]!.replace(CSS_ESCAPE, (_, hex: string | undefined, char: string | undefined) =>
+        hex ? String.fromCodePoint(Number.parseInt(hex, 16)) : char ?? ""
+      )
+    );
+  }
+  return names;
+}
+
+function usesTailwindSyntax(className: string): boolean {
+  // Variant prefixes and arbitrary values are Tailwind's (and its clones').
+  return splitVariants(className).length > 1 || /-\[[^\]]+\]$/.test(className);
+}
+
+function hasTailwindVariables(el: Element): boolean {
+  const view = el.ownerDocument.defaultView;
+  if (!view || typeof view.getComputedStyle !== "function") return false;
+  const computed = view.getComputedStyle(el);
+  for (let i = 0; i < computed.length; i += 1) {
+    if (computed.item(i).startsWith("--tw-")) return true;
+  }
+  return false;
+}
+
+/**
+ * The element's utility classes grouped by concern and variant, with the
+ * longhands each one wins the cascade for. Null when the class list has no
+ * utility classes.
+ */
+export function buildUtilityClassInfo(
+  el: Element,
+  winners: readonly WinningDeclaration[]
+): UtilityClassInfo | null {
+  const classAttribute = el.getAttribute("class") ?? "";
+  const classes = classAttribute.split(/\s+/).filter((name) => name.length > 0);
+  const parsed = classes
+    .filter((name) => isUtilityClassName(name))
+    .map((name) => parseUtilityClass(name));
+  if (parsed.length === 0) {
+    return null;
+  }
+
+  const setters = winners.map((winner) => ({
+    property: winner.property,
+    classes: selectorClassNames(winner.selector),
+  }));
+  const utilities: UtilityClass[] = parsed.map((entry) => ({
+    ...entry,
+    sets: setters
+      .filter((setter) => setter.classes.has(entry.className))
+      .map((setter) => setter.property),
+  }));
+
+  const groups: { [concern in UtilityConcern]?: string[] } = {};
+  const variants: { [variant: string]: string[] } = {};
+  for (const entry of utilities) {
+    (groups[entry.concern] ??= []).push(entry.className);
+    for (const variant of entry.variants) {
+      (variants[variant] ??= []).push(entry.className);
+    }
+  }
+
+  const tailwind =
+    utilities.some((entry) => usesTailwindSyntax(entry.className)) || hasTailwindVariables(el);
+  return {
+    framework: tailwind ? "tailwind" : "utility",
+    classAttribute,
+    utilities,
+    otherClasses: classes.filter((name) => !isUtilityClassName(name)),
+    groups,
+    variants,
+  };
+}
@@ -0,0 +1,213 @@
+// Whether the selected element can actually be seen, and if not, why.
+
+import type { OcclusionInfo, ViewportPlacement, VisibilityReport } from "./schema";
+import { buildPreferredSelector } from "./dom";
+import { getClippingAncestorElements } from "./layout";
+import { getComposedParent } from "./shadow";
+
+// Samples per axis inside the visible part of the box (3 × 3 points).
+const OCCLUSION_GRID = 3;
+const MAX_OCCLUDERS = 5;
+
+type Box = { left: number; top: number; right: number; bottom: number };
+
+function area(box: Box): number {
+  return Math.max(0, box.right - box.left) * Math.max(0, box.bottom - box.top);
+}
+
+function intersect(a: Box, b: Box): Box {
+  return {
+    left: Math.max(a.left, b.left),
+    top: Math.max(a.top, b.top),
+    right: Math.min(a.right, b.right),
+    bottom: Math.min(a.bottom, b.bottom),
+  };
+}
+
+/** Points spread evenly inside `box`, row by row (cell centers of an n × n grid). */
+export function buildSamplePoints(
+  box: Box,
+  perAxis: number = OCCLUSION_GRID
+): [number, number][] {
+  const points: [number, number][] = [];
+  if (area(box) <= 0) return points;
+  const stepX = (box.right - box.left) / perAxis;
+  const stepY = (box.bottom - box.top) / perAxis;
+  for (let row = 0; row < perAxis; row += 1) {
+    for (let col = 0; col < perAxis; col += 1) {
+      points.push([box.left + stepX * (col + 0.5), box.top + stepY * (row + 0.5)]);
+    }
+  }
+  return points;
+}
+
+function isSelfOrAncestorOf(candidate: Element, el: Element): boolean {
+  let current: Element | null = el;
+  while (current) {
+    if (current === candidate) return true;
+    current = getComposedParent(current);
+  }
+  return false;
+}
+
+function isSelfOrDescendantOf(candidate: Element, el: Element): boolean {
+  return isSelfOrAncestorOf(el, candidate);
+}
+
+// grabr's own overlay is pointer-events: none, but never count it anyway.
+function isGrabrUi(node: Element): boolean {
+  return typeof node.closest === "function" && node.closest(".grabr-ui") !== null;
+}
+
+type HitTestRoot = { elementsFromPoint(x: number, y: number): Element[] };
+
+function getHitTestRoot(el: Element): HitTestRoot | null {
+  const root = el.getRootNode() as Partial<HitTestRoot>;
+  return typeof root.elementsFromPoint === "function" ? (root as HitTestRoot) : null;
+}
+
+/**
+ * Hit-test sample points inside `box`: a point is covered when the topmost
+ * element there is neither `el`, a descendant, nor an ancestor of it.
+ */
+function sampleOcclusion(el: Element, box: Box): OcclusionInfo | null {
+  const root = getHitTestRoot(el);
+  const points = buildSamplePoints(box);
+  if (!root || points.length === 0) return null;
+  const occluders = new Map<Element, number>();
+  let covered = 0;
+  for (const [x, y] of points) {
+    const top = root.elementsFromPoint(x, y).find((node) => !isGrabrUi(node));
+    if (!top || isSelfOrDescendantOf(top, el) || isSelfOrAncestorOf(top, el)) continue;
+    covered += 1;
+    occluders.set(top, (occluders.get(top) ?? 0) + 1);
+  }
+  return {
+    samples: points.length,
+    covered,
+    coveredBy: Array.from(occluders)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_OCCLUDERS)
+      .map(([node]) => buildPreferredSelector(node)),
+  };
+}
+
+function findSelfOrAncestor(el: Element, test: (node: Element) => boolean): Element | null {
+  let current: Element | null = el;
+  while (current) {
+    if (test(current)) return current;
+    current = getComposedParent(current);
+  }
+  return null;
+}
+
+function readStyle(el: Element): CSSStyleDeclaration | null {
+  const view = el.ownerDocument.defaultView;
+  return view && typeof view.getComputedStyle === "function" ? view.getComputedStyle(el) : null;
+}
+
+function describePlacement(box: Box, viewport: Box, onScreenRatio: number): ViewportPlacement {
+  if (area(box) <= 0) {
+    // Zero-size boxes are a point or a line: inside when their origin is.
+    const inside =
+      box.left >= viewport.left &&
+      box.left <= viewport.right &&
+      box.top >= viewport.top &&
+      box.top <= viewport.bottom;
+    return inside ? "inside" : "outside";
+  }
+  if (onScreenRatio <= 0) return "outside";
+  return onScreenRatio < 1 ? "partial" : "inside";
+}
+
+/**
+ * Visibility of `el`: viewport placement, clipping, occlusion (sampled with
+ * `elementsFromPoint`), inherited display/visibility/opacity, and
+ * `aria-hidden` / `inert` ancestry. `verdict` summarizes all of it and
+ * `reasons` says what hides the element.
+ */
+export function buildVisibilityReport(el: Element): VisibilityReport {
+  const rect = el.getBoundingClientRect();
+  const box: Box = { left: rect.left, top: rect.top, right: rect.right, bottom: rect.bottom };
+  const zeroSize = rect.width <= 0 || rect.height <= 0;
+  const view = el.ownerDocument.defaultView;
+  const viewport: Box = {
+    left: 0,
+    top: 0,
+    right: view?.innerWidth ?? 0,
+    bottom: view?.innerHeight ?? 0,
+  };
+
+  const onScreen = intersect(box, viewport);
+  let visible = onScreen;
+  let clippedBy: string | null = null;
+  for (const ancestor of getClippingAncestorElements(el)) {
+    const clip = ancestor.getBoundingClientRect();
+    const next = intersect(visible, clip);
+    if (clippedBy === null && area(next) < area(visible)) {
+      clippedBy = buildPreferredSelector(ancestor);
+    }
+    visible = next;
+  }
+  const totalArea = area(box);
+  const onScreenRatio = totalArea > 0 ? area(onScreen) / totalArea : 0;
+  const visibleRatio = totalArea > 0 ? area(visible) / totalArea : 0;
+
+  const displayNone = findSelfOrAncestor(el, (node) => readStyle(node)?.display === "none");
+  const visibility = readStyle(el)?.visibility ?? null;
+  let opacity = 1;
+  for (let node: Element | null = el; node; node = getComposedParent(node)) {
+    const value = Number.parseFloat(readStyle(node)?.opacity ?? "1");
+    if (Number.isFinite(value)) opacity *= value;
+  }
+  const ariaHidden = findSelfOrAncestor(
+    el,
+    (node) => node.getAttribute("aria-hidden") === "true"
+  );
+  const inert = findSelfOrAncestor(el, (node) => node.hasAttribute("inert"));
+
+  const occlusion =
+    displayNone === null && visibleRatio > 0 ? sampleOcclusion(el, visible) : null;
+
+  const reasons: string[] = [];
+  if (displayNone) reasons.push(`display: none on ${buildPreferredSelector(displayNone)}`);
+  if (zeroSize) reasons.push("zero size");
+  if (visibility === "hidden" || visibility === "collapse") {
+    reasons.push(`visibility: ${visibility}`);
+  }
+  if (opacity === 0) reasons.push("opacity: 0 (effective)");
+  if (!zeroSize && onScreenRatio === 0) reasons.push("outside the viewport");
+  else if (onScreenRatio < 1 && !zeroSize) reasons.push("partly outside the viewport");
+  if (clippedBy !== null) reasons.push(`clipped by ${clippedBy}`);
+  if (occlusion && occlusion.covered > 0) {
+    const by = occlusion.coveredBy.join(", ");
+    reasons.push(`covered at ${occlusion.covered}/${occlusion.samples} points by ${by}`);
+  }
+  if (ariaHidden) reasons.push(`aria-hidden on ${buildPreferredSelector(ariaHidden)}`);
+  if (inert) reasons.push(`inert on ${buildPreferredSelector(inert)}`);
+
+  const hidden =
+    displayNone !== null ||
+    zeroSize ||
+    visibility === "hidden" ||
+    visibility === "collapse" ||
+    opacity === 0 ||
+    visibleRatio === 0 ||
+    (occlusion !== null && occlusion.covered === occlusion.samples);
+  const partial = visibleRatio < 1 || (occlusion !== null && occlusion.covered > 0);
+
+  return {
+    verdict: hidden ? "hidden" : partial ? "partially-visible" : "visible",
+    reasons,
+    zeroSize,
+    viewport: describePlacement(box, viewport, onScreenRatio),
+    visibleRatio: Math.round(visibleRatio * 100) / 100,
+    clippedBy,
+    occlusion,
+    displayNone: displayNone ? buildPreferredSelector(displayNone) : null,
+    visibility,
+    opacity: Math.round(opacity * 100) / 100,
+    ariaHidden: ariaHidden ? buildPreferredSelector(ariaHidden) : null,
+    inert: inert ? buildPreferredSelector(inert) : null,
+  };
+}
@@ -1,7 +1,147 @@
 import { describe, expect, test } from "bun:test";
+import { runInNewContext } from "node:vm";
 import { truncateText, buildPreferredSelector, toSerializableValue } from "../src/grabr";
+import { defaultSerializationLimits } from "../src/grabr";
 import type { ElementContextV2, GrabrSession } from "../src/grabr";
 import { renderElementContextPrompt, renderSessionPrompt } from "../src/grabr";
+import { validateElementContext, validateSession } from "../src/grabr";
+import { defaultRedactionConfig, redactElementContext } from "../src/grabr";
+import { mergeRedactionSummaries } from "../src/grabr";
+import { createPromptRendererRegistry, renderSessionPromptAs } from "../src/grabr";
+import type { PromptRenderer, RankedSelector, SelectorStrategy } from "../src/grabr";
+import type { PropsCaptureOptions } from "../src/grabr";
+import { shrinkPromptValue } from "../src/grabr";
+import { parseSessionPrompt } from "../src/grabr";
+import { computeSelectionFingerprint } from "../src/grabr";
+import { isGeneratedId, isHashedClassName, isUtilityClassName, rankSelectors } from "../src/grabr";
+import { isStateClassName } from "../src/grabr";
+import { buildRankedSelectors } from "../src/grabr";
+import { getComposedEventTarget, getComposedParent, getShadowHostChain } from "../src/grabr";
+import { getFrameChain, getFrameOffset } from "../src/grabr";
+import { collectMatchedRules, computeSpecificity } from "../src/grabr";
+import { categorizeStyleProperty, mergeRuntimeConfig } from "../src/grabr";
+import { buildDesignTokenInfo, extractVariableNames, normalizeTokenValue } from "../src/grabr";
+import { parseUtilityClass } from "../src/grabr";
+import { dataUrlToBlob, defaultScreenshotOptions, planScreenshot } from "../src/grabr";
+import { buildLayoutAncestry, buildVisibilityReport } from "../src/grabr";
+import { buildFormContext, readFormLibraryState } from "../src/grabr";
+import { clearSourceMapCache, normalizeSourcePath, resolveSourceLocation } from "../src/grabr";
+import { classifyHookNode, inspectFiberHooks, parseCustomHookPath } from "../src/grabr";
+import { hasTruncationMarker, summarizeReactChildren } from "../src/grabr";
+import { buildPropLineage, snapshotContexts, snapshotProps } from "../src/grabr";
+import { countComponentAncestors, isSameComponent, resolveComponentAt } from "../src/grabr";
+import { buildBehaviorContext } from "../src/grabr";
+import { unionBoundingBox } from "../src/grabr";
+import { buildSelectionInfo } from "../src/grabr";
+import { buildAccessibilityInfo } from "../src/grabr";
+
+const EMPTY_ACCESSIBILITY: ElementContextV2["accessibility"] = {
+  role: null,
+  roleSource: null,
+  name: null,
+  nameSource: null,
+  description: null,
+  states: { expanded: null, pressed: null, checked: null, disabled: false, invalid: false },
+  labels: [],
+  focus: { focusable: false, tabIndex: null, inTabOrder: false },
+  hidden: false,
+  tree: { ancestors: [], children: [] },
+};
+
+const EMPTY_LAYOUT: ElementContextV2["layout"] = {
+  parent: null,
+  containingBlock: null,
+  scrollContainer: null,
+  clippingAncestors: [],
+  stackingContexts: [],
+};
+
+const VISIBLE: ElementContextV2["visibility"] = {
+  verdict: "visible",
+  reasons: [],
+  zeroSize: false,
+  viewport: "inside",
+  visibleRatio: 1,
+  clippedBy: null,
+  occlusion: { samples: 9, covered: 0, coveredBy: [] },
+  displayNone: null,
+  visibility: "visible",
+  opacity: 1,
+  ariaHidden: null,
+  inert: null,
+};
+
+function buildMinimalContext(): ElementContextV2 {
+  return {
+    version: 2,
+    selection: {
+      tag: "div",
+      boundingBox: { x: 0, y: 0, width: 10, height: 10 },
+      identity: { tag: "div", id: null, dataTestId: null, role: null, classes: [] },
+      componentDisplayName: null,
+      nearestSource: null,
+      isLikelyServerComponent: null,
+      fingerprint: {
+        hash: "0",
+        parts: {
+          componentPath: [],
+          source: null,
+          selector: "div",
+          testId: null,
+          role: null,
+          accessibleName: null,
+        },
+      },
+      instanceId: "inst_minimal",
+    },
+    dom: {
+      snippet: "<div />",
+      parents: [],
+      siblings: { index: 0, total: 1, previous: null, next: null },
+      children: { totalChildren: 0, tagCounts: {}, samples: [] },
+      selectors: { preferred: "div", all: ["div"], ranked: [] },
+      shadowHostChain: [],
+      frameChain: [],
+    },
+    accessibility: EMPTY_ACCESSIBILITY,
+    layout: EMPTY_LAYOUT,
+    visibility: VISIBLE,
+    form: null,
+    component: null,
+    react: null,
+    reactDebug: { buildType: "unknown", inspectorStatus: "no-hook", message: null },
+    styling: {
+      layout: {
+        display: null,
+        position: null,
+        flexDirection: null,
+        justifyContent: null,
+        alignItems: null,
+        gap: null,
+        gridTemplateColumns: null,
+        gridTemplateRows: null,
+      },
+      spacing: { margin: null, padding: null },
+      size: { width: null, height: null },
+      typography: { fontFamily: null, fontSize: null, fontWeight: null, lineHeight: null },
+      colors: { color: null, backgroundColor: null, borderColor: null },
+      clickable: false,
+    },
+    behavior: { inferenceLevel: "none", handlers: [] },
+    app: {
+      url: "",
+      pathname: "",
+      search: "",
+      hash: "",
+      framework: "unknown",
+      routePatternGuess: null,
+      routeParamsGuess: null,
+      pageComponent: null,
+      layoutComponents: [],
+      dataSources: [{ kind: "unknown", identifier: null, description: null }],
+    },
+  };
+}
 
 describe("DOM selector helpers", () => {
     test("truncateText", () => {
@@ -25,18 +165,81 @@ describe("DOM selector helpers", () => {
   
     test("objects are truncated", () => {
       const obj = { a: 1, b: 2, c: 3, d: 4, e: 5, f: 6, g: 7, h: 8, i: 9 };
-      const serial = toSerializableValue(obj, 0);
-      expect(serial !== null && !Array.isArray(serial)).toBe(true);
+      const serial = toSerializableValue(obj, 0, { ...defaultSerializationLimits, maxObjectKeys: 8 });
+      expect(serial).toEqual({ a: 1, b: 2, c: 3, d: 4, e: 5, f: 6, g: 7, h: 8, $truncated: "1 more key" });
     });
   
     test("arrays are truncated", () => {
       const arr = [1, 2, 3, 4, 5, 6];
-      const serial = toSerializableValue(arr, 0);
+      const serial = toSerializableValue(arr, 0, { ...defaultSerializationLimits, maxArrayItems: 5 });
       expect(Array.isArray(serial)).toBe(true);
       if (Array.isArray(serial)) {
-        expect(serial.length).toBeLessThanOrEqual(5);
+        expect(serial.slice(0, 5)).toEqual([1, 2, 3, 4, 5]);
+        expect(serial[5]).toEqual({ $truncated: "1 more item" });
       }
     });
+
+    test("non-JSON values become typed placeholders", () => {
+      function onSave() {}
+      class Cart {
+        items = 2;
+      }
+      const serial = toSerializableValue(
+        {
+          onSave,
+          when: new Date("2025-01-01T00:00:00.000Z"),
+          lookup: new Map([["a", 1], ["b", 2], ["c", 3]]),
+          tags: new Set(["x"]),
+          cart: new Cart(),
+          missing: undefined,
+          element: { $$typeof: Symbol.for("react.transitional.element"), type: onSave, key: null },
+        },
+        0
+      );
+      expect(serial).toEqual({
+        onSave: { $type: "Function", name: "onSave" },
+        when: { $type: "Date", value: "2025-01-01T00:00:00.000Z" },
+        lookup: { $type: "Map", size: 3, entries: [["a", 1], ["b", 2], ["c", 3]] },
+        tags: { $type: "Set", size: 1, values: ["x"] },
+        cart: { $type: "Instance", className: "Cart", value: { items: 2 } },
+        missing: { $type: "Undefined" },
+        element: { $type: "ReactElement", type: "onSave" },
+      });
+    });
+
+    test("built-ins from another realm keep their placeholders", () => {
+      // What a component rendered in a same-origin iframe hands over.
+      const foreign = runInNewContext(`({
+        when: new Date(0),
+        lookup: new Map([["a", 1]]),
+        tags: new Set(["x"]),
+        failure: new TypeError("nope"),
+        pending: Promise.resolve(),
+        buffer: new ArrayBuffer(4),
+      })`);
+      expect(toSerializableValue(foreign, 0)).toEqual({
+        when: { $type: "Date", value: "1970-01-01T00:00:00.000Z" },
+        lookup: { $type: "Map", size: 1, entries: [["a", 1]] },
+        tags: { $type: "Set", size: 1, values: ["x"] },
+        failure: { $type: "Error", name: "TypeError", message: "nope" },
+        pending: { $type: "Promise" },
+        buffer: { $type: "ArrayBuffer", byteLength: 4 },
+      });
+    });
+
+    test("cycles and depth limits leave markers", () => {
+      const node: { name: string; self?: unknown; nested: unknown } = {
+        name: "root",
+        nested: { deeper: { deepest: { value: 1 } } },
+      };
+      node.self = node;
+      const serial = toSerializableValue(node, 0, { ...defaultSerializationLimits, maxDepth: 2 });
+      expect(serial).toEqual({
+        name: "root",
+        self: { $ref: "cycle" },
+        nested: { deeper: { $type: "Object", keys: 1, $truncated: "max depth" } },
+      });
+    });
   });
   
   describe("Prompt rendering", () => {
@@ -62,6 +265,15 @@ describe("DOM selector helpers", () => {
             origin: "bippy",
           },
           isLikelyServerComponent: null,
+          fingerprint: computeSelectionFingerprint({
+            componentPath: ["TestButton"],
+            source: "src/TestButton.tsx:10:5",
+            selector: "#test",
+            testId: "btn",
+            role: "button",
+            accessibleName: "Click me",
+          }),
+          instanceId: "inst_button",
         },
         dom: {
           snippet: "<button>Click me</button>",
@@ -80,8 +292,41 @@ describe("DOM selector helpers", () => {
           selectors: {
             preferred: "#test",
             all: ["#test"],
+            ranked: [],
+          },
+          shadowHostChain: [],
+          frameChain: [],
+        },
+        accessibility: {
+          ...EMPTY_ACCESSIBILITY,
+          role: "button",
+          roleSource: "implicit",
+          name: "Click me",
+          nameSource: "contents",
+          states: { ...EMPTY_ACCESSIBILITY.states, pressed: false },
+          focus: { focusable: true, tabIndex: null, inTabOrder: true },
+          tree: { ancestors: [{ role: "form", name: "Settings" }], children: [] },
+        },
+        layout: {
+          ...EMPTY_LAYOUT,
+          parent: {
+            kind: "flex",
+            selector: "div.toolbar",
+            display: "flex",
+            container: { "flex-direction": "row", "justify-content": "flex-end" },
+            item: { "flex-grow": "0" },
+            participates: true,
           },
+          stackingContexts: [{ selector: "html", zIndex: "auto", reason: "root" }],
         },
+        visibility: {
+          ...VISIBLE,
+          verdict: "partially-visible",
+          reasons: ["covered at 3/9 points by div.toast"],
+          occlusion: { samples: 9, covered: 3, coveredBy: ["div.toast"] },
+        },
+        form: null,
+        component: null,
         react: null,
         reactDebug: {
           buildType: "development",
@@ -150,6 +395,8 @@ describe("DOM selector helpers", () => {
       expect(prompt.includes("[section:meta]")).toBe(true);
       expect(prompt.includes("[section:dom]")).toBe(true);
       expect(prompt.includes("[section:styling]")).toBe(true);
+      expect(prompt.includes("[section:accessibility]")).toBe(true);
+      expect(prompt.includes('states={"pressed":false,"disabled":false,"invalid":false}')).toBe(true);
       expect(prompt.includes("<ai_grab_selection_end")).toBe(true);
     });
 
@@ -169,6 +416,15 @@ describe("DOM selector helpers", () => {
           componentDisplayName: null,
           nearestSource: null,
           isLikelyServerComponent: null,
+          fingerprint: computeSelectionFingerprint({
+            componentPath: [],
+            source: null,
+            selector: "div",
+            testId: null,
+            role: null,
+            accessibleName: null,
+          }),
+          instanceId: "inst_div",
         },
         dom: {
           snippet: "<div />",
@@ -187,8 +443,16 @@ describe("DOM selector helpers", () => {
           selectors: {
             preferred: "div",
             all: ["div"],
+            ranked: [],
           },
+          shadowHostChain: [],
+          frameChain: [],
         },
+        accessibility: EMPTY_ACCESSIBILITY,
+        layout: EMPTY_LAYOUT,
+        visibility: VISIBLE,
+        form: null,
+        component: null,
         react: null,
         reactDebug: {
           buildType: "unknown",
@@ -268,3 +532,2048 @@ describe("DOM selector helpers", () => {
       expect(text.includes("<ai_grab_session_end")).toBe(true);
     });
   });
+
+describe("Schema validation", () => {
+  test("accepts a well-formed session", () => {
+    const session: GrabrSession = {
+      id: "session-1",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      url: "http://localhost:3000",
+      userInstruction: null,
+      summary: null,
+      elements: [buildMinimalContext()],
+    };
+    const result = validateSession(JSON.parse(JSON.stringify(session)));
+    expect(result.ok).toBe(true);
+  });
+
+  test("reports path-addressed issues", () => {
+    const context = buildMinimalContext();
+    const broken = {
+      ...context,
+      selection: { ...context.selection, tag: 42 },
+      reactDebug: { ...context.reactDebug, inspectorStatus: "bogus" },
+      dom: { ...context.dom, selectors: undefined },
+    };
+    const result = validateElementContext(broken);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      const paths = result.issues.map((issue) => `${issue.keyword}:${issue.path}`);
+      expect(paths).toContain("type:$.selection.tag");
+      expect(paths).toContain("enum:$.reactDebug.inspectorStatus");
+      expect(paths).toContain("required:$.dom.selectors");
+    }
+  });
+
+  test("rejects non-object sessions", () => {
+    const result = validateSession([]);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.issues[0]?.path).toBe("$");
+    }
+  });
+});
+
+describe("Redaction", () => {
+  test("scrubs sensitive keys, detected values and URL params", () => {
+    const base = buildMinimalContext();
+    const context: ElementContextV2 = {
+      ...base,
+      dom: { ...base.dom, snippet: "<p>Contact jane@example.com</p>" },
+      react: {
+        stack: [],
+        ownerIndex: 0,
+        ownerProps: {
+          totalProps: 2,
+          highlighted: [
+            { name: "authToken", value: "abc", reason: "other", truncated: false },
+            {
+              name: "user",
+              value: { email: "jane@example.com", card: "4111 1111 1111 1111" },
+              reason: "other",
+              truncated: false,
+            },
+          ],
+          omitted: [],
+        },
+        ownerState: null,
+        ownerContexts: null,
+        propLineage: [],
+      },
+      app: {
+        ...base.app,
+        url: "https://app.test/orders?page=2&access_token=xyz#id_token=abc",
+        search: "?page=2&access_token=xyz",
+      },
+    };
+
+    const redacted = redactElementContext(context, defaultRedactionConfig);
+    expect(redacted.dom.snippet).toBe("<p>Contact [redacted:email]</p>");
+    expect(redacted.react?.ownerProps?.highlighted[0]?.value).toBe("[redacted:sensitive-key]");
+    expect(redacted.react?.ownerProps?.highlighted[1]?.value).toEqual({
+      email: "[redacted:email]",
+      card: "[redacted:card-number]",
+    });
+    expect(redacted.app.url).toBe(
+      "https://app.test/orders?page=2&access_token=[redacted:query-param]#id_token=[redacted:query-param]"
+    );
+    expect(redacted.app.search).toBe("?page=2&access_token=[redacted:query-param]");
+    expect(redacted.redaction?.total).toBe(6);
+    expect(redacted.redaction?.byReason["query-param"]).toBe(2);
+  });
+
+  test("a page URL parameter counts once per element", () => {
+    const base = buildMinimalContext();
+    const context: ElementContextV2 = {
+      ...base,
+      app: {
+        ...base.app,
+        url: "https://app.test/orders?token=abc123",
+        pathname: "/orders",
+        search: "?token=abc123",
+        hash: "",
+      },
+    };
+    const redacted = redactElementContext(context, defaultRedactionConfig);
+    expect(redacted.app.search).toBe("?token=[redacted:query-param]");
+    expect(redacted.redaction).toEqual({ total: 1, byReason: { "query-param": 1 } });
+    // What a session of three such elements reports.
+    const merged = mergeRedactionSummaries([redacted, redacted, redacted].map((c) => c.redaction));
+    expect(merged).toEqual({ total: 3, byReason: { "query-param": 3 } });
+  });
+
+  test("scrubs user content out of generated selectors", () => {
+    // <span>jane@doe.com</span>, alone in its document.
+    const span = {
+      nodeType: 1,
+      tagName: "SPAN",
+      id: "",
+      classList: [],
+      textContent: "jane@doe.com",
+      childNodes: [{ nodeType: 3, nodeValue: "jane@doe.com" }],
+      children: [],
+      parentElement: null,
+      parentNode: null,
+      getAttribute: () => null,
+      hasAttribute: () => false,
+      getAttributeNames: () => [],
+      getRootNode: () => root,
+    };
+    const root = {
+      nodeType: 9,
+      childNodes: [span],
+      querySelectorAll: () => [span],
+      querySelector: () => span,
+    };
+    const ranked = buildRankedSelectors(span as unknown as Element);
+    expect(ranked.map((r) => r.selector)).toContain('text="jane@doe.com"');
+
+    const base = buildMinimalContext();
+    const context: ElementContextV2 = {
+      ...base,
+      dom: {
+        ...base.dom,
+        selectors: {
+          preferred: 'a[href="/reset?token=abc123&lang=en"]',
+          all: ['a[href="/reset?token=abc123&lang=en"]', 'span[data-api-key="k1"]'],
+          ranked,
+        },
+      },
+    };
+    const redacted = redactElementContext(context, defaultRedactionConfig).dom.selectors;
+    expect(redacted.ranked.map((r) => r.selector)).toContain('text="[redacted:email]"');
+    expect(redacted.preferred).toBe('a[href="/reset?token=[redacted:query-param]&lang=en"]');
+    expect(redacted.all[1]).toBe('span[data-api-key="[redacted:sensitive-key]"]');
+    expect(JSON.stringify(redacted)).not.toContain("jane@doe.com");
+
+    // The fingerprint keeps its own copy of the selector.
+    const fingerprinted = redactElementContext(
+      {
+        ...base,
+        selection: {
+          ...base.selection,
+          fingerprint: computeSelectionFingerprint({
+            componentPath: [],
+            source: null,
+            selector: '[data-testid="jane@doe.com"]',
+            testId: null,
+            role: null,
+            accessibleName: null,
+          }),
+        },
+      },
+      defaultRedactionConfig
+    );
+    expect(fingerprinted.selection.fingerprint.parts.selector).toBe(
+      '[data-testid="[redacted:email]"]'
+    );
+  });
+
+  test("custom redactors and the prompt meta count", () => {
+    const context = redactElementContext(
+      { ...buildMinimalContext(), dom: { ...buildMinimalContext().dom, snippet: "<p>ACME-1234</p>" } },
+      {
+        ...defaultRedactionConfig,
+        redactors: [
+          {
+            id: "order-id",
+            redact: ({ value }) => (value.includes("ACME-") ? "order-id" : null),
+          },
+        ],
+      }
+    );
+    expect(context.dom.snippet).toBe("[redacted:order-id]");
+    const prompt = renderElementContextPrompt(context);
+    expect(prompt).toContain("redacted_values=1");
+    expect(prompt).toContain('redaction_reasons={"order-id":1}');
+  });
+});
+
+describe("Prompt renderers", () => {
+  const session: GrabrSession = {
+    id: "session-1",
+    createdAt: "2025-01-01T00:00:00.000Z",
+    url: "http://localhost:3000",
+    userInstruction: "Make it <bold>.",
+    summary: null,
+    elements: [buildMinimalContext()],
+  };
+
+  test("grabr-v2 matches renderSessionPrompt", () => {
+    expect(renderSessionPromptAs(session, "grabr-v2")).toBe(renderSessionPrompt(session));
+  });
+
+  test("markdown, xml and json share the same content", () => {
+    const markdown = renderSessionPromptAs(session, "markdown");
+    expect(markdown).toContain("# grabr session");
+    expect(markdown).toContain("### selection");
+    expect(markdown).toContain("- **tag**: `div`");
+
+    const xml = renderSessionPromptAs(session, "xml");
+    expect(xml).toContain('<grabr_session id="session-1"');
+    expect(xml).toContain("<instruction>Make it &lt;bold&gt;.</instruction>");
+    expect(xml).toContain("<tag>div</tag>");
+
+    const json = JSON.parse(renderSessionPromptAs(session, "json"));
+    expect(json.meta.instruction).toBe("Make it <bold>.");
+    expect(json.elements[0].sections.selection.tag).toBe("div");
+  });
+
+  test("custom renderers are resolved through the registry", () => {
+    const plain: PromptRenderer = {
+      id: "plain",
+      label: "Plain",
+      renderSession: (document) => `elements=${document.elements.length}`,
+      renderElement: (document) => document.selectionId,
+    };
+    const registry = createPromptRendererRegistry([plain]);
+    expect(renderSessionPromptAs(session, "plain", registry)).toBe("elements=1");
+    expect(() => renderSessionPromptAs(session, "plain")).toThrow(/Unknown prompt format/);
+  });
+});
+
+describe("Prompt budget", () => {
+  function buildLargeSession(): GrabrSession {
+    const base = buildMinimalContext();
+    const sample = {
+      tag: "li",
+      id: null,
+      dataTestId: null,
+      role: null,
+      classes: ["item"],
+      textSnippet: "A list item with a fairly long description of what it contains",
+    };
+    const context: ElementContextV2 = {
+      ...base,
+      selection: {
+        ...base.selection,
+        nearestSource: {
+          fileName: "src/List.tsx",
+          lineNumber: 12,
+          columnNumber: 4,
+          confidence: "high",
+          origin: "bippy",
+        },
+      },
+      dom: {
+        ...base.dom,
+        children: {
+          totalChildren: 40,
+          tagCounts: { li: 40 },
+          samples: Array.from({ length: 40 }, () => sample),
+        },
+      },
+    };
+    return {
+      id: "session-budget",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      url: "http://localhost:3000",
+      userInstruction: "Tighten the list spacing.",
+      summary: null,
+      elements: [context, context],
+    };
+  }
+
+  test("shrinks low-priority entries to fit and reports them in meta", () => {
+    const session = buildLargeSession();
+    const full = renderSessionPrompt(session);
+    const budgeted = renderSessionPrompt(session, { maxChars: 4000 });
+
+    expect(full.length).toBeGreaterThan(4000);
+    expect(budgeted.length).toBeLessThanOrEqual(4000);
+    expect(budgeted).toContain('instruction="Tighten the list spacing."');
+    expect(budgeted).toContain('"file":"src/List.tsx"');
+    expect(budgeted).toContain('"within_budget":true');
+    expect(budgeted).toMatch(/elided=\[[^\n]*element:0\.dom\.children \((shrunk|dropped)\)/);
+    expect(parseSessionPrompt(budgeted)?.integrity).toBe("ok");
+  });
+
+  test("keeps required entries even when the budget cannot be met", () => {
+    const budgeted = renderSessionPromptAs(buildLargeSession(), "json", undefined, {
+      maxTokens: 10,
+      estimator: { id: "words", estimate: (text) => text.split(/\s+/).length },
+    });
+    const json = JSON.parse(budgeted);
+    expect(json.meta.budget.within_budget).toBe(false);
+    expect(json.meta.budget.estimator).toBe("words");
+    expect(json.elements[0].sections.selection.tag).toBe("div");
+    expect(json.elements[0].sections.dom).toEqual({});
+  });
+
+  test("shrinkPromptValue halves the longest array and counts omissions", () => {
+    expect(shrinkPromptValue({ a: [1, 2, 3, 4], b: [1, 2] })).toEqual({
+      a: [1, 2, { $truncated: "2 more items" }],
+      b: [1, 2],
+    });
+    expect(shrinkPromptValue([1, 2, { $truncated: "2 more items" }])).toEqual([
+      1,
+      { $truncated: "3 more items" },
+    ]);
+    expect(shrinkPromptValue({ a: 1 })).toBeNull();
+  });
+});
+
+describe("Prompt parsing", () => {
+  const session: GrabrSession = {
+    id: "session-parse",
+    createdAt: "2025-01-01T00:00:00.000Z",
+    url: "http://localhost:3000",
+    userInstruction: "Swap the colors.",
+    summary: null,
+    elements: [buildMinimalContext(), buildMinimalContext()],
+  };
+
+  test("round-trips a rendered session with valid checksums", () => {
+    const text = `Here is my selection:\n\n${renderSessionPrompt(session)}\n\nThanks!`;
+    const parsed = parseSessionPrompt(text);
+    expect(parsed?.sessionId).toBe("session-parse");
+    expect(parsed?.integrity).toBe("ok");
+    expect(parsed?.issues).toEqual([]);
+    expect(parsed?.checksum).toBe(parsed?.computedChecksum ?? null);
+    expect(parsed?.elements).toHaveLength(2);
+    const selection = parsed?.elements[0]?.sections.find((s) => s.name === "selection");
+    expect(selection?.entries.find((e) => e.key === "tag")?.value).toBe("div");
+  });
+
+  test("reports tampered and truncated content", () => {
+    const text = renderSessionPrompt(session);
+
+    const tampered = parseSessionPrompt(text.replace('tag="div"', 'tag="span"'));
+    expect(tampered?.integrity).toBe("tampered");
+    expect(tampered?.elements[0]?.integrity).toBe("tampered");
+    expect(tampered?.issues.some((i) => i.kind === "tampered" && i.location === "element:0")).toBe(
+      true
+    );
+
+    const cutAt = text.indexOf("[section:styling]", text.indexOf("[element:1]"));
+    const cut = parseSessionPrompt(text.slice(0, cutAt));
+    expect(cut?.integrity).toBe("truncated");
+    expect(cut?.elements[0]?.integrity).toBe("ok");
+    expect(cut?.elements[1]?.integrity).toBe("truncated");
+
+    expect(parseSessionPrompt("no prompt here")).toBeNull();
+  });
+});
+
+describe("Selection fingerprint", () => {
+  const parts = {
+    componentPath: ["SaveButton", "Toolbar"],
+    source: "src/Toolbar.tsx:42:7",
+    selector: '[data-testid="save"]',
+    testId: "save",
+    role: "button",
+    accessibleName: "Save",
+  };
+
+  test("sel_id follows the fingerprint, not the position or capture", () => {
+    const base = buildMinimalContext();
+    const capture = (x: number, instanceId: string): ElementContextV2 => ({
+      ...base,
+      selection: {
+        ...base.selection,
+        boundingBox: { x, y: x, width: 10, height: 10 },
+        fingerprint: computeSelectionFingerprint(parts),
+        instanceId,
+      },
+    });
+    const first = renderElementContextPrompt(capture(0, "inst_a"));
+    const scrolled = renderElementContextPrompt(capture(480, "inst_b"));
+    const selId = (text: string) => /sel_id="([^"]+)"/.exec(text)?.[1];
+
+    expect(selId(first)).toBe(selId(scrolled));
+    expect(first).toContain('instance_id="inst_a"');
+    expect(scrolled).toContain('instance_id="inst_b"');
+  });
+
+  test("any identity part changes the hash", () => {
+    const hash = computeSelectionFingerprint(parts).hash;
+    expect(computeSelectionFingerprint({ ...parts }).hash).toBe(hash);
+    expect(computeSelectionFingerprint({ ...parts, accessibleName: "Cancel" }).hash).not.toBe(hash);
+    expect(computeSelectionFingerprint({ ...parts, componentPath: ["SaveButton"] }).hash).not.toBe(
+      hash
+    );
+  });
+
+  test("hashed, utility and state classes stay out of the fingerprint", () => {
+    const element = (classes: string[]) =>
+      ({
+        tagName: "DIV",
+        id: "",
+        classList: classes,
+        getAttribute: () => null,
+        getBoundingClientRect: () => ({ left: 0, top: 0, width: 10, height: 10 }),
+      }) as unknown as Element;
+    const globals = globalThis as { CSS?: unknown };
+    const previous = globals.CSS;
+    globals.CSS = { escape: (value: string) => value };
+    try {
+      const closed = buildSelectionInfo(element(["card", "css-1x2y3z", "p-4"]), null);
+      const open = buildSelectionInfo(element(["card", "css-9q8w7e", "p-6", "is-open"]), null);
+      expect(closed.fingerprint.parts.selector).toBe("div.card");
+      expect(open.fingerprint.hash).toBe(closed.fingerprint.hash);
+    } finally {
+      globals.CSS = previous;
+    }
+  });
+});
+
+describe("Selector engine helpers", () => {
+  test("hashed and utility class names are recognized", () => {
+    const hashed = ["css-1x2y3z", "sc-bdVaJa", "jsx-123456", "Button_primary__a1B2c", "_3xk9Q"];
+    for (const name of hashed) {
+      expect(isHashedClassName(name)).toBe(true);
+    }
+    for (const name of ["p-4", "hover:bg-blue-500", "w-[3px]", "md:flex", "flex", "-mt-2"]) {
+      expect(isUtilityClassName(name)).toBe(true);
+    }
+    for (const name of ["active", "is-open", "tab--selected", "menu_expanded"]) {
+      expect(isStateClassName(name)).toBe(true);
+    }
+    for (const name of ["card", "primary-button", "nav-item", "heading2"]) {
+      expect(isHashedClassName(name) || isUtilityClassName(name) || isStateClassName(name)).toBe(
+        false
+      );
+    }
+  });
+
+  test("generated ids are recognized", () => {
+    expect(isGeneratedId(":r1:")).toBe(true);
+    expect(isGeneratedId("radix-:R1:-content")).toBe(true);
+    expect(isGeneratedId("checkout-form")).toBe(false);
+  });
+
+  test("unique selectors rank ahead of higher-scored ambiguous ones", () => {
+    const candidate = (
+      selector: string,
+      strategy: SelectorStrategy,
+      unique: boolean,
+      score: number
+    ): RankedSelector => ({
+      selector,
+      strategy,
+      syntax: "css",
+      unique,
+      matchCount: unique ? 1 : 2,
+      score,
+    });
+    const ranked = rankSelectors([
+      candidate("button.cta", "class", true, 0.5),
+      candidate("#save", "id", false, 0.36),
+      candidate('[data-testid="save"]', "test-id", true, 1),
+    ]);
+    expect(ranked.map((r) => r.selector)).toEqual(['[data-testid="save"]', "button.cta", "#save"]);
+  });
+
+  test("role and text matches scan only what they need", () => {
+    type FakeNode = Record<string, unknown>;
+    const queries: string[] = [];
+    const root: FakeNode = { nodeType: 9, childNodes: [] };
+    const element = (tag: string, childNodes: FakeNode[]): FakeNode => {
+      const el: FakeNode = {
+        nodeType: 1,
+        tagName: tag.toUpperCase(),
+        id: "",
+        classList: [],
+        childNodes,
+        children: childNodes.filter((node) => node["nodeType"] === 1),
+        parentElement: null,
+        parentNode: null,
+        getAttribute: () => null,
+        hasAttribute: () => false,
+        getAttributeNames: () => [],
+        getRootNode: () => root,
+      };
+      for (const child of childNodes) child["parentElement"] = el;
+      return el;
+    };
+    const text = (value: string): FakeNode => ({ nodeType: 3, nodeValue: value });
+    // <div><button>Save</button><p> Save </p><section><b>Save</b> draft</section></div>
+    const button = element("button", [text("Save")]);
+    button["textContent"] = "Save";
+    const div = element("div", [
+      button,
+      element("p", [text(" Save ")]),
+      element("section", [element("b", [text("Save")]), text(" draft")]),
+    ]);
+    root["childNodes"] = [div];
+    root["querySelectorAll"] = (selector: string) => {
+      queries.push(selector);
+      return selector.startsWith("[role]") && selector.includes("button") ? [button] : [];
+    };
+    root["querySelector"] = () => null;
+
+    const ranked = buildRankedSelectors(button as unknown as Element);
+    const bySelector = new Map(ranked.map((r) => [r.selector, r]));
+    expect(bySelector.get('role=button[name="Save"]')).toMatchObject({ unique: true, matchCount: 1 });
+    // The button, the paragraph and the <b>; not the section around it.
+    expect(bySelector.get('text="Save"')).toMatchObject({ unique: false, matchCount: 3 });
+    expect(queries).not.toContain("*");
+  });
+});
+
+describe("Shadow DOM traversal", () => {
+  // Minimal structural stand-ins: the helpers only look at nodeType/host/parents.
+  const documentNode = { nodeType: 9 };
+  const outerHost = {
+    nodeType: 1,
+    tagName: "APP-SHELL",
+    parentElement: null,
+    parentNode: documentNode,
+    getRootNode: () => documentNode,
+  };
+  const outerRoot = { nodeType: 11, host: outerHost };
+  const innerHost = {
+    nodeType: 1,
+    tagName: "SETTINGS-CARD",
+    parentElement: null,
+    parentNode: outerRoot,
+    getRootNode: () => outerRoot,
+  };
+  const innerRoot = { nodeType: 11, host: innerHost };
+  const button = {
+    nodeType: 1,
+    tagName: "BUTTON",
+    parentElement: null,
+    parentNode: innerRoot,
+    getRootNode: () => innerRoot,
+  };
+  const asElement = (node: object) => node as unknown as Element;
+
+  test("composed targets and parents cross shadow roots", () => {
+    const event = {
+      target: outerHost,
+      composedPath: () => [{ nodeType: 3 }, button, innerRoot, innerHost, outerRoot, outerHost],
+    } as unknown as Event;
+    expect(getComposedEventTarget(event)).toBe(asElement(button));
+    expect(getComposedParent(asElement(button))).toBe(asElement(innerHost));
+    expect(getComposedParent(asElement(innerHost))).toBe(asElement(outerHost));
+    expect(getComposedParent(asElement(outerHost))).toBeNull();
+  });
+
+  test("host chain lists enclosing hosts innermost first", () => {
+    expect(getShadowHostChain(asElement(button))).toEqual([
+      asElement(innerHost),
+      asElement(outerHost),
+    ]);
+    expect(getShadowHostChain(asElement(outerHost))).toEqual([]);
+  });
+});
+
+describe("Same-origin frames", () => {
+  // Two nested frames; each document's window points at the frame hosting it.
+  const topDocument = {
+    defaultView: {
+      frameElement: null,
+      getComputedStyle: () => ({ paddingLeft: "4px", paddingTop: "0px" }),
+    },
+  };
+  const outerFrame = {
+    nodeType: 1,
+    tagName: "IFRAME",
+    ownerDocument: topDocument,
+    clientLeft: 1,
+    clientTop: 1,
+    getBoundingClientRect: () => ({ left: 100, top: 50 }),
+  };
+  const outerDocument = {
+    defaultView: {
+      frameElement: outerFrame,
+      getComputedStyle: () => ({ paddingLeft: "0px", paddingTop: "0px" }),
+    },
+  };
+  const innerFrame = {
+    nodeType: 1,
+    tagName: "IFRAME",
+    ownerDocument: outerDocument,
+    clientLeft: 2,
+    clientTop: 2,
+    getBoundingClientRect: () => ({ left: 10, top: 20 }),
+  };
+  const innerDocument = { defaultView: { frameElement: innerFrame } };
+  const button = { nodeType: 1, tagName: "BUTTON", ownerDocument: innerDocument };
+  const asElement = (node: object) => node as unknown as Element;
+
+  test("frame chain lists enclosing frames innermost first", () => {
+    expect(getFrameChain(asElement(button))).toEqual([
+      asElement(innerFrame),
+      asElement(outerFrame),
+    ]);
+    expect(getFrameChain(asElement(outerFrame))).toEqual([]);
+  });
+
+  test("frame offset adds each frame's content-box origin", () => {
+    expect(getFrameOffset(asElement(button))).toEqual({ x: 117, y: 73 });
+    expect(getFrameOffset(asElement(outerFrame))).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe("Matched CSS rules", () => {
+  test("computeSpecificity follows Selectors Level 4", () => {
+    expect(computeSpecificity("button")).toEqual([0, 0, 1]);
+    expect(computeSpecificity("#save.btn[type=submit]:hover")).toEqual([1, 3, 0]);
+    expect(computeSpecificity("ul > li::before")).toEqual([0, 0, 3]);
+    expect(computeSpecificity(":is(#a, .b) span")).toEqual([1, 0, 1]);
+    expect(computeSpecificity(":where(#a) .b")).toEqual([0, 1, 0]);
+    expect(computeSpecificity("li:nth-child(2n of .item)")).toEqual([0, 2, 1]);
+  });
+
+  test("collectMatchedRules orders by cascade and reports winning declarations", () => {
+    const style = (decls: Record<string, string>) => {
+      const names = Object.keys(decls);
+      return {
+        length: names.length,
+        item: (i: number) => names[i] ?? "",
+        getPropertyPriority: (name: string) => decls[name] ?? "",
+        getPropertyValue: (name: string) => (name in decls ? "1px" : ""),
+      };
+    };
+    const sheet = {
+      disabled: false,
+      media: { mediaText: "" },
+      href: "http://localhost:3000/app.css",
+      ownerNode: null,
+      cssRules: [
+        { selectorText: "button", style: style({ color: "", "padding-top": "" }) },
+        { selectorText: ".other, .btn", style: style({ color: "" }) },
+        {
+          name: "base",
+          cssRules: [{ selectorText: ".btn", style: style({ "margin-top": "important" }) }],
+        },
+        { selectorText: ".missing", style: style({ color: "" }) },
+      ],
+    };
+    const doc = { defaultView: null, styleSheets: [sheet] };
+    const el = {
+      ownerDocument: doc,
+      getRootNode: () => doc,
+      matches: (selector: string) => selector === "button" || selector === ".btn",
+      style: { length: 0 },
+    } as unknown as Element;
+
+    const rules = collectMatchedRules(el);
+    expect(rules.map((rule) => [rule.selector, rule.specificity, rule.layer, rule.wins])).toEqual([
+      [".btn", "0,1,0", null, ["color"]],
+      ["button", "0,0,1", null, ["padding-top"]],
+      [".btn", "0,1,0", "base", ["margin-top"]],
+    ]);
+    expect(rules[2]?.importantCount).toBe(1);
+    expect(rules[0]?.href).toBe("http://localhost:3000/app.css");
+  });
+
+  test("collectMatchedRules ranks sub-layers below their parent and keeps anonymous layers apart", () => {
+    const style = (name: string) => ({
+      length: 1,
+      item: () => name,
+      getPropertyPriority: () => "",
+      getPropertyValue: () => "1px",
+    });
+    const sheet = {
+      disabled: false,
+      media: { mediaText: "" },
+      href: null,
+      ownerNode: null,
+      cssRules: [
+        {
+          name: "a",
+          cssRules: [
+            { selectorText: ".btn", style: style("color") },
+            { name: "b", cssRules: [{ selectorText: ".btn", style: style("color") }] },
+          ],
+        },
+        { name: "", cssRules: [{ selectorText: ".btn", style: style("margin-top") }] },
+        { name: "", cssRules: [{ selectorText: ".btn", style: style("padding-top") }] },
+      ],
+    };
+    const doc = { defaultView: null, styleSheets: [sheet] };
+    const el = {
+      ownerDocument: doc,
+      getRootNode: () => doc,
+      matches: (selector: string) => selector === ".btn",
+      style: { length: 0 },
+    } as unknown as Element;
+
+    const rules = collectMatchedRules(el);
+    expect(rules.map((rule) => [rule.layer, rule.wins])).toEqual([
+      ["<anonymous 2>", ["padding-top"]],
+      ["<anonymous 1>", ["margin-top"]],
+      ["a", ["color"]],
+      ["a.b", []],
+    ]);
+  });
+});
+
+describe("Computed style diff", () => {
+  test("properties are grouped by category", () => {
+    expect(categorizeStyleProperty("border-top-left-radius")).toBe("border");
+    expect(categorizeStyleProperty("box-shadow")).toBe("effects");
+    expect(categorizeStyleProperty("transition-duration")).toBe("animation");
+    expect(categorizeStyleProperty("z-index")).toBe("layout");
+    expect(categorizeStyleProperty("overflow-x")).toBe("overflow");
+    expect(categorizeStyleProperty("cursor")).toBe("interaction");
+    expect(categorizeStyleProperty("background-color")).toBe("background");
+    expect(categorizeStyleProperty("color")).toBe("typography");
+    expect(categorizeStyleProperty("content")).toBe("other");
+  });
+
+  test("the prompt emits the diff in place of the sampled groups", () => {
+    const base = buildMinimalContext();
+    const context: ElementContextV2 = {
+      ...base,
+      styling: {
+        ...base.styling,
+        typography: { ...base.styling.typography, fontSize: "14px" },
+        computedDiff: {
+          baselineTag: "div",
+          total: 2,
+          groups: { border: { "border-top-left-radius": "8px" }, effects: { opacity: "0.5" } },
+        },
+      },
+    };
+    const prompt = renderElementContextPrompt(context);
+    expect(prompt).toContain('computed={"border":{"border-top-left-radius":"8px"},"effects":{"opacity":"0.5"}}');
+    expect(prompt).not.toContain("typography=");
+    expect(renderElementContextPrompt({ ...context, styling: base.styling })).not.toContain(
+      "computed="
+    );
+    expect(validateElementContext(context).ok).toBe(true);
+    expect(mergeRuntimeConfig({}).styleCaptureMode).toBe("sampled");
+  });
+});
+
+describe("Design tokens", () => {
+  test("extractVariableNames lists var() references in order", () => {
+    expect(extractVariableNames("var(--space-2) var(--space-4, var(--space-2))")).toEqual([
+      "--space-2",
+      "--space-4",
+    ]);
+    expect(extractVariableNames("8px")).toEqual([]);
+  });
+
+  test("normalizeTokenValue matches token values against computed values", () => {
+    expect(normalizeTokenValue("#3B82F6")).toBe(normalizeTokenValue("rgb(59, 130, 246)"));
+    expect(normalizeTokenValue("#fff")).toBe(normalizeTokenValue("rgba(255, 255, 255, 1)"));
+    expect(normalizeTokenValue("#00000080")).toBe(normalizeTokenValue("rgba(0, 0, 0, 0.5)"));
+    expect(normalizeTokenValue(" 8PX ")).toBe("8px");
+  });
+
+  test("buildDesignTokenInfo resolves var() winners, in-scope properties and token matches", () => {
+    // Computed style of <button class="btn">: `.btn { color: var(--brand-500) }`.
+    const computed: Record<string, string> = {
+      color: "rgb(59, 130, 246)",
+      "--brand-500": " #3b82f6",
+      "--radius": "4px",
+      "--unused": "",
+    };
+    const names = Object.keys(computed);
+    const style = {
+      length: names.length,
+      item: (i: number) => names[i] ?? "",
+      getPropertyValue: (name: string) => computed[name] ?? "",
+    };
+    const doc = { defaultView: { getComputedStyle: () => style } };
+    const el = { tagName: "BUTTON", ownerDocument: doc } as unknown as Element;
+    const base = buildMinimalContext().styling;
+    const frame = {
+      ...base,
+      spacing: { margin: "0px 0px 0px 0px", padding: "8px 16px 8px 16px" },
+      colors: { ...base.colors, color: "rgb(59, 130, 246)" },
+    };
+    const winners = [
+      { property: "color", value: "var(--brand-500)", selector: ".btn" },
+      { property: "padding-top", value: "8px", selector: ".btn" },
+    ];
+    const table = { "brand-500": "#3B82F6", "space-2": "8px" };
+
+    const tokens = buildDesignTokenInfo(el, frame, winners, table);
+    expect(tokens.references).toEqual([
+      {
+        property: "color",
+        declaration: "var(--brand-500)",
+        variables: ["--brand-500"],
+        resolved: "rgb(59, 130, 246)",
+      },
+    ]);
+    // Referenced first, then the rest in scope; empty values are left out.
+    expect(tokens.variables).toEqual([
+      { name: "--brand-500", value: "#3b82f6", token: "brand-500" },
+      { name: "--radius", value: "4px", token: null },
+    ]);
+    expect(tokens.tokenMatches).toEqual([
+      { property: "color", value: "rgb(59, 130, 246)", token: "brand-500" },
+      { property: "padding-top", value: "8px", token: "space-2" },
+      { property: "padding-bottom", value: "8px", token: "space-2" },
+    ]);
+
+    const prompt = renderElementContextPrompt({
+      ...buildMinimalContext(),
+      styling: { ...frame, tokens },
+    });
+    expect(prompt).toContain(
+      'token_matches=[{"property":"color","value":"rgb(59, 130, 246)","token":"brand-500"},'
+    );
+    expect(prompt).toContain(
+      'variable_refs=[{"property":"color","declaration":"var(--brand-500)","resolved":"rgb(59, 130, 246)"}]'
+    );
+    expect(prompt).toContain('variables={"--brand-500":"#3b82f6 (brand-500)","--radius":"4px"}');
+  });
+});
+
+describe("Utility classes", () => {
+  test("parseUtilityClass splits variants and classifies the utility", () => {
+    expect(parseUtilityClass("md:hover:!bg-blue-500")).toEqual({
+      className: "md:hover:!bg-blue-500",
+      utility: "bg-blue-500",
+      variants: ["md", "hover"],
+      important: true,
+      concern: "color",
+    });
+    expect(parseUtilityClass("[&:hover]:underline").variants).toEqual(["[&:hover]"]);
+    expect(parseUtilityClass("-mt-2").concern).toBe("spacing");
+    expect(parseUtilityClass("text-sm").concern).toBe("typography");
+    expect(parseUtilityClass("text-slate-700").concern).toBe("color");
+    expect(parseUtilityClass("border-2").concern).toBe("border");
+    expect(parseUtilityClass("border-red-500").concern).toBe("color");
+    expect(parseUtilityClass("max-w-[40rem]").concern).toBe("sizing");
+  });
+
+  test("the prompt carries the full class attribute and the winning utilities", () => {
+    const base = buildMinimalContext();
+    const classAttribute =
+      "flex items-center gap-2 rounded-md bg-blue-500 px-4 py-2 text-sm font-medium text-white hover:bg-blue-600";
+    const context: ElementContextV2 = {
+      ...base,
+      styling: {
+        ...base.styling,
+        utilityClasses: {
+          framework: "tailwind",
+          classAttribute,
+          utilities: [
+            { ...parseUtilityClass("bg-blue-500"), sets: ["background-color"] },
+            { ...parseUtilityClass("hover:bg-blue-600"), sets: [] },
+          ],
+          otherClasses: [],
+          groups: { color: ["bg-blue-500", "hover:bg-blue-600"] },
+          variants: { hover: ["hover:bg-blue-600"] },
+        },
+      },
+    };
+    const prompt = renderElementContextPrompt(context);
+    expect(prompt).toContain(`class=${JSON.stringify(classAttribute)}`);
+    expect(prompt).toContain('utility_sets={"bg-blue-500":["background-color"]}');
+    expect(validateElementContext(context).ok).toBe(true);
+  });
+});
+
+describe("Screenshots", () => {
+  test("planScreenshot pads the box and caps the longest side", () => {
+    const box = { x: 100, y: 50, width: 200, height: 100 };
+    const sharp = planScreenshot(box, defaultScreenshotOptions, 2);
+    expect(sharp.region).toEqual({ x: 84, y: 34, width: 232, height: 132 });
+    expect(sharp.scale).toBe(2);
+    expect([sharp.width, sharp.height]).toEqual([464, 264]);
+
+    const capped = planScreenshot(box, { ...defaultScreenshotOptions, maxDimension: 116 }, 2);
+    expect(capped.scale).toBe(0.5);
+    expect([capped.width, capped.height]).toEqual([116, 66]);
+  });
+
+  test("screenshots are attached to the session and announced in the prompt", async () => {
+    const context = buildMinimalContext();
+    const session: GrabrSession = {
+      id: "session-1",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      url: "https://example.test/",
+      userInstruction: null,
+      summary: null,
+      elements: [context],
+      screenshots: [
+        {
+          instanceId: context.selection.instanceId,
+          dataUrl: "data:image/png;base64,iVBORw0K",
+          mimeType: "image/png",
+          width: 464,
+          height: 264,
+          region: { x: 84, y: 34, width: 232, height: 132 },
+          scale: 2,
+        },
+      ],
+    };
+    expect(validateSession(session).ok).toBe(true);
+    expect(renderSessionPrompt(session)).toContain("screenshots_attached=1");
+
+    const blob = dataUrlToBlob(session.screenshots![0]!.dataUrl);
+    expect(blob.type).toBe("image/png");
+    expect(Array.from(new Uint8Array(await blob.arrayBuffer()))).toEqual([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a,
+    ]);
+  });
+});
+
+describe("Layout ancestry", () => {
+  type Rect = { left: number; top: number; right: number; bottom: number };
+
+  // `wrapped` puts an `overflow: hidden` wrapper between body and the modal.
+  function buildTree(wrapped = false) {
+    const styles = new Map<object, Record<string, unknown>>();
+    const doc: Record<string, unknown> = {
+      defaultView: { getComputedStyle: (el: object) => styles.get(el) },
+    };
+    const make = (
+      tag: string,
+      parent: Record<string, unknown> | null,
+      decls: Record<string, string>,
+      rect: Rect = { left: 0, top: 0, right: 1000, bottom: 1000 }
+    ): Record<string, unknown> => {
+      const el: Record<string, unknown> = {
+        tagName: tag.toUpperCase(),
+        localName: tag,
+        id: "",
+        classList: [],
+        getAttribute: () => null,
+        parentElement: parent,
+        parentNode: parent,
+        firstElementChild: null,
+        nextElementSibling: null,
+        assignedSlot: null,
+        ownerDocument: doc,
+        getBoundingClientRect: () => rect,
+        scrollTop: 0,
+        scrollLeft: 0,
+        scrollHeight: 100,
+        clientHeight: 100,
+        scrollWidth: 100,
+        clientWidth: 100,
+      };
+      if (parent) parent["firstElementChild"] = el;
+      const values: Record<string, string> = {
+        display: "block",
+        position: "static",
+        "z-index": "auto",
+        opacity: "1",
+        "overflow-x": "visible",
+        "overflow-y": "visible",
+        ...decls,
+      };
+      const style: Record<string, unknown> = {
+        getPropertyValue: (name: string) => values[name] ?? "",
+      };
+      for (const [name, value] of Object.entries(values)) {
+        style[name.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase())] = value;
+      }
+      styles.set(el, style);
+      return el;
+    };
+    const html = make("html", null, {});
+    const body = make("body", html, {});
+    const wrapper = wrapped
+      ? make(
+          "div",
+          body,
+          { "overflow-x": "hidden", "overflow-y": "hidden" },
+          { left: 0, top: 0, right: 0, bottom: 0 }
+        )
+      : body;
+    const modal = make(
+      "section",
+      wrapper,
+      { position: "fixed", "z-index": "50", "overflow-x": "hidden", "overflow-y": "hidden" },
+      { left: 0, top: 0, right: 100, bottom: 100 }
+    );
+    const row = make("div", modal, { display: "flex", gap: "8px" });
+    const button = make(
+      "button",
+      row,
+      { "flex-grow": "1", opacity: "0.5" },
+      { left: 10, top: 10, right: 120, bottom: 40 }
+    );
+    doc["documentElement"] = html;
+    doc["body"] = body;
+    return button as unknown as Element;
+  }
+
+  test("names the flex container, clipping ancestor and stacking contexts", () => {
+    const layout = buildLayoutAncestry(buildTree());
+    expect(layout.parent).toEqual({
+      kind: "flex",
+      selector: "div:nth-of-type(1)",
+      display: "flex",
+      container: { gap: "8px" },
+      item: { "flex-grow": "1" },
+      participates: true,
+    });
+    expect(layout.containingBlock).toBeNull();
+    expect(layout.scrollContainer?.selector).toBe("section:nth-of-type(1)");
+    expect(layout.clippingAncestors).toEqual([
+      { selector: "section:nth-of-type(1)", overflow: "hidden", clipPath: null, clipsElement: true },
+    ]);
+    expect(layout.stackingContexts.map((c) => `${c.selector} ${c.zIndex} ${c.reason}`)).toEqual([
+      "button:nth-of-type(1) auto opacity: 0.5",
+      "section:nth-of-type(1) 50 position: fixed",
+      "html auto root",
+    ]);
+  });
+
+  test("fixed elements escape overflow clipping below their containing block", () => {
+    const layout = buildLayoutAncestry(buildTree(true));
+    expect(layout.clippingAncestors.map((c) => c.selector)).toEqual(["section:nth-of-type(1)"]);
+  });
+});
+
+describe("Visibility", () => {
+  function createPage() {
+    const styles = new Map<object, Record<string, unknown>>();
+    const doc: Record<string, unknown> = {
+      defaultView: {
+        innerWidth: 1000,
+        innerHeight: 800,
+        getComputedStyle: (el: object) => styles.get(el),
+      },
+    };
+    const make = (
+      tag: string,
+      parent: Record<string, unknown> | null,
+      style: Record<string, string>,
+      rect: { left: number; top: number; right: number; bottom: number },
+      attrs: Record<string, string> = {}
+    ): Record<string, unknown> => {
+      const el: Record<string, unknown> = {
+        tagName: tag.toUpperCase(),
+        id: "",
+        classList: [],
+        getAttribute: (name: string) => attrs[name] ?? null,
+        hasAttribute: (name: string) => name in attrs,
+        closest: () => null,
+        parentElement: parent,
+        parentNode: parent,
+        firstElementChild: null,
+        nextElementSibling: null,
+        ownerDocument: doc,
+        getRootNode: () => doc,
+        getBoundingClientRect: () => ({
+          ...rect,
+          width: rect.right - rect.left,
+          height: rect.bottom - rect.top,
+        }),
+      };
+      if (parent && !parent["firstElementChild"]) parent["firstElementChild"] = el;
+      styles.set(el, {
+        display: "block",
+        visibility: "visible",
+        opacity: "1",
+        overflowX: "visible",
+        overflowY: "visible",
+        getPropertyValue: () => "",
+        ...style,
+      });
+      return el;
+    };
+    return { doc, make };
+  }
+
+  test("reports occluders found by elementsFromPoint sampling", () => {
+    const { doc, make } = createPage();
+    const page = { left: 0, top: 0, right: 1000, bottom: 800 };
+    const html = make("html", null, {}, page);
+    const body = make("body", html, { opacity: "0.5" }, page, { "aria-hidden": "true" });
+    const button = make("button", body, {}, { left: 10, top: 10, right: 70, bottom: 40 });
+    const backdrop = make("div", body, {}, page);
+    button["nextElementSibling"] = backdrop;
+    doc["documentElement"] = html;
+    doc["body"] = body;
+    doc["elementsFromPoint"] = (x: number) =>
+      x < 30 ? [backdrop, button, body, html] : [button, body, html];
+
+    const report = buildVisibilityReport(button as unknown as Element);
+    expect(report.verdict).toBe("partially-visible");
+    expect(report.viewport).toBe("inside");
+    expect(report.occlusion).toEqual({ samples: 9, covered: 3, coveredBy: ["div:nth-of-type(1)"] });
+    expect(report.opacity).toBe(0.5);
+    expect(report.ariaHidden).toBe("body:nth-of-type(1)");
+    expect(report.reasons).toEqual([
+      "covered at 3/9 points by div:nth-of-type(1)",
+      "aria-hidden on body:nth-of-type(1)",
+    ]);
+  });
+
+  test("a fixed modal is not clipped by an overflow: hidden wrapper", () => {
+    const { doc, make } = createPage();
+    const page = { left: 0, top: 0, right: 1000, bottom: 800 };
+    const html = make("html", null, {}, page);
+    const body = make("body", html, {}, page);
+    const wrapper = make(
+      "div",
+      body,
+      { overflowX: "hidden", overflowY: "hidden" },
+      { left: 0, top: 0, right: 0, bottom: 0 }
+    );
+    const modal = make(
+      "dialog",
+      wrapper,
+      { position: "fixed" },
+      { left: 100, top: 100, right: 400, bottom: 300 }
+    );
+    doc["documentElement"] = html;
+    doc["body"] = body;
+    doc["elementsFromPoint"] = () => [modal, wrapper, body, html];
+
+    const report = buildVisibilityReport(modal as unknown as Element);
+    expect(report.clippedBy).toBeNull();
+    expect(report.visibleRatio).toBe(1);
+    expect(report.verdict).toBe("visible");
+  });
+});
+
+describe("Accessible names", () => {
+  type FakeNode = Record<string, unknown>;
+  const text = (value: string): FakeNode => ({ nodeType: 3, nodeValue: value });
+  const element = (
+    tag: string,
+    attrs: Record<string, string>,
+    childNodes: FakeNode[] = []
+  ): FakeNode => {
+    const el: FakeNode = {
+      nodeType: 1,
+      tagName: tag.toUpperCase(),
+      localName: tag,
+      id: attrs["id"] ?? "",
+      childNodes,
+      children: childNodes.filter((node) => node["nodeType"] === 1),
+      getAttribute: (name: string) => attrs[name] ?? null,
+      hasAttribute: (name: string) => name in attrs,
+      matches: () => false,
+      parentElement: null,
+      parentNode: null,
+    };
+    for (const child of childNodes) child["parentElement"] = el;
+    return el;
+  };
+  const nameOf = (el: FakeNode) => {
+    const info = buildAccessibilityInfo(el as unknown as Element);
+    return [info.name, info.nameSource];
+  };
+
+  test("input buttons are named by their value or the default label", () => {
+    expect(nameOf(element("input", { type: "submit", value: "Place order" }))).toEqual([
+      "Place order",
+      "value",
+    ]);
+    expect(nameOf(element("input", { type: "reset" }))).toEqual(["Reset", "value"]);
+    expect(nameOf(element("input", { type: "button", title: "More" }))).toEqual([
+      "More",
+      "title",
+    ]);
+  });
+
+  test("name and label text leave out hidden subtrees and script contents", () => {
+    const button = element("button", {}, [
+      element("span", { "aria-hidden": "true" }, [text("★")]),
+      text(" Save "),
+      element("span", { hidden: "" }, [text("(unsaved)")]),
+      element("script", {}, [text("track()")]),
+      element("b", {}, [text("draft")]),
+    ]);
+    expect(nameOf(button)).toEqual(["Save draft", "contents"]);
+
+    const heading = element("h2", { id: "title" }, [
+      text("Billing"),
+      element("span", { "aria-hidden": "true" }, [text(" →")]),
+    ]);
+    const doc = { getElementById: (id: string) => (id === "title" ? heading : null) };
+    const dialog = element("div", { role: "dialog", "aria-labelledby": "title" });
+    dialog["getRootNode"] = () => doc;
+    const info = buildAccessibilityInfo(dialog as unknown as Element);
+    expect([info.name, info.nameSource]).toEqual(["Billing", "aria-labelledby"]);
+    expect(info.labels).toEqual([{ kind: "aria-labelledby", id: "title", text: "Billing" }]);
+  });
+});
+
+describe("Form context", () => {
+  const makeControl = (
+    tag: string,
+    parent: Record<string, unknown>,
+    props: Record<string, unknown>,
+    attrs: Record<string, string> = {}
+  ): Record<string, unknown> => {
+    const el: Record<string, unknown> = {
+      tagName: tag.toUpperCase(),
+      localName: tag,
+      id: "",
+      classList: [],
+      childNodes: [],
+      getAttribute: (name: string) => attrs[name] ?? null,
+      hasAttribute: (name: string) => name in attrs,
+      matches: (selector: string) => selector === ":disabled" && "disabled" in attrs,
+      getRootNode: () => ({}),
+      parentElement: parent,
+      parentNode: parent,
+      nextElementSibling: null,
+      willValidate: true,
+      ...props,
+    };
+    return el;
+  };
+
+  test("describes the form, its fields and their validity, with values redacted", () => {
+    const attrs: Record<string, string> = { action: "/signup", method: "POST" };
+    const form: Record<string, unknown> = {
+      tagName: "FORM",
+      localName: "form",
+      id: "",
+      classList: [],
+      getAttribute: (name: string) => attrs[name] ?? null,
+      hasAttribute: (name: string) => name in attrs,
+      parentElement: null,
+      parentNode: null,
+    };
+    const validity = (flags: Record<string, boolean>) => ({
+      valid: !Object.values(flags).some(Boolean),
+      ...flags,
+    });
+    const email = makeControl(
+      "input",
+      form,
+      {
+        form,
+        type: "email",
+        name: "email",
+        value: "ada@example.com",
+        required: true,
+        validity: validity({}),
+        validationMessage: "",
+      },
+      { "aria-label": "Email" }
+    );
+    const password = makeControl("input", form, {
+      form,
+      type: "password",
+      name: "password",
+      value: "hunter2",
+      required: true,
+      validity: validity({ valueMissing: false, tooShort: true }),
+      validationMessage: "Use at least 8 characters.",
+    });
+    const submit = makeControl(
+      "button",
+      form,
+      { form, type: "submit", name: "", value: "", willValidate: false },
+      { disabled: "" }
+    );
+    form["firstElementChild"] = email;
+    email["nextElementSibling"] = password;
+    password["nextElementSibling"] = submit;
+    form["elements"] = [email, password, submit];
+
+    const context = buildFormContext(password as unknown as Element);
+    expect(context?.form).toEqual({
+      selector: "form",
+      name: null,
+      action: "/signup",
+      method: "post",
+      noValidate: false,
+    });
+    expect(context?.field).toMatchObject({
+      selector: "input:nth-of-type(2)",
+      value: null,
+      valid: false,
+      validity: ["tooShort"],
+      validationMessage: "Use at least 8 characters.",
+    });
+    expect(context?.totalFields).toBe(3);
+    expect(context?.fields.map((field) => field.label)).toEqual(["Email", null]);
+    expect(context?.fields[1]).toMatchObject({ disabled: true, valid: null, validity: [] });
+
+    // The library's copy of the password field's value is dropped too.
+    const withLibrary = buildFormContext(email as unknown as Element, () => ({
+      library: "react-hook-form",
+      values: { email: "ada@example.com", password: "hunter2" },
+      errors: null,
+      touched: null,
+      dirty: null,
+      submitting: null,
+      submitCount: null,
+      valid: null,
+    }));
+    expect(withLibrary?.library?.values).toEqual({ email: "ada@example.com" });
+
+    const redacted = redactElementContext(
+      { ...buildMinimalContext(), form: context },
+      defaultRedactionConfig
+    );
+    expect(redacted.form?.fields[0]?.value).toBe("[redacted:email]");
+    expect(validateElementContext(redacted).ok).toBe(true);
+    expect(renderElementContextPrompt(redacted)).toContain('"invalid":["tooShort"]');
+  });
+
+  test("reads react-hook-form and Formik state", () => {
+    const rhf = readFormLibraryState(
+      {
+        current: {
+          control: {
+            _formValues: { email: "a@b.co" },
+            _formState: {
+              errors: {},
+              touchedFields: { email: true },
+              isDirty: true,
+              submitCount: 1,
+            },
+          },
+        },
+      },
+      defaultSerializationLimits
+    );
+    expect(rhf).toMatchObject({
+      library: "react-hook-form",
+      values: { email: "a@b.co" },
+      touched: { email: true },
+      dirty: true,
+      submitCount: 1,
+      valid: null,
+    });
+
+    const formik = readFormLibraryState(
+      {
+        values: { name: "" },
+        errors: { name: "Required" },
+        touched: {},
+        isSubmitting: false,
+        setFieldValue: () => {},
+        handleSubmit: () => {},
+      },
+      defaultSerializationLimits
+    );
+    expect(formik).toMatchObject({
+      library: "formik",
+      errors: { name: "Required" },
+      submitting: false,
+    });
+    expect(readFormLibraryState({ values: {} }, defaultSerializationLimits)).toBeNull();
+  });
+});
+
+describe("Source maps", () => {
+  test("normalizeSourcePath makes bundler paths repo-relative", () => {
+    expect(normalizeSourcePath("webpack://_N_E/./src/app/page.tsx?abc")).toBe("src/app/page.tsx");
+    expect(normalizeSourcePath("turbopack:///[project]/src/Button.tsx")).toBe("src/Button.tsx");
+    expect(normalizeSourcePath("/@fs/home/ci/app/src/main.tsx", ["/home/ci/app/"])).toBe(
+      "src/main.tsx"
+    );
+    expect(normalizeSourcePath("../../node_modules/.pnpm/x/node_modules/react/index.js")).toBe(
+      "node_modules/react/index.js"
+    );
+  });
+
+  test("resolveSourceLocation maps bundle positions through same-origin maps", async () => {
+    const globals = globalThis as { location?: unknown };
+    const previous = globals.location;
+    globals.location = { origin: "https://staging.example.com" };
+    const requested: string[] = [];
+    const fetch = async (url: string) => {
+      requested.push(url);
+      return url.endsWith(".map")
+        ? new Response(
+            JSON.stringify({ version: 3, sources: ["../src/App.tsx"], mappings: "AAAA,UAIE" })
+          )
+        : new Response("console.log(1);\n//# sourceMappingURL=index-3f2a.js.map");
+    };
+    const bundled = {
+      fileName: "https://staging.example.com/assets/index-3f2a.js",
+      lineNumber: 1,
+      columnNumber: 11,
+      confidence: "low",
+      origin: "bippy",
+    } as const;
+    try {
+      expect(await resolveSourceLocation(bundled, { fetch })).toEqual({
+        fileName: "src/App.tsx",
+        lineNumber: 5,
+        columnNumber: 3,
+        confidence: "high",
+        origin: "sourcemap",
+      });
+      const inexact = await resolveSourceLocation({ ...bundled, columnNumber: 15 }, { fetch });
+      expect(inexact.confidence).toBe("medium");
+      // The map is fetched once per script.
+      expect(requested).toEqual([
+        "https://staging.example.com/assets/index-3f2a.js",
+        "https://staging.example.com/assets/index-3f2a.js.map",
+      ]);
+      const foreign = { ...bundled, fileName: "https://cdn.example.net/lib.js" };
+      expect(await resolveSourceLocation(foreign, { fetch })).toBe(foreign);
+    } finally {
+      globals.location = previous;
+      clearSourceMapCache();
+    }
+  });
+
+  test("resolveSourceLocation retries after timeouts and server errors", async () => {
+    const globals = globalThis as { location?: unknown };
+    const previous = globals.location;
+    globals.location = { origin: "https://staging.example.com" };
+    const map = JSON.stringify({ version: 3, sources: ["../src/App.tsx"], mappings: "AAAA" });
+    let mapResponses: ((init?: RequestInit) => Response)[] = [
+      // Headers arrive, then the body stalls until the request is aborted.
+      (init) =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              init?.signal?.addEventListener("abort", () => controller.error(new Error("aborted")));
+            },
+          })
+        ),
+      () => new Response("", { status: 503 }),
+      () => new Response(map),
+    ];
+    const fetch = async (url: string, init?: RequestInit) => {
+      if (!url.endsWith(".map")) return new Response("console.log(1);");
+      const [next, ...rest] = mapResponses;
+      mapResponses = rest;
+      return next!(init);
+    };
+    const bundled = {
+      fileName: "https://staging.example.com/assets/index.js",
+      lineNumber: 1,
+      columnNumber: 1,
+      confidence: "low",
+      origin: "bippy",
+    } as const;
+    const options = { fetch, timeoutMs: 20 };
+    try {
+      expect(await resolveSourceLocation(bundled, options)).toBe(bundled);
+      expect(await resolveSourceLocation(bundled, options)).toBe(bundled);
+      expect((await resolveSourceLocation(bundled, options)).fileName).toBe("src/App.tsx");
+      expect(mapResponses).toEqual([]);
+    } finally {
+      globals.location = previous;
+      clearSourceMapCache();
+    }
+  });
+});
+
+// Plain-object fibers: just the fields bippy and grabr read. Tags: 0 function
+// component, 3 root, 5 host, 10 context provider.
+type FakeFiber = { [key: string]: unknown };
+
+function fakeFiber(
+  tag: number,
+  type: unknown,
+  parent: FakeFiber | null,
+  fields: FakeFiber = {}
+): FakeFiber {
+  const fiber: FakeFiber = {
+    tag,
+    type,
+    return: parent,
+    child: null,
+    sibling: null,
+    stateNode: null,
+    memoizedProps: {},
+    memoizedState: null,
+    ...fields,
+  };
+  if (parent) {
+    // Appended as the parent's last child.
+    let last = parent["child"] as FakeFiber | null;
+    if (!last) parent["child"] = fiber;
+    while (last && last["sibling"]) last = last["sibling"] as FakeFiber;
+    if (last) last["sibling"] = fiber;
+  }
+  return fiber;
+}
+
+const asFiber = (fiber: FakeFiber) => fiber as unknown as Parameters<typeof snapshotContexts>[0];
+
+describe("Hook inspection", () => {
+  test("parseCustomHookPath reads custom hooks between the primitive and the component", () => {
+    const stack = [
+      "Error",
+      "    at HookReplay.take (http://localhost:5173/node_modules/.vite/deps/grabr.js:210:33)",
+      "    at Object.useState (http://localhost:5173/node_modules/.vite/deps/grabr.js:251:27)",
+      "    at useState (http://localhost:5173/node_modules/.vite/deps/react.js:1102:29)",
+      "    at useLocalStorage (http://localhost:5173/src/hooks/storage.ts:4:31)",
+      "    at useCart (http://localhost:5173/src/hooks/cart.ts:9:17)",
+      "    at Cart (http://localhost:5173/src/Cart.tsx:12:20)",
+      "    at renderForReplay (http://localhost:5173/node_modules/.vite/deps/grabr.js:330:5)",
+    ].join("\n");
+    expect(parseCustomHookPath(stack, "useState")).toEqual(["useCart", "useLocalStorage"]);
+    expect(parseCustomHookPath(stack, "useRef")).toEqual([]);
+  });
+
+  test("classifyHookNode infers kinds from hook list nodes", () => {
+    const node = (memoizedState: unknown, queue: unknown = null) => ({
+      memoizedState,
+      queue,
+      next: null,
+    });
+    function basicStateReducer(state: unknown, action: unknown) {
+      return typeof action === "function" ? action(state) : action;
+    }
+    const effect = { tag: 9, create: () => {}, deps: [1], inst: {}, next: null };
+    expect(classifyHookNode(node(1, { lastRenderedReducer: basicStateReducer }))).toBe("state");
+    expect(classifyHookNode(node(1, { lastRenderedReducer: (s: number) => s + 1 }))).toBe(
+      "reducer"
+    );
+    expect(classifyHookNode(node(effect))).toBe("effect");
+    expect(classifyHookNode(node({ ...effect, tag: 5 }))).toBe("layout-effect");
+    expect(classifyHookNode(node({ current: null }))).toBe("ref");
+    expect(classifyHookNode(node([() => {}, [1]]))).toBe("callback");
+    expect(classifyHookNode(node([42, null]))).toBe("memo");
+    expect(classifyHookNode(node("«r1»"))).toBe("id");
+  });
+
+  describe("inspectFiberHooks", () => {
+    // A renderer whose dispatcher slot the component below calls into, the
+    // way React's exported hooks do.
+    const dispatcherRef: { H: unknown } = { H: null };
+    const renderer = { currentDispatcherRef: dispatcherRef } as unknown as Parameters<
+      typeof inspectFiberHooks
+    >[1];
+    type Dispatcher = { [name: string]: (...args: unknown[]) => unknown };
+    const dispatcher = () => dispatcherRef.H as Dispatcher;
+    // No tail calls: JavaScriptCore drops their frames from stack traces.
+    function useCart() {
+      const [items] = dispatcher()["useState"]!() as [unknown];
+      return items;
+    }
+    function Cart() {
+      useCart();
+      dispatcher()["useTransition"]!();
+      dispatcher()["useActionState"]!();
+      dispatcher()["useEffect"]!();
+      return null;
+    }
+    const effect = { tag: 9, create: () => {}, deps: ["id"], inst: {}, next: null };
+    // One list node per entry, linked in order.
+    const hookList = (...states: unknown[]) =>
+      states.reduceRight<unknown>((next, memoizedState) => ({ memoizedState, next }), null);
+
+    test("replays the component for kinds, names and custom hook paths", () => {
+      // useTransition takes 2 nodes and useActionState 3.
+      const memoizedState = hookList(["apple"], false, () => {}, "idle", false, null, effect);
+      const fiber = asFiber(fakeFiber(0, Cart, null, { memoizedState }));
+      const hooks = inspectFiberHooks(fiber, renderer);
+      expect(
+        hooks.map((h) => [h.hookIndex, h.kind, h.name, h.customHookPath.join(">"), h.value])
+      ).toEqual([
+        [0, "state", "useState", "useCart", ["apple"]],
+        [1, "transition", "useTransition", "", false],
+        [3, "action-state", "useActionState", "", "idle"],
+        [6, "effect", "useEffect", "", ["id"]],
+      ]);
+      expect(dispatcherRef.H).toBeNull();
+    });
+
+    test("falls back to node shapes when the replay disagrees with the hook list", () => {
+      // One node more than the render consumes.
+      const memoizedState = hookList(["apple"], false, () => {}, "idle", false, null, effect, {
+        current: 1,
+      });
+      const fiber = asFiber(fakeFiber(0, Cart, null, { memoizedState }));
+      const hooks = inspectFiberHooks(fiber, renderer);
+      expect(hooks).toHaveLength(8);
+      expect(hooks.every((h) => h.name === null)).toBe(true);
+      expect(hooks[6]?.kind).toBe("effect");
+      expect(hooks[7]?.kind).toBe("ref");
+      // Without a dispatcher slot there is no replay either.
+      expect(inspectFiberHooks(fiber, null)[0]?.name).toBeNull();
+    });
+  });
+});
+
+describe("Context entries", () => {
+  test("snapshotContexts credits the component that rendered the provider", async () => {
+    const ThemeContext = { displayName: "ThemeContext" };
+    const LocaleContext = { displayName: "LocaleContext" };
+    function App() {}
+    function Layout() {}
+    function Button() {}
+    const root = fakeFiber(3, null, null);
+    const app = fakeFiber(0, App, root);
+    const layout = fakeFiber(0, Layout, app);
+    // <Layout><ThemeContext.Provider value="dark"> rendered by App.
+    const provider = fakeFiber(10, { _context: ThemeContext }, layout, { _debugOwner: app });
+    const dependencies = {
+      firstContext: {
+        context: ThemeContext,
+        memoizedValue: "dark",
+        next: { context: LocaleContext, memoizedValue: "en", next: null },
+      },
+    };
+    const button = fakeFiber(0, Button, provider, {
+      dependencies,
+      alternate: { dependencies },
+    });
+    const config = mergeRuntimeConfig({});
+
+    const development = await snapshotContexts(asFiber(button), config, "development");
+    expect(development).toEqual({
+      totalContexts: 2,
+      entries: [
+        {
+          index: 0,
+          displayName: "ThemeContext",
+          isDefault: false,
+          provider: { componentName: "App", source: null },
+          value: "dark",
+        },
+        { index: 1, displayName: "LocaleContext", isDefault: true, provider: null, value: "en" },
+      ],
+    });
+
+    // Production builds have no owner: the nearest component above the provider.
+    delete provider["_debugOwner"];
+    const production = await snapshotContexts(asFiber(button), config, "production");
+    expect(production.entries[0]?.provider?.componentName).toBe("Layout");
+  });
+
+  test("carry the context name, provider and default flag into the prompt", () => {
+    const base = buildMinimalContext();
+    const context: ElementContextV2 = {
+      ...base,
+      react: {
+        stack: [],
+        ownerIndex: 0,
+        ownerProps: null,
+        ownerState: null,
+        propLineage: [],
+        ownerContexts: {
+          totalContexts: 2,
+          entries: [
+            {
+              index: 0,
+              displayName: "ThemeContext",
+              isDefault: false,
+              provider: {
+                componentName: "ThemeRoot",
+                source: {
+                  fileName: "src/theme/ThemeRoot.tsx",
+                  lineNumber: 14,
+                  columnNumber: 3,
+                  confidence: "high",
+                  origin: "bippy",
+                },
+              },
+              value: { mode: "dark" },
+            },
+            { index: 1, displayName: "AuthTokenContext", isDefault: true, provider: null, value: "t" },
+          ],
+        },
+      },
+    };
+    expect(validateElementContext(context).ok).toBe(true);
+
+    const redacted = redactElementContext(context, defaultRedactionConfig);
+    expect(redacted.react?.ownerContexts?.entries[1]?.value).toBe("[redacted:sensitive-key]");
+
+    const prompt = renderElementContextPrompt(redacted);
+    expect(prompt).toContain('"context":"ThemeContext"');
+    expect(prompt).toContain('"component":"ThemeRoot"');
+    expect(prompt).toContain('"file":"src/theme/ThemeRoot.tsx"');
+    expect(prompt).toContain("default value (no provider)");
+  });
+});
+
+describe("Props capture", () => {
+  const element = (type: unknown, props: Record<string, unknown>, key: string | null = null) => ({
+    $$typeof: Symbol.for("react.transitional.element"),
+    type,
+    key,
+    props,
+  });
+
+  describe("snapshotProps", () => {
+    function handleSave() {}
+    const fiber = asFiber(
+      fakeFiber(0, function Cart() {}, null, {
+        memoizedProps: {
+          onSave: handleSave,
+          id: 7,
+          title: "Cart",
+          variant: "primary",
+          hidden: undefined,
+          note: null,
+          apiToken: "t0k",
+        },
+      })
+    );
+    const capture = (props: PropsCaptureOptions) => {
+      const snapshot = snapshotProps(fiber, mergeRuntimeConfig({ props }));
+      return {
+        total: snapshot.totalProps,
+        names: snapshot.highlighted.map((p) => `${p.name}:${p.reason}`),
+        omitted: snapshot.omitted,
+      };
+    };
+
+    test("highlighted mode keeps props with a value, ranked by reason", () => {
+      expect(capture({ mode: "highlighted" })).toEqual({
+        total: 7,
+        names: ["title:text", "variant:design", "id:other", "apiToken:other", "onSave:function"],
+        omitted: [],
+      });
+    });
+
+    test("maxProps moves the rest to omitted", () => {
+      expect(capture({ mode: "highlighted", maxProps: 2 })).toEqual({
+        total: 7,
+        names: ["title:text", "variant:design"],
+        omitted: ["id", "apiToken", "onSave"],
+      });
+    });
+
+    test("all, listed, include and exclude", () => {
+      expect(capture({ mode: "all", exclude: [/^api/] }).names).toEqual([
+        "title:text",
+        "variant:design",
+        "id:other",
+        "hidden:other",
+        "note:other",
+        "onSave:function",
+      ]);
+      expect(capture({ mode: "listed", include: ["note", /^on/] }).names).toEqual([
+        "note:other",
+        "onSave:function",
+      ]);
+      // Listed props lead; exclude beats include.
+      expect(
+        capture({ mode: "highlighted", include: ["apiToken", "id"], exclude: ["id"] }).names
+      ).toEqual(["apiToken:other", "title:text", "variant:design", "onSave:function"]);
+    });
+  });
+
+  test("summarizeReactChildren outlines the element tree", () => {
+    function Title() {
+      return null;
+    }
+    const children = [
+      element(Title, {}),
+      "Total",
+      false,
+      element("ul", { children: [element("li", { children: "a" }, "a"), element("li", {}, "b")] }),
+    ];
+    expect(summarizeReactChildren(children)).toBe(
+      '<Title/>"Total"<ul><li key="a">"a"</li><li key="b"/></ul>'
+    );
+    expect(summarizeReactChildren(children, { ...defaultSerializationLimits, maxDepth: 1 })).toBe(
+      '<Title/>"Total"<ul>…2 children</ul>'
+    );
+  });
+
+  test("hasTruncationMarker spots values cut by serialization limits", () => {
+    const limits = { ...defaultSerializationLimits, maxArrayItems: 2, maxStringLength: 4 };
+    expect(hasTruncationMarker(toSerializableValue({ items: [1, 2] }, 0, limits))).toBe(false);
+    expect(hasTruncationMarker(toSerializableValue({ items: [1, 2, 3] }, 0, limits))).toBe(true);
+    expect(hasTruncationMarker(toSerializableValue("abcdef", 0, limits))).toBe(true);
+  });
+});
+
+describe("Frame snapshots", () => {
+  test("buildPropLineage follows identities and same-name primitives up the stack", () => {
+    const items = [{ sku: "A1" }];
+    const theme = { dark: true };
+    const ThemeContext = { displayName: "ThemeContext" };
+    function App() {}
+    function CartPage() {}
+    function CartPanel() {}
+    function CartList() {}
+    const root = fakeFiber(3, null, null);
+    const dependencies = {
+      firstContext: { context: ThemeContext, memoizedValue: theme, next: null },
+    };
+    // App would match `items` by prop too, but CartPage's state ends the trace.
+    const app = fakeFiber(0, App, root, {
+      memoizedProps: { items },
+      dependencies,
+      alternate: { dependencies },
+    });
+    const page = fakeFiber(0, CartPage, app, {
+      memoizedProps: { size: "md" },
+      memoizedState: { memoizedState: items, next: null },
+    });
+    // Same value under another name: only objects match that way.
+    const panel = fakeFiber(0, CartPanel, page, {
+      memoizedProps: { list: items, size: "md", total: 3 },
+    });
+    const div = fakeFiber(5, "div", panel);
+    const list = fakeFiber(0, CartList, div, {
+      memoizedProps: { items, size: "md", count: 3, theme },
+    });
+    const fibers = [list, div, panel, page, app].map(asFiber);
+    const stack = ["CartList", "div", "CartPanel", "CartPage", "App"].map((displayName) => ({
+      displayName,
+    })) as unknown as Parameters<typeof buildPropLineage>[1];
+    const ownerProps = snapshotProps(fibers[0]!, mergeRuntimeConfig({}));
+
+    const lineage = buildPropLineage(fibers, stack, 0, ownerProps);
+    const format = (prop: string) =>
+      lineage
+        .find((entry) => entry.prop === prop)
+        ?.steps.map((step) => `${step.displayName}@${step.frameIndex} ${step.via} ${step.name}`);
+    expect(format("items")).toEqual(["CartPanel@2 prop list", "CartPage@3 state state[0]"]);
+    expect(format("size")).toEqual(["CartPanel@2 prop size", "CartPage@3 prop size"]);
+    expect(format("theme")).toEqual(["App@4 context ThemeContext"]);
+    // 3 is passed on as `total`, a different name.
+    expect(format("count")).toBeUndefined();
+  });
+
+  test("ancestor snapshots and prop lineage reach the prompt, redacted", () => {
+    const base = buildMinimalContext();
+    const frame = (displayName: string) => ({
+      displayName,
+      isHost: false,
+      source: null,
+      flags: {
+        isHost: false,
+        isComposite: true,
+        isSuspenseBoundary: null,
+        isErrorBoundary: null,
+        isServerComponent: null,
+        isLayoutLike: null,
+      },
+      snapshot: null,
+    });
+    const context: ElementContextV2 = {
+      ...base,
+      react: {
+        stack: [
+          frame("CartList"),
+          {
+            ...frame("CartPage"),
+            snapshot: {
+              props: {
+                totalProps: 1,
+                highlighted: [{ name: "apiToken", value: "abc", reason: "other", truncated: false }],
+                omitted: [],
+              },
+              state: { totalHooks: 0, entries: [] },
+              contexts: { totalContexts: 0, entries: [] },
+            },
+          },
+        ],
+        ownerIndex: 0,
+        ownerProps: null,
+        ownerState: null,
+        ownerContexts: null,
+        propLineage: [
+          {
+            prop: "items",
+            steps: [{ frameIndex: 1, displayName: "CartPage", via: "state", name: "state[0]" }],
+          },
+        ],
+      },
+    };
+    expect(validateElementContext(context).ok).toBe(true);
+
+    const redacted = redactElementContext(context, defaultRedactionConfig);
+    expect(redacted.react?.stack[1]?.snapshot?.props.highlighted[0]?.value).toBe(
+      "[redacted:sensitive-key]"
+    );
+
+    const prompt = renderElementContextPrompt(redacted);
+    expect(prompt).toContain('prop_lineage={"items":"CartPage@1 state state[0]"}');
+    expect(prompt).toContain('"displayName":"CartPage"');
+  });
+});
+
+describe("Component selection", () => {
+  test("unionBoundingBox spans every host element", () => {
+    const host = (left: number, top: number, right: number, bottom: number) =>
+      ({ getBoundingClientRect: () => ({ left, top, right, bottom }) }) as unknown as Element;
+    expect(unionBoundingBox([host(10, 20, 50, 40), host(30, 60, 80, 90)])).toEqual({
+      x: 10,
+      y: 20,
+      width: 70,
+      height: 70,
+    });
+    expect(unionBoundingBox([])).toEqual({ x: 0, y: 0, width: 0, height: 0 });
+  });
+
+  test("resolveComponentAt walks the component chain and collects top-level hosts", () => {
+    const node = (tag: string) => ({
+      nodeType: 1,
+      tagName: tag.toUpperCase(),
+      ownerDocument: { defaultView: null },
+    });
+    function App() {}
+    function ProductList() {}
+    function ProductCard() {}
+    const root = fakeFiber(3, null, null);
+    const app = fakeFiber(0, App, root);
+    const productList = fakeFiber(0, ProductList, app);
+    const ul = fakeFiber(5, "ul", productList, { stateNode: node("ul") });
+    const card = fakeFiber(0, ProductCard, ul);
+    const first = fakeFiber(5, "li", card, { stateNode: node("li") });
+    const span = fakeFiber(5, "span", first, { stateNode: node("span") });
+    const second = fakeFiber(5, "li", card, { stateNode: node("li") });
+    // React's own back-reference from DOM node to fiber.
+    for (const fiber of [ul, first, span, second]) {
+      (fiber["stateNode"] as FakeFiber)["__reactFiber$test"] = fiber;
+    }
+    const element = (fiber: FakeFiber) => fiber["stateNode"] as unknown as Element;
+    const clicked = element(span);
+
+    expect(countComponentAncestors(clicked)).toBe(3);
+    const nearest = resolveComponentAt(clicked, 0);
+    expect(nearest?.displayName).toBe("ProductCard");
+    // Both <li>s, but not the <span> nested in the first.
+    expect(nearest?.hosts).toEqual([element(first), element(second)]);
+    expect(resolveComponentAt(clicked, 1)?.hosts).toEqual([element(ul)]);
+    expect(resolveComponentAt(clicked, 2)?.displayName).toBe("App");
+    expect(resolveComponentAt(clicked, 3)).toBeNull();
+
+    // Another part of the same card, or its alternate fiber, is the same component.
+    const other = resolveComponentAt(element(second), 0)!;
+    expect(isSameComponent(nearest!, other)).toBe(true);
+    const alternate = asFiber(fakeFiber(0, ProductCard, null, { alternate: card }));
+    expect(isSameComponent(nearest!, { ...other, fiber: alternate })).toBe(true);
+    expect(isSameComponent(nearest!, resolveComponentAt(clicked, 1)!)).toBe(false);
+  });
+
+  test("behavior of a selected component reports its own handlers", () => {
+    function ProductCard() {}
+    function onSave() {}
+    function onClick() {}
+    const root = fakeFiber(3, null, null);
+    const card = fakeFiber(0, ProductCard, root, { memoizedProps: { onSave, title: "Mug" } });
+    const li = fakeFiber(5, "li", card, {
+      stateNode: { nodeType: 1, tagName: "LI", ownerDocument: { defaultView: null } },
+      memoizedProps: { onClick },
+    });
+    (li["stateNode"] as FakeFiber)["__reactFiber$test"] = li;
+    const host = li["stateNode"] as unknown as Element;
+    const component = resolveComponentAt(host, 0)!;
+    const source = {
+      fileName: "src/ProductCard.tsx",
+      lineNumber: 4,
+      columnNumber: 1,
+      confidence: "high" as const,
+      origin: "bippy" as const,
+    };
+    // The slice of a selected component starts at the component itself.
+    const slice = {
+      stack: [{ displayName: "ProductCard", source }],
+      ownerIndex: 0,
+    } as unknown as Parameters<typeof buildBehaviorContext>[1];
+
+    const behavior = buildBehaviorContext(host, slice, component);
+    expect(
+      behavior.handlers.map((h) => [h.propName, h.functionName, h.declaredOnComponent, h.source])
+    ).toEqual([
+      ["onSave", "onSave", "ProductCard", source],
+      ["onClick", "onClick", null, null],
+    ]);
+  });
+
+  test("a selected component is the selection root, not its first host", () => {
+    const host = (tag: string, left: number, classes: string[] = []) =>
+      ({
+        tagName: tag,
+        id: "",
+        classList: classes,
+        getAttribute: () => null,
+        getBoundingClientRect: () => ({ left, top: 0, width: 10, height: 10 }),
+      }) as unknown as Element;
+    const component = {
+      displayName: "ProductCard",
+      source: {
+        fileName: "src/ProductCard.tsx",
+        lineNumber: 4,
+        columnNumber: 1,
+        confidence: "high" as const,
+        origin: "bippy" as const,
+      },
+      hostSelectors: ["li:nth-of-type(1)", "li:nth-of-type(2)"],
+      totalHostElements: 2,
+      boundingBox: { x: 0, y: 0, width: 40, height: 10 },
+    };
+    const hosts = [host("LI", 0, ["card", "css-1x2y3z"]), host("LI", 20, ["card"])];
+    // The root toggles a state class and the build hash changes.
+    const restyled = [host("LI", 0, ["card", "css-9q8w7e", "is-active"]), hosts[1]!];
+    const globals = globalThis as { CSS?: unknown };
+    const previous = globals.CSS;
+    globals.CSS = { escape: (value: string) => value };
+    try {
+      const first = buildSelectionInfo(hosts[0]!, null, component, hosts);
+      // The fingerprint does not depend on which element rendered first...
+      const second = buildSelectionInfo(host("SPAN", 30), null, component, hosts);
+      // ...nor on the classes that come and go.
+      const third = buildSelectionInfo(restyled[0]!, null, component, restyled);
+      expect(first.boundingBox).toEqual(component.boundingBox);
+      expect(first.fingerprint.parts.selector).toBe("li.card, li.card");
+      expect(second.fingerprint.hash).toBe(first.fingerprint.hash);
+      expect(third.fingerprint.hash).toBe(first.fingerprint.hash);
+      expect(first.fingerprint.parts.source).toBe("src/ProductCard.tsx:4:1");
+    } finally {
+      globals.CSS = previous;
+    }
+  });
+
+  test("the component block validates and leads the prompt", () => {
+    const context: ElementContextV2 = {
+      ...buildMinimalContext(),
+      component: {
+        displayName: "ProductCard",
+        source: null,
+        hostSelectors: ["li:nth-of-type(1)", "li:nth-of-type(2)"],
+        totalHostElements: 2,
+        boundingBox: { x: 10.4, y: 20, width: 70, height: 70.6 },
+      },
+    };
+    expect(validateElementContext(context).ok).toBe(true);
+    expect(mergeRuntimeConfig({}).selectionMode).toBe("element");
+    expect(
+      redactElementContext(
+        {
+          ...context,
+          component: { ...context.component!, hostSelectors: ['li[title="jane@doe.com"]'] },
+        },
+        defaultRedactionConfig
+      ).component?.hostSelectors
+    ).toEqual(['li[title="[redacted:email]"]']);
+
+    const prompt = renderElementContextPrompt(context);
+    expect(prompt).toContain("[section:component]");
+    expect(prompt).toContain('name="ProductCard"');
+    expect(prompt).toContain('bounding_box={"x":10,"y":20,"w":70,"h":71}');
+    expect(prompt).toContain("host_elements=2");
+  });
+});